@@ -0,0 +1,150 @@
+// Builds the WebM fixture the webmMetadata tests run against. 🎞️
+//
+//   npm run fixtures:webm   -> src/utils/__fixtures__/recorder.webm
+//
+// It's three seconds laid out the way Chrome's MediaRecorder writes WebM: an
+// unknown-sized Segment, no Duration, no Cues, no SeekHead, and unknown-sized
+// Clusters one second apart. Track 1 is Opus and track 2 is VP8, with a frame on
+// each every 100ms and a video keyframe only at the start of each cluster. Frame
+// payloads are filler bytes, since fixWebmMetadata never decodes them.
+//
+// A real recording would be hundreds of KB for the same layout, and nothing here
+// can run a browser, so the file is built byte by byte instead. The output is
+// deterministic; webm-fixture.test.js checks the committed file still matches.
+
+import { writeFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+
+export const FIXTURE_URL = new URL('../src/utils/__fixtures__/recorder.webm', import.meta.url);
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+};
+
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+const AUDIO_TRACK = 1;
+const VIDEO_TRACK = 2;
+
+// MediaRecorder streams, so it writes these sizes as "unknown" (all data bits set)
+const UNKNOWN_SIZE = Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+// Element ids keep their length marker bits, so they're written as-is
+const encodeId = (id) => {
+  const hex = id.toString(16);
+  return Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+};
+
+const encodeSize = (size) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = Buffer.alloc(length);
+  bytes.writeUIntBE(size, 0, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const uint = (value) => {
+  const bytes = [];
+  for (let remaining = value; remaining > 0 || bytes.length === 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Buffer.from(bytes);
+};
+
+const float = (value) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeDoubleBE(value);
+  return bytes;
+};
+
+const element = (id, ...body) => {
+  const payload = Buffer.concat(body.map(part => (typeof part === 'string' ? Buffer.from(part) : part)));
+  return Buffer.concat([encodeId(id), encodeSize(payload.length), payload]);
+};
+
+const simpleBlock = (track, timecode, isKeyframe) => {
+  const header = Buffer.alloc(4);
+  header[0] = 0x80 | track;
+  header.writeInt16BE(timecode, 1);
+  header[3] = isKeyframe ? 0x80 : 0;
+  return element(ID.SimpleBlock, header, Buffer.alloc(8, track * 16 + (timecode / 100) % 16));
+};
+
+export const buildRecorderFixture = () => {
+  const header = element(ID.EBML,
+    element(ID.EBMLVersion, uint(1)),
+    element(ID.EBMLReadVersion, uint(1)),
+    element(ID.EBMLMaxIDLength, uint(4)),
+    element(ID.EBMLMaxSizeLength, uint(8)),
+    element(ID.DocType, 'webm'),
+    element(ID.DocTypeVersion, uint(4)),
+    element(ID.DocTypeReadVersion, uint(2)),
+  );
+
+  const info = element(ID.Info,
+    element(ID.TimecodeScale, uint(1000000)),
+    element(ID.MuxingApp, 'Chrome'),
+    element(ID.WritingApp, 'Chrome'),
+  );
+
+  const tracks = element(ID.Tracks,
+    element(ID.TrackEntry,
+      element(ID.TrackNumber, uint(AUDIO_TRACK)),
+      element(ID.TrackUID, uint(AUDIO_TRACK)),
+      element(ID.TrackType, uint(TRACK_TYPE_AUDIO)),
+      element(ID.CodecID, 'A_OPUS'),
+      element(ID.Audio, element(ID.SamplingFrequency, float(48000)), element(ID.Channels, uint(1))),
+    ),
+    element(ID.TrackEntry,
+      element(ID.TrackNumber, uint(VIDEO_TRACK)),
+      element(ID.TrackUID, uint(VIDEO_TRACK)),
+      element(ID.TrackType, uint(TRACK_TYPE_VIDEO)),
+      element(ID.CodecID, 'V_VP8'),
+      element(ID.Video, element(ID.PixelWidth, uint(64)), element(ID.PixelHeight, uint(36))),
+    ),
+  );
+
+  const clusters = [0, 1000, 2000].map(clusterTime => {
+    const blocks = [];
+    for (let time = 0; time < 1000; time += 100) {
+      blocks.push(simpleBlock(AUDIO_TRACK, time, true), simpleBlock(VIDEO_TRACK, time, time === 0));
+    }
+    return Buffer.concat([encodeId(ID.Cluster), UNKNOWN_SIZE, element(ID.Timecode, uint(clusterTime)), ...blocks]);
+  });
+
+  return Buffer.concat([header, encodeId(ID.Segment), UNKNOWN_SIZE, info, tracks, ...clusters]);
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const fixture = buildRecorderFixture();
+  await writeFile(FIXTURE_URL, fixture);
+  console.log(`🎞️ Wrote ${fixture.length} bytes to ${FIXTURE_URL.pathname}`);
+}
@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { FIXTURE_URL, buildRecorderFixture } from './webm-fixture.js';
+
+describe('WebM fixture', () => {
+  it('matches what the script builds', async () => {
+    // If this fails, run `npm run fixtures:webm` and commit the result
+    expect((await readFile(FIXTURE_URL)).equals(buildRecorderFixture())).toBe(true);
+  });
+});
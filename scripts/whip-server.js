@@ -0,0 +1,191 @@
+// Tiny WHIP stand-in for trying out the streaming flow locally. 🌸
+//
+//   npm run whip:server            -> http://localhost:8787/whip/kawaii
+//   WHIP_TOKEN=secret npm run whip:server   (require "Bearer secret")
+//
+// Tests import createWhipServer and listen on a port of their own.
+//
+// It speaks the HTTP side of WHIP (POST offer -> 201 + Location, DELETE to end)
+// and answers with a syntactically valid SDP, but it does not run a real WebRTC
+// stack. Media never flows, so the browser ends up in "failed" after ICE times
+// out, which is handy for exercising the reconnect states as well.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+// SDP offers are a few KB; anything much bigger isn't one
+const MAX_BODY_BYTES = 256 * 1024;
+
+const randomToken = (length) => crypto.randomBytes(length).toString('base64url').slice(0, length);
+
+const randomFingerprint = () => Array.from(crypto.randomBytes(32), byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+
+const buildAnswer = (offer, port) => {
+  const lines = offer.split(/\r?\n/).filter(Boolean);
+  const ufrag = randomToken(8);
+  const pwd = randomToken(24);
+  const fingerprint = randomFingerprint();
+
+  const session = [
+    'v=0',
+    `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+    's=kawaii-whip',
+    't=0 0',
+    'a=ice-lite',
+  ];
+
+  const bundle = lines.find(line => line.startsWith('a=group:BUNDLE'));
+  if (bundle) session.push(bundle);
+  session.push('a=msid-semantic: WMS *');
+
+  const media = [];
+  let current = null;
+  for (const line of lines) {
+    if (line.startsWith('m=')) {
+      current = { mLine: line, attributes: [] };
+      media.push(current);
+    } else if (current) {
+      current.attributes.push(line);
+    }
+  }
+
+  const sections = media.map(({ mLine, attributes }) => {
+    const keep = attributes.filter(line =>
+      line.startsWith('a=mid:') ||
+      line.startsWith('a=rtpmap:') ||
+      line.startsWith('a=fmtp:') ||
+      line.startsWith('a=rtcp-fb:') ||
+      line.startsWith('a=extmap:')
+    );
+    return [
+      mLine,
+      'c=IN IP4 127.0.0.1',
+      ...keep,
+      'a=recvonly',
+      'a=rtcp-mux',
+      `a=ice-ufrag:${ufrag}`,
+      `a=ice-pwd:${pwd}`,
+      `a=fingerprint:sha-256 ${fingerprint}`,
+      'a=setup:passive',
+      `a=candidate:1 1 udp 2130706431 127.0.0.1 ${port + 1} typ host`,
+      'a=end-of-candidates',
+    ];
+  });
+
+  return [...session, ...sections.flat()].join('\r\n') + '\r\n';
+};
+
+const setCors = (res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, DELETE, PATCH, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'Location, ETag, Link');
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  // The rest of an oversized body is read and thrown away, so the client still gets an answer
+  req.on('data', chunk => {
+    if (body.length > MAX_BODY_BYTES) return;
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) reject(new Error('Request body too large'));
+  });
+  req.on('end', () => resolve(body));
+  req.on('aborted', () => reject(new Error('Request aborted')));
+  req.on('error', reject);
+});
+
+const handleRequest = async (req, res, { port, token, sessions }) => {
+  setCors(res);
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    console.log(`🔒 ${req.method} ${url.pathname} rejected: bad stream key`);
+    res.writeHead(401).end('Unauthorized');
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname.startsWith('/whip/')) {
+    if (!String(req.headers['content-type']).startsWith('application/sdp')) {
+      res.writeHead(415).end('Expected application/sdp');
+      return;
+    }
+
+    let offer;
+    try {
+      offer = await readBody(req);
+    } catch (error) {
+      console.log(`⚠️ Could not read the offer: ${error.message}`);
+      if (!res.headersSent && !res.destroyed) res.writeHead(400, { Connection: 'close' }).end('Could not read the request body');
+      return;
+    }
+    if (!offer.startsWith('v=0') || !offer.includes('m=')) {
+      res.writeHead(400).end('Invalid SDP offer');
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    const kinds = offer.split(/\r?\n/).filter(line => line.startsWith('m=')).map(line => line.slice(2).split(' ')[0]);
+    sessions.set(id, { stream: url.pathname.slice('/whip/'.length), createdAt: new Date(), kinds });
+    console.log(`📡 New session ${id} for "${sessions.get(id).stream}" (${kinds.join(', ')})`);
+
+    res.writeHead(201, {
+      'Content-Type': 'application/sdp',
+      Location: `/resource/${id}`,
+      ETag: `"${id}"`,
+    });
+    res.end(buildAnswer(offer, port));
+    return;
+  }
+
+  if (url.pathname.startsWith('/resource/')) {
+    const id = url.pathname.slice('/resource/'.length);
+    if (!sessions.has(id)) {
+      res.writeHead(404).end('Unknown session');
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      sessions.delete(id);
+      console.log(`👋 Session ${id} ended`);
+      res.writeHead(200).end();
+      return;
+    }
+
+    if (req.method === 'PATCH') {
+      // Trickle ICE and ICE restarts are optional in WHIP
+      res.writeHead(405).end();
+      return;
+    }
+  }
+
+  res.writeHead(404).end('Not found');
+};
+
+// Each server keeps its own sessions; `port` only goes into the answer's ICE candidate
+export const createWhipServer = ({ port = 8787, token = '' } = {}) => {
+  const sessions = new Map();
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res, { port, token, sessions }).catch(error => {
+      console.error('❌ WHIP request failed:', error);
+      if (!res.headersSent && !res.destroyed) res.writeHead(500).end('Internal server error');
+    });
+  });
+  return { server, sessions };
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.WHIP_PORT || 8787);
+  const token = process.env.WHIP_TOKEN || '';
+  createWhipServer({ port, token }).server.listen(port, () => {
+    console.log(`🌸 Kawaii WHIP stand-in listening on http://localhost:${port}/whip/kawaii`);
+    if (token) console.log('🔑 Bearer token required');
+  });
+}
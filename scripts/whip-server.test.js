@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import http from 'node:http';
+import { createWhipServer } from './whip-server.js';
+
+const OFFER = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0 1',
+  'm=video 9 UDP/TLS/RTP/SAVPF 96',
+  'c=IN IP4 0.0.0.0',
+  'a=mid:0',
+  'a=sendonly',
+  'a=rtpmap:96 VP8/90000',
+  'a=rtcp-fb:96 nack',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+  'c=IN IP4 0.0.0.0',
+  'a=mid:1',
+  'a=sendonly',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+].join('\r\n') + '\r\n';
+
+describe('WHIP stand-in server', () => {
+  let whip;
+  let baseUrl;
+
+  const start = async (options) => {
+    whip = createWhipServer(options);
+    await new Promise(resolve => whip.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${whip.server.address().port}`;
+  };
+
+  const publish = (headers = {}) => fetch(`${baseUrl}/whip/kawaii`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/sdp', ...headers },
+    body: OFFER,
+  });
+
+  beforeEach(() => start());
+
+  afterEach(() => new Promise(resolve => whip.server.close(resolve)));
+
+  it('answers an offer, then ends the session on DELETE', async () => {
+    const response = await publish();
+    expect(response.status).toBe(201);
+    expect(response.headers.get('content-type')).toBe('application/sdp');
+
+    const location = response.headers.get('location');
+    expect(location).toMatch(/^\/resource\/[0-9a-f-]+$/);
+    const answer = await response.text();
+    expect(answer.startsWith('v=0\r\n')).toBe(true);
+    expect(answer).toContain('a=group:BUNDLE 0 1');
+    expect(answer.match(/^m=.*$/gm)).toEqual(['m=video 9 UDP/TLS/RTP/SAVPF 96', 'm=audio 9 UDP/TLS/RTP/SAVPF 111']);
+    expect(answer).toContain('a=mid:0');
+    expect(answer).toContain('a=rtpmap:111 opus/48000/2');
+    expect(answer.match(/a=recvonly/g)).toHaveLength(2);
+    expect(whip.sessions.size).toBe(1);
+
+    const ended = await fetch(`${baseUrl}${location}`, { method: 'DELETE' });
+    expect(ended.status).toBe(200);
+    expect(whip.sessions.size).toBe(0);
+
+    const again = await fetch(`${baseUrl}${location}`, { method: 'DELETE' });
+    expect(again.status).toBe(404);
+  });
+
+  it('rejects offers that are not SDP', async () => {
+    const wrongType = await fetch(`${baseUrl}/whip/kawaii`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    expect(wrongType.status).toBe(415);
+
+    const notAnOffer = await fetch(`${baseUrl}/whip/kawaii`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp' },
+      body: 'hello',
+    });
+    expect(notAnOffer.status).toBe(400);
+    expect(whip.sessions.size).toBe(0);
+  });
+
+  it('requires the bearer token when one is set', async () => {
+    await new Promise(resolve => whip.server.close(resolve));
+    await start({ token: 'secret' });
+
+    expect((await publish()).status).toBe(401);
+    expect((await publish({ Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await publish({ Authorization: 'Bearer secret' })).status).toBe(201);
+  });
+
+  it('answers 400 to an oversized body instead of crashing', async () => {
+    const status = await new Promise(resolve => {
+      const request = http.request(`${baseUrl}/whip/kawaii`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp' },
+      }, response => {
+        response.resume();
+        resolve(response.statusCode);
+      });
+      request.end(`v=0\r\nm=video ${'x'.repeat(512 * 1024)}`);
+    });
+
+    expect(status).toBe(400);
+    expect(whip.sessions.size).toBe(0);
+
+    // Still serving afterwards
+    expect((await publish()).status).toBe(201);
+  });
+
+  it('survives a client that hangs up mid-offer', async () => {
+    await new Promise(resolve => {
+      const request = http.request(`${baseUrl}/whip/kawaii`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp', 'Content-Length': '1000' },
+      });
+      request.on('error', () => resolve());
+      request.write('v=0\r\n', () => {
+        request.destroy();
+        setTimeout(resolve, 50);
+      });
+    });
+
+    expect((await publish()).status).toBe(201);
+  });
+});
@@ -1,13 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { VideoPreview } from './components/VideoPreview';
 import { AudioVisualizer } from './components/AudioVisualizer';
 import { StreamControls } from './components/StreamControls';
 import { StatusBar } from './components/StatusBar';
 import { KawaiiButton } from './components/KawaiiButton';
+import { CompositorPreview } from './components/CompositorPreview';
+import { AudioMixer } from './components/AudioMixer';
+import { ScenePanel } from './components/ScenePanel';
+import { RecordingRecoveryPrompt } from './components/RecordingRecoveryPrompt';
+import { OutputSettingsModal } from './components/OutputSettingsModal';
+import { RecordingsLibrary } from './components/RecordingsLibrary';
+import { ScreenshotGallery, ScreenshotSourceOption } from './components/ScreenshotGallery';
+import { HotkeyEditor } from './components/HotkeyEditor';
+import { AudioInputsPanel } from './components/AudioInputsPanel';
+import { CameraSettingsModal } from './components/CameraSettingsModal';
 import { useMediaAccess } from './hooks/useMediaAccess';
+import { useCompositor } from './hooks/useCompositor';
+import { useScenes } from './hooks/useScenes';
+import { useVideoFilters } from './hooks/useVideoFilters';
+import { useCameraTransform } from './hooks/useCameraTransform';
+import { useStreamOutput } from './hooks/useStreamOutput';
+import { useDurationTimer } from './hooks/useDurationTimer';
+import { useReplayBuffer } from './hooks/useReplayBuffer';
+import { useScreenshots } from './hooks/useScreenshots';
+import { useHotkeys } from './hooks/useHotkeys';
+import { usePushToTalk } from './hooks/usePushToTalk';
+import { VIDEO_FILTERS } from './utils/videoFilters';
+import { LayerRect } from './utils/compositor';
+import { isOutputRunning } from './utils/outputState';
+import { applySceneCollection, exportSceneCollection, parseSceneCollection } from './utils/sceneCollection';
+import { downloadFile, fileTimestamp } from './utils/download';
+import { UnfinishedRecording } from './utils/recordingStorage';
+import { describeFormat } from './utils/outputSettings';
+import { SOURCE_KIND_INFO } from './utils/scenes';
+import { isClipboardSupported } from './utils/screenshots';
+import { audioInputChannelId } from './utils/audioInputs';
+import { describeCameraDevice } from './utils/cameras';
+import { HOTKEY_ACTIONS, HotkeyAction, channelMuteHotkeyId, formatCombo, sceneHotkeyId } from './utils/hotkeys';
 import { useSound } from './hooks/useSound';
 import { Sparkles, Heart, Star, AlertCircle, X } from 'lucide-react';
 
+const CUT_TRANSITION = { kind: 'cut', durationMs: 0 } as const;
+
 function App() {
   const {
     mediaState,
@@ -19,50 +53,124 @@ function App() {
     stopMicrophone,
     startRecording,
     stopRecording,
-    takeScreenshot,
+    togglePauseRecording,
+    recordingMarkers,
+    addRecordingMarker,
     setMicrophoneVolume,
     setScreenAudioVolume,
     setSelectedMicrophone,
+    setMicrophoneConstraints,
+    audioInputs,
+    setSelectedCamera,
+    getCameraSettings,
+    updateCameraSettings,
+    extraCameras,
+    deviceWarning,
+    mixer,
+    recordingStorage,
+    outputSettings,
   } = useMediaAccess();
 
+  const {
+    activeFilters,
+    toggleFilter,
+    clearFilters,
+    cameraSource,
+    cameraPreviewStream,
+  } = useVideoFilters(useCameraTransform(mediaState.cameraStream, getCameraSettings(mediaState.selectedCamera)));
+
+  // The main camera also stands in for its own device, so scenes can pick it like any other camera
+  const sceneCameras = useMemo(() => ({
+    main: cameraSource,
+    byDevice: {
+      ...extraCameras.sources,
+      ...(cameraSource ? { [mediaState.selectedCamera]: cameraSource } : {}),
+    },
+  }), [cameraSource, extraCameras.sources, mediaState.selectedCamera]);
+
+  const scenes = useScenes(mediaState.screenStream, sceneCameras, mixer);
+  const hasVideo = scenes.hasContent;
+
+  // Program feeds the recording and the stream; Preview only exists in studio mode
+  const { width, height, fps, scaleQuality } = outputSettings.settings;
+  const compositor = useCompositor(scenes.programLayers, scenes.programKey, scenes.transition, {
+    showWatermark: scenes.showWatermark,
+    width,
+    height,
+    fps,
+    scaleQuality,
+  });
+  const previewCompositor = useCompositor(scenes.activeLayers, scenes.activeScene.id, CUT_TRANSITION, {
+    enabled: scenes.studioMode,
+    showWatermark: scenes.showWatermark,
+    width,
+    height,
+    fps,
+    scaleQuality,
+  });
+
+  const {
+    streamStatus,
+    streamError,
+    isReconnecting,
+    streamSettings,
+    setStreamSettings,
+    goLive,
+    endStream,
+  } = useStreamOutput();
+
+  const replay = useReplayBuffer(outputSettings.settings, outputSettings.format);
+  const screenshots = useScreenshots(recordingStorage.saveFile);
+
   const { playSuccess, playError, playNotification } = useSound();
-  const [streamDuration, setStreamDuration] = useState('00:00:00');
-  const [startTime, setStartTime] = useState<Date | null>(null);
+  const streamTimer = useDurationTimer(streamStatus === 'active');
+  const recordingTimer = useDurationTimer(
+    mediaState.recordingStatus === 'active' || mediaState.recordingStatus === 'paused',
+    mediaState.recordingStatus === 'paused',
+  );
   const [viewerCount] = useState(Math.floor(Math.random() * 1000) + 50);
   const [showFiltersModal, setShowFiltersModal] = useState(false);
+  const [showOutputSettings, setShowOutputSettings] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showScreenshots, setShowScreenshots] = useState(false);
+  const [showHotkeyEditor, setShowHotkeyEditor] = useState(false);
+  const [showAudioInputs, setShowAudioInputs] = useState(false);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [screenshotSourceId, setScreenshotSourceId] = useState('program');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [showRecoveryPrompt, setShowRecoveryPrompt] = useState(true);
+
+  const showError = useCallback((message: string) => {
+    setErrorMessage(message);
+    setTimeout(() => setErrorMessage(null), 5000);
+  }, []);
+
+  // Every scene that was on Program during the recording, for the recordings library
+  const recordedScenesRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (isOutputRunning(mediaState.recordingStatus)) recordedScenesRef.current.add(scenes.programScene.name);
+  }, [mediaState.recordingStatus, scenes.programScene.name]);
 
   useEffect(() => {
-    if (mediaState.isRecording && !startTime) {
-      setStartTime(new Date());
-    } else if (!mediaState.isRecording && startTime) {
-      setStartTime(null);
-      setStreamDuration('00:00:00');
+    if (streamError) {
+      playError();
+      showError(`📡 ${streamError}`);
     }
-  }, [mediaState.isRecording, startTime]);
+  }, [streamError, playError, showError]);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (startTime) {
-      interval = setInterval(() => {
-        const now = new Date();
-        const diff = now.getTime() - startTime.getTime();
-        const hours = Math.floor(diff / (1000 * 60 * 60));
-        const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-        const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-        
-        setStreamDuration(
-          `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
-        );
-      }, 1000);
+    if (deviceWarning) {
+      playError();
+      showError(deviceWarning.message);
     }
-    return () => clearInterval(interval);
-  }, [startTime]);
+  }, [deviceWarning, playError, showError]);
 
-  const showError = (message: string) => {
-    setErrorMessage(message);
-    setTimeout(() => setErrorMessage(null), 5000);
-  };
+  useEffect(() => {
+    if (replay.replayError) {
+      playError();
+      showError(`🔁 ${replay.replayError}`);
+    }
+  }, [replay.replayError, playError, showError]);
 
   const handleScreenShare = async () => {
     try {
@@ -133,19 +241,241 @@ function App() {
     }
   };
 
+  const handleSourceRectChange = (rect: LayerRect) => {
+    if (scenes.selectedSource) scenes.updateSource(scenes.selectedSource.id, { rect });
+  };
+
+  const toggleButtonClass = 'bg-white/90 backdrop-blur-sm rounded-full px-3 py-1 border-2 border-kawaii-pink-300 font-kawaii text-xs font-semibold text-kawaii-purple-800 hover:bg-kawaii-pink-100 transition-colors';
+
+  const outputActions = (
+    <>
+      <button
+        onClick={() => scenes.setStudioMode(!scenes.studioMode)}
+        onDoubleClick={(event) => event.stopPropagation()}
+        className={toggleButtonClass}
+        title="Edit the next scene in Preview while Program stays on air 🎬"
+      >
+        {scenes.studioMode ? '🎬 Studio Mode On' : '🎬 Studio Mode Off'}
+      </button>
+      <button
+        onClick={() => scenes.setShowWatermark(!scenes.showWatermark)}
+        onDoubleClick={(event) => event.stopPropagation()}
+        className={toggleButtonClass}
+        title="Show a cute watermark on your output 🌸"
+      >
+        {scenes.showWatermark ? '🌸 Watermark On' : '🌸 Watermark Off'}
+      </button>
+    </>
+  );
+
+  const handleExportCollection = () => {
+    const collection = exportSceneCollection();
+    downloadFile(
+      new Blob([JSON.stringify(collection, null, 2)], { type: 'application/json' }),
+      `kawaii-scene-collection-${fileTimestamp()}.json`,
+    );
+    playSuccess();
+  };
+
+  const handleImportCollection = async (file: File) => {
+    if (isOutputRunning(streamStatus) || isOutputRunning(mediaState.recordingStatus)) {
+      playError();
+      showError('📦 Stop streaming and recording before importing a scene collection! 💖');
+      return;
+    }
+
+    try {
+      const collection = parseSceneCollection(await file.text());
+      if (!window.confirm(`Load "${collection.name}"? This replaces your current scenes and settings and reloads the studio. ✨`)) {
+        return;
+      }
+      applySceneCollection(collection);
+      window.location.reload();
+    } catch (error) {
+      playError();
+      console.error('Scene collection import error:', error);
+      showError(`📦 ${error instanceof Error ? error.message : 'Could not import that file'}`);
+    }
+  };
+
+  const micFilters = mixer.getChannelFilters('microphone', 'microphone');
+
+  const { setChannelGate } = mixer;
+  const pushToTalk = usePushToTalk(useCallback((open: boolean) => setChannelGate('microphone', open), [setChannelGate]));
+
+  const handleNoiseReduction = (enabled: boolean) => {
+    mixer.setChannelFilters('microphone', { ...micFilters, gate: { ...micFilters.gate, enabled } });
+  };
+
   const handleRecord = () => {
-    if (mediaState.isRecording) {
+    if (mediaState.recordingStatus === 'active' || mediaState.recordingStatus === 'paused') {
       stopRecording();
       playNotification();
-    } else {
-      startRecording();
+    } else if (mediaState.recordingStatus === 'idle' || mediaState.recordingStatus === 'error') {
+      const { settings, format } = outputSettings;
+      if (format.isFallback && !window.confirm(
+        `This browser can't record ${describeFormat(settings.container, settings.videoCodec)}. Record as ${describeFormat(format.container, format.videoCodec)} instead? 🎬`,
+      )) {
+        return;
+      }
+      try {
+        recordedScenesRef.current = new Set([scenes.programScene.name]);
+        startRecording(compositor?.stream ?? null, () => [...recordedScenesRef.current]);
+        playSuccess();
+      } catch (error) {
+        playError();
+        console.error('Recording error:', error);
+        showError('🎬 Nothing to record yet! Share your screen, start your camera or unmute your mic first! ✨');
+      }
+    }
+  };
+
+  const handlePauseRecording = () => {
+    if (mediaState.recordingStatus !== 'active' && mediaState.recordingStatus !== 'paused') return;
+    togglePauseRecording();
+    playNotification();
+  };
+
+  // The replay buffer records the same picture and audio as a recording would
+  const handleReplayBuffer = () => {
+    if (replay.isActive) {
+      replay.stop();
+      playNotification();
+      return;
+    }
+
+    // Always the compositor's video, so sources turned on later still show up
+    const replayStream = new MediaStream();
+    if (compositor) {
+      compositor.stream.getVideoTracks().forEach(track => replayStream.addTrack(track));
+    }
+    // The bus is silent while nothing feeds it, and a session can't take tracks added later
+    mixer.getOutputStream('record').getAudioTracks().forEach(track => replayStream.addTrack(track));
+
+    if (replayStream.getTracks().length === 0) {
+      playError();
+      showError('🔁 Nothing to buffer yet! Share your screen, start your camera or unmute your mic first! ✨');
+      return;
+    }
+
+    try {
+      replay.start(replayStream);
       playSuccess();
+    } catch (error) {
+      playError();
+      console.error('Replay buffer error:', error);
+      showError('💔 Could not start the replay buffer. Please check your output settings! 🌟');
     }
   };
 
-  const handleScreenshot = () => {
-    takeScreenshot();
-    playSuccess();
+  const handleSaveReplay = async () => {
+    if (!replay.isActive) return;
+    try {
+      const file = await replay.save();
+      if (!file) {
+        showError('🔁 The replay buffer is still warming up, try again in a second! ✨');
+        return;
+      }
+      await recordingStorage.saveReplay(file);
+      playSuccess();
+    } catch (error) {
+      playError();
+      console.error('Save replay error:', error);
+      showError('💔 Could not save the replay. Please try again! 🌟');
+    }
+  };
+
+  const handleAddMarker = (name = '') => {
+    if (mediaState.recordingStatus !== 'active' && mediaState.recordingStatus !== 'paused') return;
+    if (addRecordingMarker(name || `Marker ${recordingMarkers.length + 1}`)) playNotification();
+  };
+
+  const handleStream = async () => {
+    if (streamStatus === 'stopping') return;
+    if (streamStatus === 'starting' || streamStatus === 'active') {
+      await endStream();
+      playNotification();
+      return;
+    }
+
+    const outputStream = new MediaStream();
+    if (compositor) {
+      compositor.stream.getVideoTracks().forEach(track => outputStream.addTrack(track));
+    }
+    // The bus is silent while nothing feeds it, and a session can't take tracks added later
+    mixer.getOutputStream('stream').getAudioTracks().forEach(track => outputStream.addTrack(track));
+
+    if (outputStream.getTracks().length === 0) {
+      playError();
+      showError('🌸 Nothing to stream yet! Share your screen, start your camera or unmute your mic first! ✨');
+      return;
+    }
+
+    try {
+      await goLive(outputStream);
+      playSuccess();
+    } catch (error) {
+      playError();
+      console.error('Stream error:', error);
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      showError(`💔 Could not go live (${reason}). Please check your stream settings! 🌟`);
+    }
+  };
+
+  const handleChooseRecordingFolder = async () => {
+    try {
+      await recordingStorage.chooseFolder();
+      playSuccess();
+    } catch (error) {
+      // Closing the picker isn't an error worth showing
+      if (error instanceof Error && error.name === 'AbortError') return;
+      playError();
+      console.error('Recording folder error:', error);
+      showError('📁 Could not use that folder. Please pick another one! 💖');
+    }
+  };
+
+  const handleRecoverRecording = async (recording: UnfinishedRecording) => {
+    try {
+      await recordingStorage.recoverRecording(recording);
+      playSuccess();
+    } catch (error) {
+      playError();
+      console.error('Recording recovery error:', error);
+      showError('🩹 Could not recover that recording. Please try again! 🌟');
+    }
+  };
+
+  // The program output, or any source in the program scene that has a picture
+  const screenshotSources: ScreenshotSourceOption[] = [
+    { id: 'program', name: '🎬 Program Output' },
+    ...scenes.programScene.sources
+      .filter(source => scenes.programLayers.some(layer => layer.id === source.id && layer.source))
+      .map(source => ({ id: source.id, name: `${SOURCE_KIND_INFO[source.kind].emoji} ${source.name}` })),
+  ];
+  const screenshotSource = screenshotSources.find(source => source.id === screenshotSourceId) ?? screenshotSources[0];
+
+  const handleScreenshot = async () => {
+    const image = screenshotSource.id === 'program'
+      ? (hasVideo ? compositor?.canvas : null)
+      : scenes.programLayers.find(layer => layer.id === screenshotSource.id)?.source;
+    if (!image) {
+      playError();
+      showError('📸 Nothing to snap yet! Share your screen or start your camera first! ✨');
+      return;
+    }
+
+    try {
+      const { copied } = await screenshots.takeScreenshot(image, screenshotSource.name);
+      playSuccess();
+      if (screenshots.settings.copyToClipboard && isClipboardSupported() && !copied) {
+        showError('📋 The screenshot was saved, but copying it to the clipboard didn\'t work');
+      }
+    } catch (error) {
+      playError();
+      console.error('Screenshot error:', error);
+      showError('📸 Could not take that screenshot. Images from other websites can\'t be captured! 💔');
+    }
   };
 
   const handleFilters = () => {
@@ -153,6 +483,62 @@ function App() {
     playNotification();
   };
 
+  // Everything a hotkey can trigger; scene and channel actions follow what exists right now
+  const hotkeyHandlers: Record<string, () => void> = {
+    toggleScreen: handleScreenShare,
+    toggleCamera: handleCamera,
+    toggleMicrophone: handleMicrophone,
+    toggleRecording: handleRecord,
+    pauseRecording: handlePauseRecording,
+    addMarker: () => handleAddMarker(),
+    screenshot: handleScreenshot,
+    toggleReplayBuffer: handleReplayBuffer,
+    saveReplay: handleSaveReplay,
+    toggleStream: handleStream,
+    transitionToProgram: () => {
+      if (scenes.studioMode) scenes.transitionToProgram();
+    },
+    pushToTalk: pushToTalk.press,
+  };
+  // Hold actions also need the key release
+  const hotkeyReleaseHandlers: Record<string, () => void> = {
+    pushToTalk: pushToTalk.release,
+  };
+  const knownChannels = [
+    { id: 'microphone', label: 'Microphone' },
+    { id: 'screen', label: 'Screen Audio' },
+    ...audioInputs.inputs.map((input, index) => ({
+      id: audioInputChannelId(input.id),
+      label: input.name.trim()
+        || mediaState.availableMicrophones.find(device => device.deviceId === input.deviceId)?.label
+        || `Microphone ${index + 2}`,
+    })),
+  ];
+  const muteChannels = [
+    ...knownChannels,
+    ...mixer.channels.filter(channel => !knownChannels.some(known => known.id === channel.id)),
+  ];
+  const hotkeyActions: HotkeyAction[] = [
+    ...HOTKEY_ACTIONS.map(info => ({
+      ...info,
+      onPress: hotkeyHandlers[info.id],
+      onRelease: hotkeyReleaseHandlers[info.id],
+    })),
+    ...scenes.scenes.map(scene => ({
+      id: sceneHotkeyId(scene.id),
+      name: `Switch to "${scene.name}"`,
+      group: 'scenes' as const,
+      onPress: () => scenes.switchScene(scene.id),
+    })),
+    ...muteChannels.map(channel => ({
+      id: channelMuteHotkeyId(channel.id),
+      name: `Mute/unmute ${channel.label}`,
+      group: 'audio' as const,
+      onPress: () => mixer.toggleChannelMute(channel.id),
+    })),
+  ];
+  const hotkeys = useHotkeys(hotkeyActions, !showHotkeyEditor);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-kawaii-pink-200 via-kawaii-purple-200 to-kawaii-blue-200 font-kawaii p-4">
       {/* Error Toast */}
@@ -201,23 +587,62 @@ function App() {
       {/* Status Bar */}
       <div className="mb-6">
         <StatusBar
-          isConnected={mediaState.isRecording}
+          streamStatus={streamStatus}
+          isReconnecting={isReconnecting}
+          streamDuration={streamTimer.formatted}
+          recordingStatus={mediaState.recordingStatus}
+          recordingDuration={recordingTimer.formatted}
+          isReplayBufferOn={replay.isActive}
           viewerCount={viewerCount}
-          streamDuration={streamDuration}
         />
       </div>
 
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
-        {/* Screen Preview */}
+        {/* Composed Output Preview */}
         <div className="lg:col-span-2">
-          <VideoPreview
-            stream={mediaState.screenStream}
-            title="Screen Share"
-            emoji="🖥️"
-            isActive={mediaState.isScreenSharing}
-            className="h-80 lg:h-96"
-          />
+          {scenes.studioMode ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <CompositorPreview
+                  compositor={previewCompositor}
+                  title={`Preview: ${scenes.activeScene.name}`}
+                  emoji="✏️"
+                  isActive={scenes.sceneHasContent(scenes.activeScene)}
+                  editableRect={scenes.selectedSource?.rect ?? null}
+                  onRectChange={handleSourceRectChange}
+                  className="aspect-video w-full"
+                />
+                <CompositorPreview
+                  compositor={compositor}
+                  title={`Program: ${scenes.programScene.name}`}
+                  emoji="🔴"
+                  isActive={hasVideo}
+                  className="aspect-video w-full"
+                />
+              </div>
+              <div className="flex items-center justify-center gap-3 flex-wrap">
+                <KawaiiButton onClick={scenes.transitionToProgram} emoji="✨" size="sm">
+                  Transition
+                </KawaiiButton>
+                <span className="font-kawaii text-sm text-kawaii-purple-700">
+                  {scenes.transition.kind === 'cut' ? 'Cut' : `${scenes.transition.kind === 'wipe' ? 'Kawaii wipe' : 'Fade'} · ${(scenes.transition.durationMs / 1000).toFixed(1)}s`}
+                </span>
+                {outputActions}
+              </div>
+            </div>
+          ) : (
+            <CompositorPreview
+              compositor={compositor}
+              title="Studio Output"
+              emoji="🖥️"
+              isActive={hasVideo}
+              editableRect={scenes.selectedSource?.rect ?? null}
+              onRectChange={handleSourceRectChange}
+              headerActions={outputActions}
+              className="aspect-video w-full"
+            />
+          )}
         </div>
 
         {/* Controls */}
@@ -226,26 +651,81 @@ function App() {
             isScreenSharing={mediaState.isScreenSharing}
             isCameraOn={mediaState.isCameraOn}
             isMicOn={mediaState.isMicOn}
-            isRecording={mediaState.isRecording}
+            recordingStatus={mediaState.recordingStatus}
             onScreenShare={handleScreenShare}
             onCamera={handleCamera}
+            onCameraSettings={() => setShowCameraSettings(true)}
             onMicrophone={handleMicrophone}
             onRecord={handleRecord}
+            onPauseRecording={handlePauseRecording}
+            markerCount={recordingMarkers.length}
+            onAddMarker={handleAddMarker}
             onScreenshot={handleScreenshot}
+            onScreenshotGallery={() => setShowScreenshots(true)}
+            onHotkeys={() => setShowHotkeyEditor(true)}
+            hotkeys={hotkeys.bindings}
             onFilters={handleFilters}
             mediaState={mediaState}
             setMicrophoneVolume={setMicrophoneVolume}
             setScreenAudioVolume={setScreenAudioVolume}
             setSelectedMicrophone={setSelectedMicrophone}
+            isNoiseReductionOn={micFilters.gate.enabled}
+            setNoiseReduction={handleNoiseReduction}
+            includeSystemAudio={mixer.getChannelRouting('screen', 'screen').record}
+            setIncludeSystemAudio={(enabled) => mixer.setChannelRouting('screen', 'screen', 'record', enabled)}
+            streamStatus={streamStatus}
+            isReconnecting={isReconnecting}
+            streamSettings={streamSettings}
+            setStreamSettings={setStreamSettings}
+            onStream={handleStream}
+            onOutputSettings={() => setShowOutputSettings(true)}
+            onRecordings={recordingStorage.isLibrarySupported ? () => setShowRecordings(true) : undefined}
+            isReplayBufferOn={replay.isActive}
+            replayBufferedSeconds={replay.bufferedSeconds}
+            onReplayBuffer={handleReplayBuffer}
+            onSaveReplay={handleSaveReplay}
+            recordingFolderName={recordingStorage.folderName}
+            canChooseRecordingFolder={recordingStorage.canChooseFolder}
+            onChooseRecordingFolder={handleChooseRecordingFolder}
+            onForgetRecordingFolder={recordingStorage.forgetFolder}
           />
         </div>
       </div>
 
+      {/* Scenes */}
+      <div className="mb-6">
+        <ScenePanel
+          scenes={scenes.scenes}
+          activeScene={scenes.activeScene}
+          programSceneId={scenes.studioMode ? scenes.programScene.id : undefined}
+          selectedSource={scenes.selectedSource}
+          transition={scenes.transition}
+          onSwitchScene={scenes.switchScene}
+          onAddScene={scenes.addScene}
+          onDuplicateScene={scenes.duplicateScene}
+          onRenameScene={scenes.renameScene}
+          onRemoveScene={scenes.removeScene}
+          onSelectSource={scenes.setSelectedSourceId}
+          onAddSource={scenes.addSource}
+          onUpdateSource={scenes.updateSource}
+          onRemoveSource={scenes.removeSource}
+          onMoveSource={scenes.moveSource}
+          onSetSourceMedia={scenes.setSourceMedia}
+          hasSourceMedia={scenes.hasSourceMedia}
+          cameraOptions={mediaState.availableCameras
+            .filter(device => device.deviceId !== 'default')
+            .map(device => ({ id: device.deviceId, name: describeCameraDevice(device) }))}
+          onTransitionChange={scenes.setTransition}
+          onExportCollection={handleExportCollection}
+          onImportCollection={handleImportCollection}
+        />
+      </div>
+
       {/* Bottom Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Camera Preview */}
         <VideoPreview
-          stream={mediaState.cameraStream}
+          stream={cameraPreviewStream}
           title="Camera"
           emoji="📷"
           isActive={mediaState.isCameraOn}
@@ -256,6 +736,35 @@ function App() {
         <AudioVisualizer
           audioLevel={mediaState.audioLevel}
           isActive={mediaState.isMicOn}
+          pushToTalk={pushToTalk.settings}
+          onPushToTalkChange={pushToTalk.updateSettings}
+          isGateOpen={pushToTalk.isOpen}
+          isKeyDown={pushToTalk.isKeyDown}
+          hotkeyLabel={hotkeys.bindings.pushToTalk ? formatCombo(hotkeys.bindings.pushToTalk) : null}
+        />
+      </div>
+
+      {/* Audio Mixer */}
+      <div className="mt-6">
+        <AudioMixer
+          channels={mixer.channels}
+          meters={mixer.meters}
+          masterDb={mixer.masterDb}
+          limiter={mixer.limiter}
+          playingMedia={mixer.playingMedia}
+          onFaderChange={mixer.setChannelFader}
+          onPanChange={mixer.setChannelPan}
+          onToggleMute={mixer.toggleChannelMute}
+          onToggleSolo={mixer.toggleChannelSolo}
+          onRoutingChange={mixer.setChannelRouting}
+          onMasterChange={mixer.setMasterDb}
+          getChannelFilters={mixer.getChannelFilters}
+          onFiltersChange={mixer.setChannelFilters}
+          onLimiterChange={mixer.setLimiter}
+          onAddMediaFile={mixer.addMediaFile}
+          onRemoveChannel={mixer.detachChannel}
+          onToggleMedia={mixer.toggleMediaPlayback}
+          onAudioInputs={() => setShowAudioInputs(true)}
         />
       </div>
 
@@ -305,16 +814,40 @@ function App() {
               <span className="text-3xl">✨</span>
             </h3>
             
-            <div className="grid grid-cols-2 gap-4 mb-6">
-              <KawaiiButton emoji="🐱" size="sm" variant="primary">Cat Ears</KawaiiButton>
-              <KawaiiButton emoji="🌸" size="sm" variant="secondary">Sakura</KawaiiButton>
-              <KawaiiButton emoji="🎀" size="sm" variant="success">Bow Tie</KawaiiButton>
-              <KawaiiButton emoji="✨" size="sm" variant="primary">Sparkles</KawaiiButton>
-              <KawaiiButton emoji="💖" size="sm" variant="secondary">Hearts</KawaiiButton>
-              <KawaiiButton emoji="🦄" size="sm" variant="success">Unicorn</KawaiiButton>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              {VIDEO_FILTERS.map(filter => {
+                const isOn = activeFilters.includes(filter.id);
+                return (
+                  <KawaiiButton
+                    key={filter.id}
+                    onClick={() => toggleFilter(filter.id)}
+                    emoji={filter.emoji}
+                    size="sm"
+                    variant={filter.variant}
+                    className={isOn ? 'ring-4 ring-kawaii-pink-300 ring-offset-2' : 'opacity-80'}
+                  >
+                    {filter.name}{isOn ? ' 💖' : ''}
+                  </KawaiiButton>
+                );
+              })}
             </div>
+
+            <p className="font-kawaii text-sm text-kawaii-purple-600 text-center mb-6">
+              {activeFilters.length > 0
+                ? `✨ ${activeFilters.length} filter${activeFilters.length > 1 ? 's' : ''} active on your camera and recording!`
+                : '💡 Tap filters to stack them on your camera!'}
+            </p>
             
-            <div className="text-center">
+            <div className="flex gap-3 justify-center">
+              <KawaiiButton
+                onClick={clearFilters}
+                emoji="🧼"
+                variant="secondary"
+                size="sm"
+                disabled={activeFilters.length === 0}
+              >
+                Clear All
+              </KawaiiButton>
               <KawaiiButton
                 onClick={() => setShowFiltersModal(false)}
                 emoji="❌"
@@ -328,6 +861,112 @@ function App() {
         </div>
       )}
 
+      {/* Output Settings Modal */}
+      {showOutputSettings && (
+        <OutputSettingsModal
+          settings={outputSettings.settings}
+          format={outputSettings.format}
+          support={outputSettings.support}
+          isCanvasLocked={isOutputRunning(streamStatus) || isOutputRunning(mediaState.recordingStatus) || replay.isActive}
+          onChange={outputSettings.updateSettings}
+          onReset={outputSettings.resetSettings}
+          onClose={() => setShowOutputSettings(false)}
+        />
+      )}
+
+      {/* Recordings Library */}
+      {showRecordings && (
+        <RecordingsLibrary
+          recordings={recordingStorage.library}
+          folderName={recordingStorage.folderName}
+          onRead={recordingStorage.readRecording}
+          onRename={recordingStorage.renameRecording}
+          onDelete={recordingStorage.deleteRecording}
+          onExport={recordingStorage.exportRecording}
+          onTrim={recordingStorage.trimRecording}
+          onError={showError}
+          onClose={() => setShowRecordings(false)}
+        />
+      )}
+
+      {/* Screenshot Gallery */}
+      {showScreenshots && (
+        <ScreenshotGallery
+          settings={screenshots.settings}
+          onSettingsChange={screenshots.updateSettings}
+          sources={screenshotSources}
+          sourceId={screenshotSource.id}
+          onSourceChange={setScreenshotSourceId}
+          screenshots={screenshots.gallery}
+          canCopy={isClipboardSupported()}
+          folderName={recordingStorage.folderName}
+          onTake={handleScreenshot}
+          onSave={screenshots.saveScreenshot}
+          onCopy={screenshots.copyScreenshot}
+          onDelete={screenshots.removeScreenshot}
+          onClear={screenshots.clearGallery}
+          onError={showError}
+          onClose={() => setShowScreenshots(false)}
+        />
+      )}
+
+      {/* Hotkey Editor */}
+      {showHotkeyEditor && (
+        <HotkeyEditor
+          actions={hotkeyActions}
+          bindings={hotkeys.bindings}
+          conflicts={hotkeys.conflicts}
+          onChange={hotkeys.setBinding}
+          onReset={hotkeys.resetBindings}
+          onClose={() => setShowHotkeyEditor(false)}
+        />
+      )}
+
+      {/* Camera Settings */}
+      {showCameraSettings && (
+        <CameraSettingsModal
+          devices={mediaState.availableCameras}
+          selectedCamera={mediaState.selectedCamera}
+          onSelectCamera={setSelectedCamera}
+          getSettings={getCameraSettings}
+          onSettingsChange={updateCameraSettings}
+          extraCameraIds={extraCameras.activeIds}
+          lostCameraIds={extraCameras.lostIds}
+          onToggleExtraCamera={extraCameras.toggleCamera}
+          onError={showError}
+          onClose={() => setShowCameraSettings(false)}
+        />
+      )}
+
+      {/* Audio Inputs */}
+      {showAudioInputs && (
+        <AudioInputsPanel
+          devices={mediaState.availableMicrophones}
+          mainConstraints={mediaState.microphoneConstraints}
+          onMainConstraintsChange={setMicrophoneConstraints}
+          inputs={audioInputs.inputs}
+          activeIds={audioInputs.activeIds}
+          lostIds={audioInputs.lostIds}
+          onAdd={audioInputs.addInput}
+          onToggle={audioInputs.toggleInput}
+          onUpdate={audioInputs.updateInput}
+          onRemove={audioInputs.removeInput}
+          onError={showError}
+          onClose={() => setShowAudioInputs(false)}
+        />
+      )}
+
+      {/* Recovery Prompt */}
+      {showRecoveryPrompt && recordingStorage.unfinished.length > 0 && (
+        <RecordingRecoveryPrompt
+          recordings={recordingStorage.unfinished}
+          folderName={recordingStorage.folderName}
+          onRecover={handleRecoverRecording}
+          onDiscard={recordingStorage.discardRecording}
+          onClose={() => setShowRecoveryPrompt(false)}
+        />
+      )}
+
       {/* Footer */}
       <div className="mt-8 text-center">
         <p className="text-kawaii-purple-600 font-semibold flex items-center justify-center gap-2">
@@ -0,0 +1,203 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { KawaiiButton } from './KawaiiButton';
+import {
+  ChannelFilterSettings,
+  LimiterSettings,
+  getDefaultFilters,
+  DEFAULT_LIMITER_SETTINGS,
+} from '../utils/audioFilters';
+import { MixerChannelKind } from '../utils/audioMixer';
+
+interface AudioFilterEditorProps {
+  title: string;
+  emoji: string;
+  kind?: MixerChannelKind;
+  filters?: ChannelFilterSettings;
+  onFiltersChange?: (filters: ChannelFilterSettings) => void;
+  limiter?: LimiterSettings;
+  onLimiterChange?: (limiter: LimiterSettings) => void;
+  // Live gain reduction in dB from the compressor or limiter
+  reduction?: number;
+  onClose: () => void;
+}
+
+interface ParamSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const ParamSlider: React.FC<ParamSliderProps> = ({ label, value, min, max, step, unit, disabled, onChange }) => (
+  <label className={`grid grid-cols-[6rem_1fr_4.5rem] items-center gap-2 ${disabled ? 'opacity-50' : ''}`}>
+    <span className="font-kawaii text-xs text-kawaii-purple-700">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 cursor-pointer accent-kawaii-pink-500"
+    />
+    <span className="font-kawaii text-xs text-kawaii-purple-800 tabular-nums text-right">
+      {Number.isInteger(step) ? value : value.toFixed(1)} {unit}
+    </span>
+  </label>
+);
+
+const Section: React.FC<{
+  title: string;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  children: React.ReactNode;
+}> = ({ title, enabled, onToggle, children }) => (
+  <div className="bg-white/60 rounded-xl p-4 border-2 border-kawaii-pink-200 space-y-2">
+    <label className="flex items-center gap-2 font-kawaii font-semibold text-kawaii-purple-800">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="w-4 h-4 text-kawaii-pink-500 rounded"
+      />
+      {title}
+    </label>
+    {children}
+  </div>
+);
+
+export const AudioFilterEditor: React.FC<AudioFilterEditorProps> = ({
+  title,
+  emoji,
+  kind = 'media',
+  filters,
+  onFiltersChange,
+  limiter,
+  onLimiterChange,
+  reduction = 0,
+  onClose,
+}) => {
+  const updateFilters = <K extends keyof ChannelFilterSettings>(section: K, changes: Partial<ChannelFilterSettings[K]>) => {
+    if (filters) onFiltersChange?.({ ...filters, [section]: { ...filters[section], ...changes } });
+  };
+
+  const updateLimiter = (changes: Partial<LimiterSettings>) => {
+    if (limiter) onLimiterChange?.({ ...limiter, ...changes });
+  };
+
+  const handleReset = () => {
+    if (filters) onFiltersChange?.(getDefaultFilters(kind));
+    if (limiter) onLimiterChange?.(DEFAULT_LIMITER_SETTINGS);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-6 border-4 border-kawaii-pink-300 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-kawaii font-bold text-xl text-kawaii-purple-800 flex items-center gap-2">
+            <span className="text-2xl">{emoji}</span>
+            {title}
+          </h3>
+          <button onClick={onClose} className="text-kawaii-purple-400 hover:text-kawaii-pink-600" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          {filters && (
+            <>
+              <Section
+                title="Noise Gate 🤫"
+                enabled={filters.gate.enabled}
+                onToggle={(enabled) => updateFilters('gate', { enabled })}
+              >
+                <ParamSlider label="Threshold" unit="dB" min={-100} max={0} step={1} value={filters.gate.thresholdDb}
+                  disabled={!filters.gate.enabled} onChange={(thresholdDb) => updateFilters('gate', { thresholdDb })} />
+                <ParamSlider label="Attack" unit="ms" min={1} max={100} step={1} value={filters.gate.attackMs}
+                  disabled={!filters.gate.enabled} onChange={(attackMs) => updateFilters('gate', { attackMs })} />
+                <ParamSlider label="Hold" unit="ms" min={0} max={1000} step={10} value={filters.gate.holdMs}
+                  disabled={!filters.gate.enabled} onChange={(holdMs) => updateFilters('gate', { holdMs })} />
+                <ParamSlider label="Release" unit="ms" min={10} max={2000} step={10} value={filters.gate.releaseMs}
+                  disabled={!filters.gate.enabled} onChange={(releaseMs) => updateFilters('gate', { releaseMs })} />
+              </Section>
+
+              <Section
+                title="3-Band EQ 🎚️"
+                enabled={filters.eq.enabled}
+                onToggle={(enabled) => updateFilters('eq', { enabled })}
+              >
+                <ParamSlider label="Low gain" unit="dB" min={-24} max={24} step={0.5} value={filters.eq.lowGainDb}
+                  disabled={!filters.eq.enabled} onChange={(lowGainDb) => updateFilters('eq', { lowGainDb })} />
+                <ParamSlider label="Low freq" unit="Hz" min={40} max={500} step={10} value={filters.eq.lowFrequency}
+                  disabled={!filters.eq.enabled} onChange={(lowFrequency) => updateFilters('eq', { lowFrequency })} />
+                <ParamSlider label="Mid gain" unit="dB" min={-24} max={24} step={0.5} value={filters.eq.midGainDb}
+                  disabled={!filters.eq.enabled} onChange={(midGainDb) => updateFilters('eq', { midGainDb })} />
+                <ParamSlider label="Mid freq" unit="Hz" min={200} max={5000} step={50} value={filters.eq.midFrequency}
+                  disabled={!filters.eq.enabled} onChange={(midFrequency) => updateFilters('eq', { midFrequency })} />
+                <ParamSlider label="Mid Q" unit="" min={0.1} max={10} step={0.1} value={filters.eq.midQ}
+                  disabled={!filters.eq.enabled} onChange={(midQ) => updateFilters('eq', { midQ })} />
+                <ParamSlider label="High gain" unit="dB" min={-24} max={24} step={0.5} value={filters.eq.highGainDb}
+                  disabled={!filters.eq.enabled} onChange={(highGainDb) => updateFilters('eq', { highGainDb })} />
+                <ParamSlider label="High freq" unit="Hz" min={2000} max={16000} step={100} value={filters.eq.highFrequency}
+                  disabled={!filters.eq.enabled} onChange={(highFrequency) => updateFilters('eq', { highFrequency })} />
+              </Section>
+
+              <Section
+                title="Compressor 🗜️"
+                enabled={filters.compressor.enabled}
+                onToggle={(enabled) => updateFilters('compressor', { enabled })}
+              >
+                <ParamSlider label="Threshold" unit="dB" min={-60} max={0} step={1} value={filters.compressor.thresholdDb}
+                  disabled={!filters.compressor.enabled} onChange={(thresholdDb) => updateFilters('compressor', { thresholdDb })} />
+                <ParamSlider label="Ratio" unit=": 1" min={1} max={20} step={0.5} value={filters.compressor.ratio}
+                  disabled={!filters.compressor.enabled} onChange={(ratio) => updateFilters('compressor', { ratio })} />
+                <ParamSlider label="Knee" unit="dB" min={0} max={40} step={1} value={filters.compressor.kneeDb}
+                  disabled={!filters.compressor.enabled} onChange={(kneeDb) => updateFilters('compressor', { kneeDb })} />
+                <ParamSlider label="Attack" unit="ms" min={0} max={1000} step={1} value={filters.compressor.attackMs}
+                  disabled={!filters.compressor.enabled} onChange={(attackMs) => updateFilters('compressor', { attackMs })} />
+                <ParamSlider label="Release" unit="ms" min={10} max={1000} step={10} value={filters.compressor.releaseMs}
+                  disabled={!filters.compressor.enabled} onChange={(releaseMs) => updateFilters('compressor', { releaseMs })} />
+                <ParamSlider label="Makeup" unit="dB" min={0} max={24} step={0.5} value={filters.compressor.makeupDb}
+                  disabled={!filters.compressor.enabled} onChange={(makeupDb) => updateFilters('compressor', { makeupDb })} />
+                <p className="font-kawaii text-xs text-kawaii-purple-500 tabular-nums">
+                  Gain reduction: {reduction.toFixed(1)} dB
+                </p>
+              </Section>
+            </>
+          )}
+
+          {limiter && (
+            <Section
+              title="Limiter 🧱"
+              enabled={limiter.enabled}
+              onToggle={(enabled) => updateLimiter({ enabled })}
+            >
+              <ParamSlider label="Ceiling" unit="dB" min={-12} max={0} step={0.1} value={limiter.ceilingDb}
+                disabled={!limiter.enabled} onChange={(ceilingDb) => updateLimiter({ ceilingDb })} />
+              <ParamSlider label="Release" unit="ms" min={10} max={1000} step={10} value={limiter.releaseMs}
+                disabled={!limiter.enabled} onChange={(releaseMs) => updateLimiter({ releaseMs })} />
+              <p className="font-kawaii text-xs text-kawaii-purple-500 tabular-nums">
+                Gain reduction: {reduction.toFixed(1)} dB
+              </p>
+            </Section>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-center">
+          <KawaiiButton onClick={handleReset} emoji="🔄" variant="secondary" size="sm">
+            Reset
+          </KawaiiButton>
+          <KawaiiButton onClick={onClose} emoji="💖" variant="success" size="sm">
+            Done
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
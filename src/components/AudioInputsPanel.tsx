@@ -0,0 +1,187 @@
+import React from 'react';
+import { KawaiiButton } from './KawaiiButton';
+import {
+  AUDIO_PROCESSING_OPTIONS,
+  AudioInputConfig,
+  AudioInputConstraints,
+  describeAudioDevice,
+} from '../utils/audioInputs';
+
+interface AudioInputsPanelProps {
+  devices: MediaDeviceInfo[];
+  mainConstraints: AudioInputConstraints;
+  onMainConstraintsChange: (changes: Partial<AudioInputConstraints>) => void;
+  inputs: AudioInputConfig[];
+  activeIds: string[];
+  // Inputs waiting for their unplugged device to come back
+  lostIds: string[];
+  onAdd: (deviceId?: string) => void;
+  onToggle: (id: string) => Promise<void>;
+  onUpdate: (id: string, changes: Partial<Omit<AudioInputConfig, 'id'>>) => Promise<void>;
+  onRemove: (id: string) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const ConstraintControls: React.FC<{
+  idPrefix: string;
+  constraints: AudioInputConstraints;
+  onChange: (changes: Partial<AudioInputConstraints>) => void;
+}> = ({ idPrefix, constraints, onChange }) => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+    {AUDIO_PROCESSING_OPTIONS.map(option => (
+      <label key={option.key} htmlFor={`${idPrefix}-${option.key}`} className="flex items-center gap-2 font-kawaii text-xs text-kawaii-purple-700">
+        <input
+          type="checkbox"
+          id={`${idPrefix}-${option.key}`}
+          className="w-4 h-4 text-kawaii-pink-500 rounded"
+          checked={constraints[option.key]}
+          onChange={(e) => onChange({ [option.key]: e.target.checked })}
+        />
+        {option.label}
+      </label>
+    ))}
+    <select
+      value={constraints.channelCount}
+      onChange={(e) => onChange({ channelCount: e.target.value === '2' ? 2 : 1 })}
+      className="p-1 rounded-lg border-2 border-kawaii-pink-300 font-kawaii text-xs bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+      aria-label="Channels"
+    >
+      <option value={1}>Mono</option>
+      <option value={2}>Stereo</option>
+    </select>
+  </div>
+);
+
+export const AudioInputsPanel: React.FC<AudioInputsPanelProps> = ({
+  devices,
+  mainConstraints,
+  onMainConstraintsChange,
+  inputs,
+  activeIds,
+  lostIds,
+  onAdd,
+  onToggle,
+  onUpdate,
+  onRemove,
+  onError,
+  onClose,
+}) => {
+  const run = (task: () => Promise<void>) => {
+    task().catch(error => {
+      console.error('❌ Audio input error:', error);
+      if (error instanceof Error && error.name === 'NotAllowedError') {
+        onError('🎙️ Microphone permission was denied. Please allow microphone access! 💖');
+      } else if (error instanceof Error && (error.name === 'NotFoundError' || error.name === 'OverconstrainedError')) {
+        onError('😅 That microphone isn\'t available. Check it\'s connected or pick another one! ✨');
+      } else {
+        onError('💔 Could not start that microphone. Please try again! 🌟');
+      }
+    });
+  };
+
+  // A device nobody is using yet, so adding a co-host mic usually just works
+  const handleAdd = () => {
+    const used = new Set(inputs.map(input => input.deviceId));
+    onAdd(devices.find(device => device.deviceId !== 'default' && !used.has(device.deviceId))?.deviceId);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-pink-300 shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-6 text-center flex items-center justify-center gap-2">
+          <span className="text-3xl">🎙️</span>
+          Audio Inputs
+          <span className="text-3xl">🎶</span>
+        </h3>
+
+        <div className="bg-kawaii-pink-50 p-4 rounded-xl border-2 border-kawaii-pink-200 mb-4">
+          <p className="font-kawaii font-semibold text-kawaii-purple-800 mb-1">🎤 Main Microphone</p>
+          <p className="font-kawaii text-xs text-kawaii-purple-500 mb-3">
+            Pick the device in Mic Settings. Changes apply the next time you turn the mic on ✨
+          </p>
+          <ConstraintControls idPrefix="main-mic" constraints={mainConstraints} onChange={onMainConstraintsChange} />
+        </div>
+
+        <div className="space-y-3 mb-6">
+          {inputs.length === 0 && (
+            <p className="font-kawaii text-sm text-kawaii-purple-600 text-center py-4">
+              Add a microphone for each co-host, and each one gets its own mixer channel! 👯
+            </p>
+          )}
+          {inputs.map((input, index) => {
+            const isActive = activeIds.includes(input.id);
+            const isLost = lostIds.includes(input.id);
+            return (
+              <div
+                key={input.id}
+                className={`p-4 rounded-xl border-2 space-y-3 ${isActive ? 'bg-green-50 border-green-300' : 'bg-kawaii-pink-50 border-kawaii-pink-200'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    defaultValue={input.name}
+                    placeholder={`Microphone ${index + 2}`}
+                    // Renaming relabels the mixer channel, so it waits until editing is done
+                    onBlur={(e) => {
+                      if (e.target.value !== input.name) run(() => onUpdate(input.id, { name: e.target.value }));
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className="flex-1 min-w-0 p-2 rounded-xl border-2 border-kawaii-pink-300 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+                    aria-label="Name"
+                  />
+                  <button
+                    onClick={() => run(() => onToggle(input.id))}
+                    className={`px-3 py-2 rounded-xl border-2 font-kawaii text-sm font-semibold transition-colors ${
+                      isActive
+                        ? 'bg-green-500 border-green-500 text-white'
+                        : isLost
+                          ? 'bg-yellow-100 border-yellow-400 text-yellow-800'
+                          : 'bg-white/80 border-kawaii-pink-300 text-kawaii-purple-700 hover:border-kawaii-purple-400'
+                    }`}
+                    title={isLost ? 'Unplugged. It turns back on when the device returns; click to stop waiting' : undefined}
+                  >
+                    {isActive ? '🟢 On' : isLost ? '🔌 Waiting' : '⚪ Off'}
+                  </button>
+                  <button
+                    onClick={() => onRemove(input.id)}
+                    className="text-kawaii-purple-400 hover:text-red-500 px-1"
+                    title="Remove"
+                  >
+                    ✖
+                  </button>
+                </div>
+                <select
+                  value={input.deviceId}
+                  onChange={(e) => run(() => onUpdate(input.id, { deviceId: e.target.value }))}
+                  className="w-full p-2 rounded-xl border-2 border-kawaii-pink-300 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+                >
+                  <option value="default">Default Microphone 🎤</option>
+                  {devices.filter(device => device.deviceId !== 'default').map(device => (
+                    <option key={device.deviceId} value={device.deviceId}>{describeAudioDevice(device)} 🎙️</option>
+                  ))}
+                </select>
+                <ConstraintControls
+                  idPrefix={`input-${input.id}`}
+                  constraints={input}
+                  onChange={(changes) => run(() => onUpdate(input.id, changes))}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-4 justify-center">
+          <KawaiiButton onClick={handleAdd} emoji="➕" variant="primary" size="sm">
+            Add Microphone
+          </KawaiiButton>
+          <KawaiiButton onClick={onClose} emoji="✨" variant="success" size="sm">
+            Done
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useRef, useState } from 'react';
+import { Play, Pause, Plus, X, Mic } from 'lucide-react';
+import { AudioFilterEditor } from './AudioFilterEditor';
+import { ChannelFilterSettings, LimiterSettings } from '../utils/audioFilters';
+import {
+  MeterReading,
+  MixerBus,
+  MixerChannelInfo,
+  MixerChannelKind,
+  MixerMeters,
+  MIXER_BUSES,
+  MIN_FADER_DB,
+  MAX_FADER_DB,
+  formatDb,
+} from '../utils/audioMixer';
+
+interface AudioMixerProps {
+  channels: MixerChannelInfo[];
+  meters: MixerMeters;
+  masterDb: number;
+  limiter: LimiterSettings;
+  playingMedia: Record<string, boolean>;
+  onFaderChange: (id: string, db: number) => void;
+  onPanChange: (id: string, pan: number) => void;
+  onToggleMute: (id: string) => void;
+  onToggleSolo: (id: string) => void;
+  onRoutingChange: (id: string, kind: MixerChannelKind, bus: MixerBus, enabled: boolean) => void;
+  onMasterChange: (db: number) => void;
+  getChannelFilters: (id: string, kind: MixerChannelKind) => ChannelFilterSettings;
+  onFiltersChange: (id: string, filters: ChannelFilterSettings) => void;
+  onLimiterChange: (limiter: LimiterSettings) => void;
+  onAddMediaFile: (file: File) => void;
+  onAudioInputs?: () => void;
+  onRemoveChannel: (id: string) => void;
+  onToggleMedia: (id: string) => void;
+}
+
+const CHANNEL_EMOJI: Record<MixerChannelKind, string> = {
+  microphone: '🎤',
+  screen: '🖥️',
+  media: '🎵',
+};
+
+const BUS_LABELS: Record<MixerBus, { emoji: string; title: string }> = {
+  monitor: { emoji: '🎧', title: 'Monitor (hear it on your speakers)' },
+  record: { emoji: '⏺️', title: 'Send to recording' },
+  stream: { emoji: '📡', title: 'Send to live stream' },
+};
+
+// Maps -60..0 dBFS onto 0..100% of the meter height
+const meterPercent = (db: number) => {
+  if (!isFinite(db)) return 0;
+  return Math.min(100, Math.max(0, ((db - MIN_FADER_DB) / -MIN_FADER_DB) * 100));
+};
+
+const Meter: React.FC<{ reading?: MeterReading; title?: string }> = ({ reading, title = 'Peak / RMS' }) => {
+  const peak = meterPercent(reading?.peak ?? -Infinity);
+  const rms = meterPercent(reading?.rms ?? -Infinity);
+  const isClipping = (reading?.peak ?? -Infinity) >= -0.5;
+
+  return (
+    <div className="relative w-3 h-40 bg-kawaii-purple-900/20 rounded-full overflow-hidden" title={title}>
+      <div
+        className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-green-400 via-yellow-300 to-red-500 opacity-40 transition-all duration-75"
+        style={{ height: `${peak}%` }}
+      />
+      <div
+        className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-green-400 via-yellow-300 to-red-500 transition-all duration-75"
+        style={{ height: `${rms}%` }}
+      />
+      <div
+        className={`absolute left-0 right-0 h-0.5 ${isClipping ? 'bg-red-600' : 'bg-white'}`}
+        style={{ bottom: `${peak}%` }}
+      />
+    </div>
+  );
+};
+
+const Fader: React.FC<{ value: number; onChange: (db: number) => void; label: string }> = ({ value, onChange, label }) => (
+  <input
+    type="range"
+    min={MIN_FADER_DB}
+    max={MAX_FADER_DB}
+    step={0.5}
+    value={value}
+    onChange={(e) => onChange(parseFloat(e.target.value))}
+    onDoubleClick={() => onChange(0)}
+    aria-label={label}
+    title="Double-click to reset to 0 dB"
+    className="h-40 w-6 cursor-pointer accent-kawaii-pink-500"
+    style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+  />
+);
+
+export const AudioMixer: React.FC<AudioMixerProps> = ({
+  channels,
+  meters,
+  masterDb,
+  limiter,
+  playingMedia,
+  onFaderChange,
+  onPanChange,
+  onToggleMute,
+  onToggleSolo,
+  onRoutingChange,
+  onMasterChange,
+  getChannelFilters,
+  onFiltersChange,
+  onLimiterChange,
+  onAddMediaFile,
+  onAudioInputs,
+  onRemoveChannel,
+  onToggleMedia,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A channel id, 'master' for the limiter, or null when the editor is closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const editingChannel = channels.find(channel => channel.id === editing);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onAddMediaFile(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="bg-white/20 backdrop-blur-kawaii rounded-2xl p-6 border-2 border-kawaii-pink-300 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-kawaii font-bold text-kawaii-purple-800 flex items-center gap-2">
+          <span className="text-xl">🎛️</span>
+          Audio Mixer
+        </h3>
+        <div className="flex items-center gap-2">
+          {onAudioInputs && (
+            <button
+              onClick={onAudioInputs}
+              className="flex items-center gap-1 bg-kawaii-pink-500 hover:bg-kawaii-pink-600 text-white rounded-full px-3 py-1 text-xs font-kawaii font-semibold shadow transition-all duration-200 hover:scale-105"
+              title="Add more microphones, e.g. one per co-host 🎙️"
+            >
+              <Mic size={14} />
+              Mics
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 bg-kawaii-purple-500 hover:bg-kawaii-purple-600 text-white rounded-full px-3 py-1 text-xs font-kawaii font-semibold shadow transition-all duration-200 hover:scale-105"
+            title="Add a music or sound file to the mix 🎵"
+          >
+            <Plus size={14} />
+            Add Media
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*,video/*"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {channels.length === 0 && (
+          <div className="flex-1 flex items-center justify-center h-40 text-center">
+            <p className="font-kawaii text-sm text-kawaii-purple-600">
+              Unmute your mic, share screen audio or add media to fill the mixer! 🎶
+            </p>
+          </div>
+        )}
+
+        {channels.map(channel => (
+          <div
+            key={channel.id}
+            className="flex flex-col items-center gap-2 bg-white/40 rounded-xl p-3 border-2 border-kawaii-pink-200 min-w-[7rem]"
+          >
+            <div className="flex items-center gap-1 w-full justify-between">
+              <span className="font-kawaii text-xs font-semibold text-kawaii-purple-800 truncate max-w-[5rem]" title={channel.label}>
+                {CHANNEL_EMOJI[channel.kind]} {channel.label}
+              </span>
+              {channel.kind === 'media' && (
+                <button
+                  onClick={() => onRemoveChannel(channel.id)}
+                  className="text-kawaii-purple-400 hover:text-kawaii-pink-600"
+                  title="Remove from mixer"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-end gap-2">
+              <Meter reading={meters.channels[channel.id]} />
+              <Fader value={channel.faderDb} onChange={(db) => onFaderChange(channel.id, db)} label={`${channel.label} fader`} />
+            </div>
+
+            <span className="font-kawaii text-xs text-kawaii-purple-700 tabular-nums">{formatDb(channel.faderDb)}</span>
+
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={channel.pan}
+              onChange={(e) => onPanChange(channel.id, parseFloat(e.target.value))}
+              onDoubleClick={() => onPanChange(channel.id, 0)}
+              aria-label={`${channel.label} pan`}
+              title={`Pan ${channel.pan === 0 ? 'C' : channel.pan < 0 ? `L${Math.round(-channel.pan * 100)}` : `R${Math.round(channel.pan * 100)}`}`}
+              className="w-20 h-1 cursor-pointer accent-kawaii-purple-500"
+            />
+
+            <div className="flex gap-1">
+              <button
+                onClick={() => onToggleMute(channel.id)}
+                className={`w-7 h-7 rounded-full text-xs font-bold border-2 transition-all ${channel.muted ? 'bg-red-500 text-white border-red-300' : 'bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200'}`}
+                title="Mute"
+              >
+                M
+              </button>
+              <button
+                onClick={() => onToggleSolo(channel.id)}
+                className={`w-7 h-7 rounded-full text-xs font-bold border-2 transition-all ${channel.solo ? 'bg-yellow-400 text-white border-yellow-200' : 'bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200'}`}
+                title="Solo"
+              >
+                S
+              </button>
+              <button
+                onClick={() => setEditing(channel.id)}
+                className="h-7 px-2 rounded-full text-xs font-bold border-2 bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200 hover:border-kawaii-pink-400 transition-all"
+                title="Gate, EQ and compressor"
+              >
+                FX
+              </button>
+            </div>
+
+            <div className="flex gap-1">
+              {MIXER_BUSES.map(bus => (
+                <button
+                  key={bus}
+                  onClick={() => onRoutingChange(channel.id, channel.kind, bus, !channel.routing[bus])}
+                  className={`w-7 h-7 rounded-full text-xs border-2 transition-all ${channel.routing[bus] ? 'bg-kawaii-pink-400 border-kawaii-pink-200' : 'bg-white/80 border-kawaii-pink-200 opacity-50 grayscale'}`}
+                  title={`${BUS_LABELS[bus].title}: ${channel.routing[bus] ? 'on' : 'off'}`}
+                  aria-pressed={channel.routing[bus]}
+                >
+                  {BUS_LABELS[bus].emoji}
+                </button>
+              ))}
+              {channel.kind === 'media' && (
+                <button
+                  onClick={() => onToggleMedia(channel.id)}
+                  className="w-7 h-7 rounded-full border-2 bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200 flex items-center justify-center"
+                  title={playingMedia[channel.id] ? 'Pause' : 'Play'}
+                >
+                  {playingMedia[channel.id] ? <Pause size={12} /> : <Play size={12} />}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {/* Master fader and limiter apply to both the record and the stream bus */}
+        <div className="flex flex-col items-center gap-2 bg-kawaii-purple-100/60 rounded-xl p-3 border-2 border-kawaii-purple-300 min-w-[7rem] ml-auto">
+          <span className="font-kawaii text-xs font-bold text-kawaii-purple-800">✨ Master</span>
+          <div className="flex items-end gap-2">
+            <Meter reading={meters.record} title="Recording bus" />
+            <Meter reading={meters.stream} title="Stream bus" />
+            <Fader value={masterDb} onChange={onMasterChange} label="Master fader" />
+          </div>
+          <span className="font-kawaii text-xs text-kawaii-purple-700 tabular-nums">{formatDb(masterDb)}</span>
+          <button
+            onClick={() => setEditing('master')}
+            className={`h-7 px-2 rounded-full text-xs font-bold border-2 transition-all ${limiter.enabled ? 'bg-kawaii-purple-500 text-white border-kawaii-purple-300' : 'bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200'}`}
+            title="Master limiter"
+          >
+            LIMIT
+          </button>
+          <span className="font-kawaii text-[10px] text-kawaii-purple-500 text-center">⏺️ Rec · 📡 Live</span>
+        </div>
+      </div>
+
+      {editingChannel && (
+        <AudioFilterEditor
+          title={`${editingChannel.label} Filters`}
+          emoji={CHANNEL_EMOJI[editingChannel.kind]}
+          kind={editingChannel.kind}
+          filters={getChannelFilters(editingChannel.id, editingChannel.kind)}
+          onFiltersChange={(filters) => onFiltersChange(editingChannel.id, filters)}
+          reduction={meters.channels[editingChannel.id]?.reduction}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {editing === 'master' && (
+        <AudioFilterEditor
+          title="Master Limiter"
+          emoji="✨"
+          limiter={limiter}
+          onLimiterChange={onLimiterChange}
+          reduction={Math.min(meters.record.reduction ?? 0, meters.stream.reduction ?? 0)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,35 +1,76 @@
 import React from 'react';
+import { MAX_RELEASE_DELAY_MS, PUSH_TO_TALK_MODE_INFO, PushToTalkMode, PushToTalkSettings } from '../utils/pushToTalk';
 
 interface AudioVisualizerProps {
   audioLevel: number;
   isActive: boolean;
+  pushToTalk: PushToTalkSettings;
+  onPushToTalkChange: (changes: Partial<PushToTalkSettings>) => void;
+  // False while push-to-talk (or push-to-mute) is holding the mic silent
+  isGateOpen: boolean;
+  isKeyDown: boolean;
+  // The push-to-talk key, formatted for display, or null when it has none
+  hotkeyLabel: string | null;
 }
 
 export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
   audioLevel,
   isActive,
+  pushToTalk,
+  onPushToTalkChange,
+  isGateOpen,
+  isKeyDown,
+  hotkeyLabel,
 }) => {
+  const isGated = isActive && !isGateOpen;
+
   const bars = Array.from({ length: 8 }, (_, i) => {
-    const height = isActive ? Math.max(10, audioLevel * 100 * (Math.random() * 0.5 + 0.5)) : 10;
+    const height = isActive && !isGated ? Math.max(10, audioLevel * 100 * (Math.random() * 0.5 + 0.5)) : 10;
     return (
       <div
         key={i}
-        className={`w-2 bg-gradient-to-t from-kawaii-pink-500 to-kawaii-purple-400 rounded-full transition-all duration-150 ${
-          isActive ? 'animate-pulse-pink' : 'opacity-30'
+        className={`w-2 rounded-full transition-all duration-150 ${
+          isGated
+            ? 'bg-gray-400 opacity-50'
+            : `bg-gradient-to-t from-kawaii-pink-500 to-kawaii-purple-400 ${isActive ? 'animate-pulse-pink' : 'opacity-30'}`
         }`}
         style={{ height: `${height}%` }}
       />
     );
   });
 
+  const status = () => {
+    if (!isActive) return 'Click to activate! ✨';
+    if (pushToTalk.mode !== 'off' && !hotkeyLabel) return '⚠️ No push-to-talk key set, add one in Hotkeys';
+    if (isGated) {
+      return pushToTalk.mode === 'pushToTalk' ? `🔇 Muted, hold ${hotkeyLabel} to talk` : `🤫 Muted, release ${hotkeyLabel} to talk`;
+    }
+    return `Level: ${Math.round(audioLevel * 100)}% 💖`;
+  };
+
   return (
-    <div className="relative bg-white/20 backdrop-blur-kawaii rounded-2xl p-6 border-2 border-kawaii-pink-300 shadow-lg">
+    <div
+      className={`relative bg-white/20 backdrop-blur-kawaii rounded-2xl p-6 border-2 shadow-lg transition-colors ${
+        isGated ? 'border-gray-400' : 'border-kawaii-pink-300'
+      }`}
+    >
       <div className="flex items-center justify-between mb-4">
         <h3 className="font-kawaii font-bold text-kawaii-purple-800 flex items-center gap-2">
-          <span className="text-xl">🎤</span>
+          <span className="text-xl">{isGated ? '🔇' : '🎤'}</span>
           Microphone
         </h3>
-        <div className={`w-3 h-3 rounded-full ${isActive ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`}></div>
+        <div className="flex items-center gap-2">
+          {isActive && pushToTalk.mode !== 'off' && (
+            <span
+              className={`px-2 py-0.5 rounded-full font-kawaii text-xs font-bold ${
+                isGated ? 'bg-gray-500 text-white' : 'bg-green-500 text-white'
+              }`}
+            >
+              {isGated ? 'GATED' : isKeyDown || pushToTalk.mode === 'pushToMute' ? 'LIVE' : 'RELEASING'}
+            </span>
+          )}
+          <div className={`w-3 h-3 rounded-full ${isGated ? 'bg-gray-500' : isActive ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`}></div>
+        </div>
       </div>
       
       <div className="flex items-end justify-center space-x-1 h-20">
@@ -37,10 +78,44 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
       </div>
       
       <div className="mt-4 text-center">
-        <p className="font-kawaii text-sm text-kawaii-purple-600">
-          {isActive ? `Level: ${Math.round(audioLevel * 100)}% 💖` : 'Click to activate! ✨'}
+        <p className={`font-kawaii text-sm ${isGated ? 'text-gray-600 font-semibold' : 'text-kawaii-purple-600'}`}>
+          {status()}
         </p>
       </div>
+
+      <div className="mt-4 pt-4 border-t-2 border-kawaii-pink-200 space-y-3">
+        <div className="flex gap-1">
+          {(Object.keys(PUSH_TO_TALK_MODE_INFO) as PushToTalkMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onPushToTalkChange({ mode })}
+              className={`flex-1 px-2 py-1 rounded-xl border-2 font-kawaii text-xs font-semibold transition-colors ${
+                pushToTalk.mode === mode
+                  ? 'bg-kawaii-purple-500 border-kawaii-purple-500 text-white'
+                  : 'bg-white/80 border-kawaii-pink-300 text-kawaii-purple-700 hover:border-kawaii-purple-400'
+              }`}
+            >
+              {PUSH_TO_TALK_MODE_INFO[mode].emoji} {PUSH_TO_TALK_MODE_INFO[mode].name}
+            </button>
+          ))}
+        </div>
+        {pushToTalk.mode !== 'off' && (
+          <label className="block">
+            <span className="block font-kawaii text-kawaii-purple-700 text-xs mb-1">
+              Release delay: {pushToTalk.releaseDelayMs} ms ⏱️
+            </span>
+            <input
+              type="range"
+              min="0"
+              max={MAX_RELEASE_DELAY_MS}
+              step="50"
+              value={pushToTalk.releaseDelayMs}
+              onChange={(e) => onPushToTalkChange({ releaseDelayMs: parseInt(e.target.value) })}
+              className="w-full h-2 bg-kawaii-pink-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+        )}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
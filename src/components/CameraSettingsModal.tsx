@@ -0,0 +1,194 @@
+import React from 'react';
+import { KawaiiButton } from './KawaiiButton';
+import {
+  CAMERA_FPS_OPTIONS,
+  CAMERA_RESOLUTIONS,
+  CAMERA_ROTATIONS,
+  CameraResolution,
+  CameraRotation,
+  CameraSettings,
+  describeCameraDevice,
+} from '../utils/cameras';
+
+interface CameraSettingsModalProps {
+  devices: MediaDeviceInfo[];
+  selectedCamera: string;
+  onSelectCamera: (deviceId: string) => void;
+  getSettings: (deviceId: string) => CameraSettings;
+  onSettingsChange: (deviceId: string, changes: Partial<CameraSettings>) => void;
+  extraCameraIds: string[];
+  lostCameraIds: string[];
+  onToggleExtraCamera: (deviceId: string) => Promise<void>;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const selectClassName = 'p-2 rounded-xl border-2 border-kawaii-pink-300 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none';
+
+const CameraSettingsControls: React.FC<{
+  settings: CameraSettings;
+  onChange: (changes: Partial<CameraSettings>) => void;
+}> = ({ settings, onChange }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <select
+      value={settings.resolution}
+      onChange={(e) => onChange({ resolution: e.target.value as CameraResolution })}
+      className={selectClassName}
+      aria-label="Resolution"
+    >
+      {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map(resolution => (
+        <option key={resolution} value={resolution}>
+          {CAMERA_RESOLUTIONS[resolution]?.name ?? 'Auto resolution'}
+        </option>
+      ))}
+    </select>
+    <select
+      value={settings.fps}
+      onChange={(e) => onChange({ fps: parseInt(e.target.value) })}
+      className={selectClassName}
+      aria-label="Frame rate"
+    >
+      {CAMERA_FPS_OPTIONS.map(fps => (
+        <option key={fps} value={fps}>{fps > 0 ? `${fps} fps` : 'Auto frame rate'}</option>
+      ))}
+    </select>
+    <label className="flex items-center gap-2 font-kawaii text-sm text-kawaii-purple-700">
+      <input
+        type="checkbox"
+        className="w-4 h-4 text-kawaii-pink-500 rounded"
+        checked={settings.mirror}
+        onChange={(e) => onChange({ mirror: e.target.checked })}
+      />
+      Mirror 🪞
+    </label>
+    <select
+      value={settings.rotation}
+      onChange={(e) => onChange({ rotation: parseInt(e.target.value) as CameraRotation })}
+      className={selectClassName}
+      aria-label="Rotation"
+    >
+      {CAMERA_ROTATIONS.map(rotation => (
+        <option key={rotation} value={rotation}>{rotation === 0 ? 'No rotation' : `Rotate ${rotation}°`}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export const CameraSettingsModal: React.FC<CameraSettingsModalProps> = ({
+  devices,
+  selectedCamera,
+  onSelectCamera,
+  getSettings,
+  onSettingsChange,
+  extraCameraIds,
+  lostCameraIds,
+  onToggleExtraCamera,
+  onError,
+  onClose,
+}) => {
+  const run = (task: () => Promise<void>) => {
+    task().catch(error => {
+      console.error('❌ Camera error:', error);
+      if (error instanceof Error && error.name === 'NotAllowedError') {
+        onError('📷 Camera permission was denied. Please allow camera access to use this feature! 💖');
+      } else if (error instanceof Error && (error.name === 'NotReadableError' || error.name === 'AbortError')) {
+        onError('😅 That camera is busy. Close other apps using it and try again! ✨');
+      } else {
+        onError('💔 Could not start that camera. Please check it and try again! 🌟');
+      }
+    });
+  };
+
+  // Unplugged cameras drop out of the device list, but stay listed until they're back or turned off
+  const otherCameras: Pick<MediaDeviceInfo, 'deviceId' | 'label'>[] = [
+    ...devices.filter(device => device.deviceId !== selectedCamera && device.deviceId !== 'default'),
+    ...lostCameraIds
+      .filter(deviceId => !devices.some(device => device.deviceId === deviceId))
+      .map(deviceId => ({ deviceId, label: '' })),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-pink-300 shadow-2xl max-w-xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-6 text-center flex items-center justify-center gap-2">
+          <span className="text-3xl">📷</span>
+          Camera Settings
+          <span className="text-3xl">⚙️</span>
+        </h3>
+
+        <div className="bg-kawaii-pink-50 p-4 rounded-xl border-2 border-kawaii-pink-200 mb-4 space-y-3">
+          <label className="block font-kawaii text-kawaii-purple-700 font-semibold">
+            Main Camera 🎥
+          </label>
+          <select
+            value={selectedCamera}
+            onChange={(e) => onSelectCamera(e.target.value)}
+            className={`w-full ${selectClassName}`}
+          >
+            <option value="default">Default Camera 📷</option>
+            {devices.filter(device => device.deviceId !== 'default').map(device => (
+              <option key={device.deviceId} value={device.deviceId}>{describeCameraDevice(device)} 🎥</option>
+            ))}
+          </select>
+          <CameraSettingsControls
+            settings={getSettings(selectedCamera)}
+            onChange={(changes) => onSettingsChange(selectedCamera, changes)}
+          />
+          <p className="font-kawaii text-xs text-kawaii-purple-500">
+            Settings are saved for each camera. The camera gets as close to the preset as it can ✨
+          </p>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          <p className="font-kawaii font-semibold text-kawaii-purple-700">More Cameras 👯</p>
+          {otherCameras.length === 0 ? (
+            <p className="font-kawaii text-sm text-kawaii-purple-600 text-center py-2">
+              No other cameras found. Start the main camera once so their names show up! 🌟
+            </p>
+          ) : (
+            <p className="font-kawaii text-xs text-kawaii-purple-500">
+              Turn a camera on, then pick it on a Camera source in the scene panel 🎬
+            </p>
+          )}
+          {otherCameras.map(device => {
+            const isActive = extraCameraIds.includes(device.deviceId);
+            const isLost = lostCameraIds.includes(device.deviceId);
+            return (
+              <div
+                key={device.deviceId}
+                className={`p-4 rounded-xl border-2 space-y-3 ${isActive ? 'bg-green-50 border-green-300' : 'bg-kawaii-pink-50 border-kawaii-pink-200'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-kawaii text-sm text-kawaii-purple-800 truncate">{describeCameraDevice(device)}</span>
+                  <button
+                    onClick={() => run(() => onToggleExtraCamera(device.deviceId))}
+                    className={`px-3 py-1 rounded-xl border-2 font-kawaii text-sm font-semibold transition-colors flex-shrink-0 ${
+                      isActive
+                        ? 'bg-green-500 border-green-500 text-white'
+                        : isLost
+                          ? 'bg-yellow-100 border-yellow-400 text-yellow-800'
+                          : 'bg-white/80 border-kawaii-pink-300 text-kawaii-purple-700 hover:border-kawaii-purple-400'
+                    }`}
+                    title={isLost ? 'Unplugged. It turns back on when the camera returns; click to stop waiting' : undefined}
+                  >
+                    {isActive ? '🟢 On' : isLost ? '🔌 Waiting' : '⚪ Off'}
+                  </button>
+                </div>
+                <CameraSettingsControls
+                  settings={getSettings(device.deviceId)}
+                  onChange={(changes) => onSettingsChange(device.deviceId, changes)}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-center">
+          <KawaiiButton onClick={onClose} emoji="✨" variant="success" size="sm">
+            Done
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Compositor, LayerRect } from '../utils/compositor';
+import { useFullscreen } from '../hooks/useFullscreen';
+import { useSound } from '../hooks/useSound';
+
+interface CompositorPreviewProps {
+  compositor: Compositor | null;
+  title: string;
+  emoji: string;
+  isActive: boolean;
+  editableRect?: LayerRect | null;
+  onRectChange?: (rect: LayerRect) => void;
+  headerActions?: React.ReactNode;
+  className?: string;
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  startRect: LayerRect;
+}
+
+export const CompositorPreview: React.FC<CompositorPreviewProps> = ({
+  compositor,
+  title,
+  emoji,
+  isActive,
+  editableRect,
+  onRectChange,
+  headerActions,
+  className = '',
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasHostRef = useRef<HTMLDivElement>(null);
+  const canvasMountRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draftRect, setDraftRect] = useState<LayerRect | null>(null);
+  const { toggleFullscreen } = useFullscreen();
+  const { playClick } = useSound();
+
+  useEffect(() => {
+    const host = canvasMountRef.current;
+    if (!host || !compositor) return;
+
+    compositor.canvas.className = 'w-full h-full object-contain';
+    host.appendChild(compositor.canvas);
+    return () => {
+      if (compositor.canvas.parentElement === host) {
+        host.removeChild(compositor.canvas);
+      }
+    };
+  }, [compositor]);
+
+  const handleDoubleClick = () => {
+    if (containerRef.current) {
+      playClick();
+      toggleFullscreen(containerRef.current);
+    }
+  };
+
+  const beginDrag = (mode: DragState['mode']) => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!editableRect) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      mode,
+      startX: event.clientX,
+      startY: event.clientY,
+      startRect: editableRect,
+    };
+    setDraftRect(editableRect);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const host = canvasHostRef.current;
+    if (!drag || !host) return;
+
+    const bounds = host.getBoundingClientRect();
+    const dx = (event.clientX - drag.startX) / bounds.width;
+    const dy = (event.clientY - drag.startY) / bounds.height;
+
+    const next = drag.mode === 'move'
+      ? { ...drag.startRect, x: drag.startRect.x + dx, y: drag.startRect.y + dy }
+      : { ...drag.startRect, width: drag.startRect.width + dx, height: drag.startRect.height + dy };
+
+    setDraftRect(next);
+    onRectChange?.(next);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setDraftRect(null);
+  };
+
+  const rect = draftRect || editableRect;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative rounded-2xl overflow-hidden bg-gradient-to-br from-kawaii-pink-100 to-kawaii-purple-100 border-4 border-kawaii-pink-300 shadow-lg cursor-pointer transition-all duration-300 hover:shadow-xl ${className}`}
+      onDoubleClick={handleDoubleClick}
+      title="Double-click for fullscreen! 🌟"
+    >
+      <div className="absolute top-4 left-4 z-20 bg-white/90 backdrop-blur-sm rounded-full px-3 py-1 border-2 border-kawaii-pink-300">
+        <span className="font-kawaii font-semibold text-kawaii-purple-800 flex items-center gap-2">
+          <span className="text-lg">{emoji}</span>
+          {title}
+        </span>
+      </div>
+
+      {headerActions && (
+        <div className="absolute top-4 right-4 z-20 flex items-center gap-2">
+          {headerActions}
+        </div>
+      )}
+
+      <div ref={canvasHostRef} className="relative w-full h-full">
+        <div ref={canvasMountRef} className="absolute inset-0" />
+        {rect && onRectChange && (
+          <div
+            className="absolute border-2 border-dashed border-white/90 rounded-lg cursor-move z-10 touch-none"
+            style={{
+              left: `${rect.x * 100}%`,
+              top: `${rect.y * 100}%`,
+              width: `${rect.width * 100}%`,
+              height: `${rect.height * 100}%`,
+            }}
+            onPointerDown={beginDrag('move')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            onDoubleClick={(event) => event.stopPropagation()}
+            title="Drag to move this source! 💖"
+          >
+            <div
+              className="absolute -bottom-2 -right-2 w-4 h-4 bg-kawaii-pink-500 border-2 border-white rounded-full cursor-nwse-resize"
+              onPointerDown={beginDrag('resize')}
+              title="Drag to resize! ✨"
+            />
+          </div>
+        )}
+      </div>
+
+      {!isActive && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="text-center">
+            <div className="text-6xl mb-4 animate-bounce-cute">{emoji}</div>
+            <p className="font-kawaii text-white text-lg font-semibold">Nothing on stage yet</p>
+            <p className="font-kawaii text-kawaii-pink-200 text-sm mt-2">
+              💖 Share your screen, start your camera or pick a scene!
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isActive && (
+        <div className="absolute bottom-4 right-4 z-20">
+          <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse-pink shadow-lg"></div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { KawaiiButton } from './KawaiiButton';
+import {
+  HOTKEY_GROUP_INFO,
+  HotkeyActionInfo,
+  HotkeyBindings,
+  HotkeyGroup,
+  eventToCombo,
+  formatCombo,
+} from '../utils/hotkeys';
+
+interface HotkeyEditorProps {
+  actions: HotkeyActionInfo[];
+  bindings: HotkeyBindings;
+  conflicts: Map<string, string[]>;
+  onChange: (actionId: string, combo: string | null) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const HotkeyEditor: React.FC<HotkeyEditorProps> = ({
+  actions,
+  bindings,
+  conflicts,
+  onChange,
+  onReset,
+  onClose,
+}) => {
+  // The action waiting for a new combo, if any
+  const [capturingId, setCapturingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!capturingId) return;
+
+    // Capture phase, so nothing else on the page reacts to the keys being recorded
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const hasModifier = event.ctrlKey || event.metaKey || event.altKey || event.shiftKey;
+
+      if (event.code === 'Escape' && !hasModifier) {
+        setCapturingId(null);
+      } else if ((event.code === 'Backspace' || event.code === 'Delete') && !hasModifier) {
+        onChange(capturingId, null);
+        setCapturingId(null);
+      } else {
+        const combo = eventToCombo(event);
+        if (!combo) return;
+        onChange(capturingId, combo);
+        setCapturingId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturingId, onChange]);
+
+  const nameOf = (actionId: string) => actions.find(action => action.id === actionId)?.name ?? actionId;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-pink-300 shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-2 text-center flex items-center justify-center gap-2">
+          <span className="text-3xl">⌨️</span>
+          Hotkeys
+          <span className="text-3xl">✨</span>
+        </h3>
+        <p className="font-kawaii text-sm text-kawaii-purple-600 text-center mb-6">
+          Click a shortcut, then press the keys you want. Esc cancels, Backspace clears 🌟
+        </p>
+
+        {conflicts.size > 0 && (
+          <p className="font-kawaii text-sm text-red-600 bg-red-50 border-2 border-red-200 rounded-xl p-3 mb-4">
+            ⚠️ Some shortcuts are used more than once, so one key press will trigger all of them
+          </p>
+        )}
+
+        <div className="space-y-5 mb-6">
+          {(Object.keys(HOTKEY_GROUP_INFO) as HotkeyGroup[]).map(group => {
+            const groupActions = actions.filter(action => action.group === group);
+            if (groupActions.length === 0) return null;
+            return (
+              <div key={group}>
+                <h4 className="font-kawaii font-semibold text-kawaii-purple-700 mb-2">
+                  {HOTKEY_GROUP_INFO[group].emoji} {HOTKEY_GROUP_INFO[group].name}
+                </h4>
+                <div className="space-y-2">
+                  {groupActions.map(action => {
+                    const combo = bindings[action.id] ?? null;
+                    const sharedWith = combo ? (conflicts.get(combo) ?? []).filter(id => id !== action.id) : [];
+                    const isCapturing = capturingId === action.id;
+                    return (
+                      <div
+                        key={action.id}
+                        className={`flex items-center justify-between gap-3 p-2 rounded-xl border-2 ${
+                          sharedWith.length > 0 ? 'bg-red-50 border-red-300' : 'bg-kawaii-pink-50 border-kawaii-pink-200'
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <p className="font-kawaii text-sm text-kawaii-purple-800 truncate">{action.name}</p>
+                          {sharedWith.length > 0 && (
+                            <p className="font-kawaii text-xs text-red-600 truncate">
+                              Also used by {sharedWith.map(nameOf).join(', ')}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <button
+                            onClick={() => setCapturingId(isCapturing ? null : action.id)}
+                            className={`min-w-32 px-3 py-1 rounded-lg border-2 font-mono text-sm transition-colors ${
+                              isCapturing
+                                ? 'bg-kawaii-purple-500 border-kawaii-purple-500 text-white animate-pulse'
+                                : 'bg-white border-kawaii-purple-200 text-kawaii-purple-700 hover:border-kawaii-purple-400'
+                            }`}
+                          >
+                            {isCapturing ? 'Press keys...' : combo ? formatCombo(combo) : 'Not set'}
+                          </button>
+                          {combo && !isCapturing && (
+                            <button
+                              onClick={() => onChange(action.id, null)}
+                              className="text-kawaii-purple-400 hover:text-red-500 px-1"
+                              title="Clear"
+                            >
+                              ✖
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-4 justify-center">
+          <KawaiiButton onClick={onReset} emoji="🔄" variant="secondary" size="sm">
+            Reset to Defaults
+          </KawaiiButton>
+          <KawaiiButton onClick={onClose} emoji="✨" variant="success" size="sm">
+            Done
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
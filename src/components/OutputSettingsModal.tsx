@@ -0,0 +1,326 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { KawaiiButton } from './KawaiiButton';
+import {
+  OutputSettings,
+  RecordingContainer,
+  RecordingFormat,
+  RecordingVideoCodec,
+  AUDIO_BITRATE_PRESETS,
+  CONTAINER_INFO,
+  FPS_PRESETS,
+  RESOLUTION_PRESETS,
+  SCALE_QUALITY_INFO,
+  SPLIT_MODE_INFO,
+  SplitMode,
+  VIDEO_CODEC_INFO,
+  describeFormat,
+  getSupportMatrix,
+} from '../utils/outputSettings';
+
+interface OutputSettingsModalProps {
+  settings: OutputSettings;
+  format: RecordingFormat;
+  support: ReturnType<typeof getSupportMatrix>;
+  // The canvas can't be rebuilt under a running stream or recording
+  isCanvasLocked: boolean;
+  onChange: (changes: Partial<OutputSettings>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const Choice: React.FC<{
+  isSelected: boolean;
+  disabled?: boolean;
+  title?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ isSelected, disabled, title, onClick, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`rounded-full px-3 py-1 text-xs font-kawaii font-semibold border-2 transition-all disabled:opacity-50 ${isSelected ? 'bg-kawaii-pink-500 text-white border-kawaii-pink-300' : 'bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200'}`}
+  >
+    {children}
+  </button>
+);
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="font-kawaii text-xs font-semibold text-kawaii-purple-700 mb-1">{label}</p>
+    <div className="flex flex-wrap gap-2">{children}</div>
+  </div>
+);
+
+export const OutputSettingsModal: React.FC<OutputSettingsModalProps> = ({
+  settings,
+  format,
+  support,
+  isCanvasLocked,
+  onChange,
+  onReset,
+  onClose,
+}) => {
+  const isSupported = (container: RecordingContainer, videoCodec: RecordingVideoCodec) =>
+    !!support.find(row => row.container === container)?.codecs.find(cell => cell.videoCodec === videoCodec)?.supported;
+
+  const selectContainer = (container: RecordingContainer) => {
+    // Keep the codec when the new container has it, otherwise pick the first one that works there
+    const codecs = Object.keys(VIDEO_CODEC_INFO) as RecordingVideoCodec[];
+    const videoCodec = isSupported(container, settings.videoCodec)
+      ? settings.videoCodec
+      : codecs.find(codec => isSupported(container, codec)) ?? settings.videoCodec;
+    onChange({ container, videoCodec });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-6 border-4 border-kawaii-purple-300 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-kawaii font-bold text-xl text-kawaii-purple-800 flex items-center gap-2">
+            <span className="text-2xl">🎞️</span>
+            Output Settings
+          </h3>
+          <button onClick={onClose} className="text-kawaii-purple-400 hover:text-kawaii-pink-600" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          <div className="bg-white/60 rounded-xl p-4 border-2 border-kawaii-pink-200 space-y-3">
+            <p className="font-kawaii font-semibold text-kawaii-purple-800">Recording Format 🎬</p>
+
+            <Row label="Container">
+              {(Object.keys(CONTAINER_INFO) as RecordingContainer[]).map(container => (
+                <Choice key={container} isSelected={settings.container === container} onClick={() => selectContainer(container)}>
+                  {CONTAINER_INFO[container].name}
+                </Choice>
+              ))}
+            </Row>
+
+            <Row label="Video codec">
+              {(Object.keys(VIDEO_CODEC_INFO) as RecordingVideoCodec[]).map(videoCodec => {
+                const exists = VIDEO_CODEC_INFO[videoCodec].codecs[settings.container] !== null;
+                const supported = isSupported(settings.container, videoCodec);
+                return (
+                  <Choice
+                    key={videoCodec}
+                    isSelected={settings.videoCodec === videoCodec}
+                    disabled={!exists}
+                    title={supported ? 'Supported by this browser' : 'Not supported by this browser'}
+                    onClick={() => onChange({ videoCodec })}
+                  >
+                    {VIDEO_CODEC_INFO[videoCodec].name} {supported ? '✅' : '⚠️'}
+                  </Choice>
+                );
+              })}
+            </Row>
+
+            {/* What this browser's MediaRecorder can write */}
+            <table className="w-full font-kawaii text-xs text-kawaii-purple-700 text-center">
+              <thead>
+                <tr>
+                  <th />
+                  {(Object.keys(VIDEO_CODEC_INFO) as RecordingVideoCodec[]).map(videoCodec => (
+                    <th key={videoCodec} className="font-semibold">{VIDEO_CODEC_INFO[videoCodec].name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {support.map(row => (
+                  <tr key={row.container}>
+                    <td className="text-left font-semibold">{CONTAINER_INFO[row.container].name}</td>
+                    {row.codecs.map(cell => (
+                      <td key={cell.videoCodec}>{!cell.available ? '—' : cell.supported ? '✅' : '❌'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {format.isFallback && (
+              <div className="bg-kawaii-pink-50 p-3 rounded-xl border-2 border-kawaii-pink-300">
+                <p className="font-kawaii text-xs text-kawaii-purple-800">
+                  ⚠️ This browser can't record {describeFormat(settings.container, settings.videoCodec)}, so recordings will use{' '}
+                  <strong>{describeFormat(format.container, format.videoCodec)}</strong> instead.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white/60 rounded-xl p-4 border-2 border-kawaii-pink-200 space-y-3">
+            <p className="font-kawaii font-semibold text-kawaii-purple-800">Bitrate 📶</p>
+
+            <Row label="Mode">
+              <Choice isSelected={settings.bitrateMode === 'variable'} onClick={() => onChange({ bitrateMode: 'variable' })}>
+                Variable
+              </Choice>
+              <Choice isSelected={settings.bitrateMode === 'constant'} onClick={() => onChange({ bitrateMode: 'constant' })}>
+                Constant
+              </Choice>
+            </Row>
+
+            <label className="grid grid-cols-[6rem_1fr_5rem] items-center gap-2">
+              <span className="font-kawaii text-xs text-kawaii-purple-700">Video</span>
+              <input
+                type="range"
+                min={500}
+                max={50000}
+                step={500}
+                value={settings.videoBitrateKbps}
+                onChange={(e) => onChange({ videoBitrateKbps: parseInt(e.target.value) })}
+                className="w-full h-1 cursor-pointer accent-kawaii-pink-500"
+              />
+              <span className="font-kawaii text-xs text-kawaii-purple-800 tabular-nums text-right">
+                {(settings.videoBitrateKbps / 1000).toFixed(1)} Mbps
+              </span>
+            </label>
+
+            <Row label="Audio">
+              {AUDIO_BITRATE_PRESETS.map(kbps => (
+                <Choice key={kbps} isSelected={settings.audioBitrateKbps === kbps} onClick={() => onChange({ audioBitrateKbps: kbps })}>
+                  {kbps} kbps
+                </Choice>
+              ))}
+            </Row>
+          </div>
+
+          <div className="bg-white/60 rounded-xl p-4 border-2 border-kawaii-pink-200 space-y-3">
+            <p className="font-kawaii font-semibold text-kawaii-purple-800">Video 🖼️</p>
+
+            <Row label="Output resolution">
+              {RESOLUTION_PRESETS.map(preset => (
+                <Choice
+                  key={preset.name}
+                  isSelected={settings.width === preset.width && settings.height === preset.height}
+                  disabled={isCanvasLocked}
+                  onClick={() => onChange({ width: preset.width, height: preset.height })}
+                >
+                  {preset.name}
+                </Choice>
+              ))}
+            </Row>
+
+            <Row label="Frame rate">
+              {FPS_PRESETS.map(fps => (
+                <Choice key={fps} isSelected={settings.fps === fps} disabled={isCanvasLocked} onClick={() => onChange({ fps })}>
+                  {fps} fps
+                </Choice>
+              ))}
+            </Row>
+
+            <Row label="Scaling">
+              {(Object.keys(SCALE_QUALITY_INFO) as ImageSmoothingQuality[]).map(quality => (
+                <Choice
+                  key={quality}
+                  isSelected={settings.scaleQuality === quality}
+                  disabled={isCanvasLocked}
+                  onClick={() => onChange({ scaleQuality: quality })}
+                >
+                  {SCALE_QUALITY_INFO[quality]}
+                </Choice>
+              ))}
+            </Row>
+
+            <p className="font-kawaii text-xs text-kawaii-purple-500">
+              {isCanvasLocked
+                ? '🔒 Stop streaming and recording to change the canvas.'
+                : 'Every scene is scaled to this canvas, which feeds both the stream and the recording. Screen sharing asks for the same size next time you start it.'}
+            </p>
+          </div>
+
+          <div className="bg-white/60 rounded-xl p-4 border-2 border-kawaii-pink-200 space-y-3">
+            <p className="font-kawaii font-semibold text-kawaii-purple-800">File Splitting ✂️</p>
+
+            <Row label="Start a new file">
+              {(Object.keys(SPLIT_MODE_INFO) as SplitMode[]).map(splitMode => (
+                <Choice key={splitMode} isSelected={settings.splitMode === splitMode} onClick={() => onChange({ splitMode })}>
+                  {SPLIT_MODE_INFO[splitMode]}
+                </Choice>
+              ))}
+            </Row>
+
+            {settings.splitMode !== 'off' && (
+              <label className="flex items-center gap-2 font-kawaii text-xs text-kawaii-purple-700">
+                Every
+                {/* Applied on blur so typing isn't clamped digit by digit; the key resets it to the saved value */}
+                <input
+                  key={`${settings.splitMode}-${settings.splitMinutes}-${settings.splitMegabytes}`}
+                  type="number"
+                  min={settings.splitMode === 'duration' ? 1 : 50}
+                  defaultValue={settings.splitMode === 'duration' ? settings.splitMinutes : settings.splitMegabytes}
+                  onBlur={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (isNaN(value)) return;
+                    onChange(settings.splitMode === 'duration' ? { splitMinutes: value } : { splitMegabytes: value });
+                  }}
+                  className="w-24 p-1 rounded-lg border-2 border-kawaii-pink-300 bg-white/80 focus:border-kawaii-purple-400 focus:outline-none tabular-nums"
+                />
+                {settings.splitMode === 'duration' ? 'minutes' : 'MB'}
+              </label>
+            )}
+
+            <p className="font-kawaii text-xs text-kawaii-purple-500">
+              Parts are numbered and share a session id. Each one overlaps the next by a few frames, so nothing is lost at the cut 🎀
+            </p>
+          </div>
+
+          <div className="bg-white/60 rounded-xl p-4 border-2 border-kawaii-pink-200 space-y-3">
+            <p className="font-kawaii font-semibold text-kawaii-purple-800">Replay Buffer 🔁</p>
+
+            <label className="grid grid-cols-[6rem_1fr_5rem] items-center gap-2">
+              <span className="font-kawaii text-xs text-kawaii-purple-700">Length</span>
+              <input
+                type="range"
+                min={5}
+                max={600}
+                step={5}
+                value={settings.replaySeconds}
+                disabled={isCanvasLocked}
+                onChange={(e) => onChange({ replaySeconds: parseInt(e.target.value) })}
+                className="w-full h-1 cursor-pointer accent-kawaii-pink-500"
+              />
+              <span className="font-kawaii text-xs text-kawaii-purple-800 tabular-nums text-right">
+                {settings.replaySeconds} s
+              </span>
+            </label>
+
+            <label className="grid grid-cols-[6rem_1fr_5rem] items-center gap-2">
+              <span className="font-kawaii text-xs text-kawaii-purple-700">Memory cap</span>
+              <input
+                type="range"
+                min={50}
+                max={4000}
+                step={50}
+                value={settings.replayMaxMegabytes}
+                disabled={isCanvasLocked}
+                onChange={(e) => onChange({ replayMaxMegabytes: parseInt(e.target.value) })}
+                className="w-full h-1 cursor-pointer accent-kawaii-pink-500"
+              />
+              <span className="font-kawaii text-xs text-kawaii-purple-800 tabular-nums text-right">
+                {settings.replayMaxMegabytes} MB
+              </span>
+            </label>
+
+            <p className="font-kawaii text-xs text-kawaii-purple-500">
+              Saved replays hold at least this many seconds and up to twice as many.
+              At {(settings.videoBitrateKbps / 1000).toFixed(1)} Mbps that needs about{' '}
+              {Math.ceil((settings.replaySeconds * 2 * (settings.videoBitrateKbps + settings.audioBitrateKbps)) / 8 / 1000)} MB;
+              past the cap the replay gets shorter 💾
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-3 justify-center">
+          <KawaiiButton onClick={onReset} emoji="🔄" variant="secondary" size="sm" disabled={isCanvasLocked}>
+            Reset
+          </KawaiiButton>
+          <KawaiiButton onClick={onClose} emoji="💖" variant="success" size="sm">
+            Done
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
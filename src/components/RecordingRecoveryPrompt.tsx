@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { KawaiiButton } from './KawaiiButton';
+import { UnfinishedRecording } from '../utils/recordingStorage';
+
+interface RecordingRecoveryPromptProps {
+  recordings: UnfinishedRecording[];
+  folderName: string | null;
+  onRecover: (recording: UnfinishedRecording) => Promise<void>;
+  onDiscard: (recording: UnfinishedRecording) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const RecordingRecoveryPrompt: React.FC<RecordingRecoveryPromptProps> = ({
+  recordings,
+  folderName,
+  onRecover,
+  onDiscard,
+  onClose,
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (recording: UnfinishedRecording, action: (recording: UnfinishedRecording) => Promise<void>) => {
+    setBusyId(recording.id);
+    try {
+      await action(recording);
+    } catch (error) {
+      console.error('❌ Recording recovery failed:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-pink-300 shadow-2xl max-w-lg w-full">
+        <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-2 text-center flex items-center justify-center gap-2">
+          <span className="text-3xl">🩹</span>
+          Unfinished Recordings
+          <span className="text-3xl">💾</span>
+        </h3>
+        <p className="font-kawaii text-sm text-kawaii-purple-600 text-center mb-6">
+          The studio closed while {recordings.length === 1 ? 'this recording was' : 'these recordings were'} still going.
+          Everything up to the last second was saved, so you can keep it! ✨
+        </p>
+
+        <div className="space-y-3 mb-6 max-h-72 overflow-y-auto">
+          {recordings.map(recording => (
+            <div
+              key={recording.id}
+              className="bg-kawaii-pink-50 p-3 rounded-xl border-2 border-kawaii-pink-200 flex items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <p className="font-kawaii font-semibold text-kawaii-purple-800 text-sm truncate">
+                  🎬 {new Date(recording.startedAt).toLocaleString()}
+                </p>
+                <p className="font-kawaii text-xs text-kawaii-purple-500">
+                  {formatSize(recording.size)}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <KawaiiButton
+                  onClick={() => run(recording, onRecover)}
+                  emoji="💾"
+                  variant="success"
+                  size="sm"
+                  disabled={busyId !== null}
+                >
+                  {busyId === recording.id ? 'Saving...' : 'Save'}
+                </KawaiiButton>
+                <KawaiiButton
+                  onClick={() => run(recording, onDiscard)}
+                  emoji="🗑️"
+                  variant="danger"
+                  size="sm"
+                  disabled={busyId !== null}
+                >
+                  Discard
+                </KawaiiButton>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="font-kawaii text-xs text-kawaii-purple-500 text-center mb-4">
+          {folderName ? `Saved recordings go to 📁 ${folderName}` : 'Saved recordings are downloaded'}.
+          The length and seeking info are filled in as they're saved 🌟
+        </p>
+
+        <div className="flex justify-center">
+          <KawaiiButton onClick={onClose} emoji="⏰" variant="secondary" size="sm">
+            Decide Later
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
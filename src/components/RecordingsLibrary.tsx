@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { KawaiiButton } from './KawaiiButton';
+import { LibraryRecording, describeMimeType, resolveVideoDuration } from '../utils/recordingLibrary';
+import { formatChapterTime, sortMarkers, toYouTubeChapters } from '../utils/chapterMarkers';
+
+interface RecordingsLibraryProps {
+  recordings: LibraryRecording[];
+  folderName: string | null;
+  onRead: (recording: LibraryRecording) => Promise<File>;
+  onRename: (recording: LibraryRecording, name: string) => Promise<void>;
+  onDelete: (recording: LibraryRecording) => Promise<void>;
+  onExport: (recording: LibraryRecording) => Promise<unknown>;
+  onTrim: (recording: LibraryRecording, startSeconds: number, endSeconds: number, onProgress: (progress: number) => void) => Promise<void>;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = whole % 60;
+  const tenths = Math.floor((seconds - whole) * 10);
+  return `${h > 0 ? `${h}:${m.toString().padStart(2, '0')}` : m}:${s.toString().padStart(2, '0')}.${tenths}`;
+};
+
+const formatDuration = (ms: number | null) => (ms === null ? '--:--' : formatTime(ms / 1000).replace(/\.\d$/, ''));
+
+// Shortest clip worth exporting
+const MIN_TRIM_SECONDS = 0.5;
+
+export const RecordingsLibrary: React.FC<RecordingsLibraryProps> = ({
+  recordings,
+  folderName,
+  onRead,
+  onRename,
+  onDelete,
+  onExport,
+  onTrim,
+  onError,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [busy, setBusy] = useState<'export' | 'trim' | 'delete' | null>(null);
+  const [trimProgress, setTrimProgress] = useState(0);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Falls back to the newest recording, e.g. after the selected one is deleted
+  const selected = recordings.find(recording => recording.id === selectedId) ?? recordings[0] ?? null;
+  const selectedRef = useRef(selected);
+  selectedRef.current = selected;
+  const activeId = selected?.id ?? null;
+
+  useEffect(() => {
+    navigator.storage?.estimate?.().then(setStorage).catch(() => undefined);
+  }, [recordings.length]);
+
+  // Renaming changes the entry but not the file, so only a different recording reloads the player
+  useEffect(() => {
+    const recording = selectedRef.current;
+    if (!recording) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    setDuration(null);
+    setTrimStart(0);
+    setTrimEnd(0);
+
+    onRead(recording)
+      .then(file => {
+        if (cancelled) return;
+        url = URL.createObjectURL(file);
+        setVideoUrl(url);
+      })
+      .catch(error => {
+        console.error('❌ Could not open the recording:', error);
+        onError('📚 That recording could not be opened, it may have been removed by the browser');
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setVideoUrl(null);
+    };
+  }, [activeId, onRead, onError]);
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    resolveVideoDuration(video)
+      .then(seconds => {
+        setDuration(seconds);
+        setTrimEnd(seconds ?? 0);
+      })
+      .catch(error => console.warn('⚠️ Could not read the recording length:', error));
+  };
+
+  const run = async (action: 'export' | 'trim' | 'delete', task: () => Promise<unknown>, failure: string) => {
+    setBusy(action);
+    try {
+      await task();
+    } catch (error) {
+      console.error(`❌ Recording ${action} failed:`, error);
+      onError(failure);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRename = (name: string) => {
+    const trimmed = name.trim();
+    if (!selected || !trimmed || trimmed === selected.name) return;
+    onRename(selected, trimmed).catch(error => {
+      console.error('❌ Could not rename the recording:', error);
+      onError('📚 Could not rename that recording');
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete "${selected.name}" from the library? This can't be undone 🥺`)) return;
+    run('delete', () => onDelete(selected), '📚 Could not delete that recording');
+  };
+
+  const handleTrim = () => {
+    if (!selected) return;
+    videoRef.current?.pause();
+    setTrimProgress(0);
+    run('trim', () => onTrim(selected, trimStart, trimEnd, setTrimProgress), '✂️ Trimming failed, the original recording is unchanged');
+  };
+
+  const handleCopyChapters = async () => {
+    if (!selected?.markers?.length) return;
+    try {
+      await navigator.clipboard.writeText(toYouTubeChapters(selected.markers));
+      console.log('📋 Copied YouTube chapters');
+    } catch (error) {
+      console.error('❌ Could not copy chapters:', error);
+      onError('📋 Could not copy the chapters to the clipboard');
+    }
+  };
+
+  const canTrim = duration !== null && trimEnd - trimStart >= MIN_TRIM_SECONDS
+    && (trimStart > 0 || trimEnd < duration);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-pink-300 shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-6 text-center flex items-center justify-center gap-2">
+          <span className="text-3xl">📚</span>
+          Recordings
+          <span className="text-3xl">🎬</span>
+        </h3>
+
+        {recordings.length === 0 ? (
+          <p className="font-kawaii text-kawaii-purple-600 text-center py-12">
+            No recordings yet! Hit Record and they'll show up here ✨
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-[18rem_1fr] gap-6 mb-6">
+            {/* List */}
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+              {recordings.map(recording => (
+                <button
+                  key={recording.id}
+                  onClick={() => setSelectedId(recording.id)}
+                  className={`w-full text-left p-2 rounded-xl border-2 flex gap-3 items-center transition-colors ${
+                    recording.id === activeId
+                      ? 'bg-kawaii-purple-100 border-kawaii-purple-400'
+                      : 'bg-kawaii-pink-50 border-kawaii-pink-200 hover:border-kawaii-pink-400'
+                  }`}
+                >
+                  <div className="w-24 aspect-video rounded-lg overflow-hidden bg-kawaii-purple-200 flex-shrink-0 flex items-center justify-center">
+                    {recording.thumbnail
+                      ? <img src={recording.thumbnail} alt="" className="w-full h-full object-cover" />
+                      : <span className="text-2xl">🎬</span>}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-kawaii font-semibold text-kawaii-purple-800 text-sm truncate">{recording.name}</p>
+                    <p className="font-kawaii text-xs text-kawaii-purple-500">
+                      {new Date(recording.createdAt).toLocaleString()}
+                    </p>
+                    <p className="font-kawaii text-xs text-kawaii-purple-500">
+                      ⏱️ {formatDuration(recording.durationMs)} · {formatSize(recording.size)}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Player and details */}
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="bg-black rounded-xl overflow-hidden aspect-video">
+                  {videoUrl && (
+                    <video
+                      ref={videoRef}
+                      src={videoUrl}
+                      controls
+                      className="w-full h-full"
+                      onLoadedMetadata={handleLoadedMetadata}
+                    />
+                  )}
+                </div>
+
+                <input
+                  key={selected.id}
+                  defaultValue={selected.name}
+                  onBlur={(e) => handleRename(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="w-full p-2 rounded-xl border-2 border-kawaii-pink-300 font-kawaii font-semibold text-kawaii-purple-800 bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+                  aria-label="Recording name"
+                />
+
+                <div className="flex flex-wrap gap-2 font-kawaii text-xs">
+                  <span className="bg-kawaii-purple-100 text-kawaii-purple-700 px-2 py-1 rounded-full">🎞️ {describeMimeType(selected.mimeType)}</span>
+                  <span className="bg-kawaii-purple-100 text-kawaii-purple-700 px-2 py-1 rounded-full">⏱️ {formatDuration(selected.durationMs)}</span>
+                  <span className="bg-kawaii-purple-100 text-kawaii-purple-700 px-2 py-1 rounded-full">💾 {formatSize(selected.size)}</span>
+                  {selected.part && (
+                    <span className="bg-kawaii-purple-100 text-kawaii-purple-700 px-2 py-1 rounded-full">✂️ Part {selected.part}</span>
+                  )}
+                  {selected.scenes.map(scene => (
+                    <span key={scene} className="bg-kawaii-pink-100 text-kawaii-pink-700 px-2 py-1 rounded-full">🎭 {scene}</span>
+                  ))}
+                </div>
+
+                {/* Chapters */}
+                {selected.markers && selected.markers.length > 0 && (
+                  <div className="bg-kawaii-purple-50 p-3 rounded-xl border-2 border-kawaii-purple-200 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-kawaii text-sm text-kawaii-purple-700 font-semibold">🔖 Chapters</span>
+                      <KawaiiButton onClick={handleCopyChapters} emoji="📋" variant="secondary" size="sm">
+                        Copy for YouTube
+                      </KawaiiButton>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {sortMarkers(selected.markers).map((marker, index) => (
+                        <button
+                          key={`${marker.timeMs}-${index}`}
+                          onClick={() => {
+                            if (videoRef.current) videoRef.current.currentTime = marker.timeMs / 1000;
+                          }}
+                          className="font-kawaii text-xs bg-white text-kawaii-purple-700 px-2 py-1 rounded-full border border-kawaii-purple-200 hover:border-kawaii-purple-400"
+                        >
+                          {formatChapterTime(marker.timeMs)} {marker.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Trim */}
+                <div className="bg-kawaii-pink-50 p-3 rounded-xl border-2 border-kawaii-pink-200 space-y-2">
+                  <div className="flex items-center justify-between font-kawaii text-sm text-kawaii-purple-700 font-semibold">
+                    <span>✂️ Trim</span>
+                    <span className="text-xs font-normal">
+                      {formatTime(trimStart)} → {formatTime(trimEnd)}
+                    </span>
+                  </div>
+                  {duration === null ? (
+                    <p className="font-kawaii text-xs text-kawaii-purple-500">Loading the recording length...</p>
+                  ) : (
+                    <>
+                      <label className="flex items-center gap-2 font-kawaii text-xs text-kawaii-purple-600">
+                        <span className="w-8">In</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={duration}
+                          step={0.1}
+                          value={trimStart}
+                          onChange={(e) => setTrimStart(Math.min(Number(e.target.value), trimEnd))}
+                          disabled={busy !== null}
+                          className="flex-1 accent-kawaii-pink-500"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2 font-kawaii text-xs text-kawaii-purple-600">
+                        <span className="w-8">Out</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={duration}
+                          step={0.1}
+                          value={trimEnd}
+                          onChange={(e) => setTrimEnd(Math.max(Number(e.target.value), trimStart))}
+                          disabled={busy !== null}
+                          className="flex-1 accent-kawaii-pink-500"
+                        />
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        <KawaiiButton
+                          onClick={() => setTrimStart(Math.min(videoRef.current?.currentTime ?? 0, trimEnd))}
+                          emoji="⏮️"
+                          variant="secondary"
+                          size="sm"
+                          disabled={busy !== null}
+                        >
+                          Set In
+                        </KawaiiButton>
+                        <KawaiiButton
+                          onClick={() => setTrimEnd(Math.max(videoRef.current?.currentTime ?? duration, trimStart))}
+                          emoji="⏭️"
+                          variant="secondary"
+                          size="sm"
+                          disabled={busy !== null}
+                        >
+                          Set Out
+                        </KawaiiButton>
+                        <KawaiiButton
+                          onClick={handleTrim}
+                          emoji="✂️"
+                          variant="primary"
+                          size="sm"
+                          disabled={busy !== null || !canTrim}
+                        >
+                          {busy === 'trim' ? `Trimming ${Math.round(trimProgress * 100)}%` : 'Save Trimmed Copy'}
+                        </KawaiiButton>
+                      </div>
+                      <p className="font-kawaii text-xs text-kawaii-purple-500">
+                        The clip plays through once while it's saved, so this takes as long as the clip 🌟
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2 justify-end">
+                  <KawaiiButton
+                    onClick={() => run('export', () => onExport(selected), '💾 Could not export that recording')}
+                    emoji="💾"
+                    variant="success"
+                    size="sm"
+                    disabled={busy !== null}
+                  >
+                    {busy === 'export' ? 'Exporting...' : folderName ? `Export to ${folderName}` : 'Download'}
+                  </KawaiiButton>
+                  <KawaiiButton
+                    onClick={handleDelete}
+                    emoji="🗑️"
+                    variant="danger"
+                    size="sm"
+                    disabled={busy !== null}
+                  >
+                    Delete
+                  </KawaiiButton>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <p className="font-kawaii text-xs text-kawaii-purple-500">
+            {storage?.usage !== undefined && storage.quota
+              ? `Using ${formatSize(storage.usage)} of ${formatSize(storage.quota)} browser storage 💾`
+              : 'Recordings are kept in browser storage 💾'}
+          </p>
+          <KawaiiButton onClick={onClose} emoji="❌" variant="danger" size="sm">
+            Close
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
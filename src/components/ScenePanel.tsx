@@ -0,0 +1,475 @@
+import React, { useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, Copy, Eye, EyeOff, Plus, Trash2 } from 'lucide-react';
+import { Scene, SceneSource, SceneSourceKind, SceneTransition, SOURCE_KIND_INFO } from '../utils/scenes';
+import { LayerCrop, LayerRect, TransitionKind } from '../utils/compositor';
+import { CHROMA_KEY_PRESETS, ChromaKeySettings, DEFAULT_CHROMA_KEY, getChromaKeyMode } from '../utils/chromaKey';
+
+interface ScenePanelProps {
+  scenes: Scene[];
+  activeScene: Scene;
+  // Set in studio mode, where the scene on air can differ from the one being edited
+  programSceneId?: string;
+  selectedSource: SceneSource | null;
+  transition: SceneTransition;
+  onSwitchScene: (id: string) => void;
+  onAddScene: (name: string) => void;
+  onDuplicateScene: (id: string) => void;
+  onRenameScene: (id: string, name: string) => void;
+  onRemoveScene: (id: string) => void;
+  onSelectSource: (id: string | null) => void;
+  onAddSource: (kind: SceneSourceKind, overrides?: Partial<SceneSource>) => SceneSource;
+  onUpdateSource: (id: string, changes: Partial<SceneSource>) => void;
+  onRemoveSource: (id: string) => void;
+  onMoveSource: (id: string, direction: 1 | -1) => void;
+  onSetSourceMedia: (id: string, file: File) => void;
+  hasSourceMedia: (id: string) => boolean;
+  // Cameras a Camera source can show besides the main one
+  cameraOptions: { id: string; name: string }[];
+  onTransitionChange: (transition: SceneTransition) => void;
+  onExportCollection: () => void;
+  onImportCollection: (file: File) => void;
+}
+
+const TRANSITION_OPTIONS: { kind: TransitionKind; label: string }[] = [
+  { kind: 'cut', label: '✂️ Cut' },
+  { kind: 'fade', label: '🌫️ Fade' },
+  { kind: 'wipe', label: '💖 Kawaii Wipe' },
+];
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const PercentSlider: React.FC<{
+  label: string;
+  value: number;
+  max?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, max = 1, onChange }) => (
+  <label className="grid grid-cols-[4.5rem_1fr_3rem] items-center gap-2">
+    <span className="font-kawaii text-xs text-kawaii-purple-700">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={max}
+      step={0.005}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 cursor-pointer accent-kawaii-pink-500"
+    />
+    <span className="font-kawaii text-xs text-kawaii-purple-800 tabular-nums text-right">{Math.round(value * 100)}%</span>
+  </label>
+);
+
+export const ScenePanel: React.FC<ScenePanelProps> = ({
+  scenes,
+  activeScene,
+  programSceneId,
+  selectedSource,
+  transition,
+  onSwitchScene,
+  onAddScene,
+  onDuplicateScene,
+  onRenameScene,
+  onRemoveScene,
+  onSelectSource,
+  onAddSource,
+  onUpdateSource,
+  onRemoveSource,
+  onMoveSource,
+  onSetSourceMedia,
+  hasSourceMedia,
+  cameraOptions,
+  onTransitionChange,
+  onExportCollection,
+  onImportCollection,
+}) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const collectionInputRef = useRef<HTMLInputElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  // Which source a picked file belongs to; null means "create a new source"
+  const [fileTargetId, setFileTargetId] = useState<string | null>(null);
+  const [newSceneName, setNewSceneName] = useState('');
+
+  const pickFile = (kind: 'image' | 'media', targetId: string | null = null) => {
+    setFileTargetId(targetId);
+    (kind === 'image' ? imageInputRef : mediaInputRef).current?.click();
+  };
+
+  const handleAddSource = (kind: SceneSourceKind) => {
+    if (kind === 'image' || kind === 'media') {
+      pickFile(kind);
+    } else {
+      onAddSource(kind);
+    }
+  };
+
+  const handleImageFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const imageUrl = await readFileAsDataUrl(file);
+    const name = file.name.replace(/\.[^.]+$/, '');
+    if (fileTargetId) {
+      onUpdateSource(fileTargetId, { imageUrl });
+    } else {
+      onAddSource('image', { name, imageUrl });
+    }
+  };
+
+  const handleMediaFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const id = fileTargetId ?? onAddSource('media', { name: file.name.replace(/\.[^.]+$/, '') }).id;
+    onSetSourceMedia(id, file);
+  };
+
+  const handleCollectionFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImportCollection(file);
+  };
+
+  const handleAddScene = () => {
+    const name = newSceneName.trim() || `Scene ${scenes.length + 1}`;
+    onAddScene(name);
+    setNewSceneName('');
+  };
+
+  const updateRect = (changes: Partial<LayerRect>) => {
+    if (selectedSource) onUpdateSource(selectedSource.id, { rect: { ...selectedSource.rect, ...changes } });
+  };
+
+  const updateCrop = (changes: Partial<LayerCrop>) => {
+    if (selectedSource) onUpdateSource(selectedSource.id, { crop: { ...selectedSource.crop, ...changes } });
+  };
+
+  // The first change to a camera without keying starts from the defaults
+  const updateChromaKey = (changes: Partial<ChromaKeySettings>) => {
+    if (selectedSource) onUpdateSource(selectedSource.id, { chromaKey: { ...(selectedSource.chromaKey ?? DEFAULT_CHROMA_KEY), ...changes } });
+  };
+
+  // Listed top-most first, like a layer stack
+  const stackedSources = [...activeScene.sources].reverse();
+
+  return (
+    <div className="bg-white/20 backdrop-blur-kawaii rounded-2xl p-6 border-2 border-kawaii-pink-300 shadow-lg">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+        <h3 className="font-kawaii font-bold text-kawaii-purple-800 flex items-center gap-2">
+          <span className="text-xl">🎬</span>
+          Scenes
+        </h3>
+        <div className="flex items-center gap-2 flex-wrap">
+          {TRANSITION_OPTIONS.map(option => (
+            <button
+              key={option.kind}
+              onClick={() => onTransitionChange({ ...transition, kind: option.kind })}
+              className={`rounded-full px-3 py-1 text-xs font-kawaii font-semibold border-2 transition-all ${transition.kind === option.kind ? 'bg-kawaii-pink-500 text-white border-kawaii-pink-300' : 'bg-white/80 text-kawaii-purple-700 border-kawaii-pink-200'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 font-kawaii text-xs text-kawaii-purple-700">
+            <input
+              type="range"
+              min={100}
+              max={3000}
+              step={100}
+              value={transition.durationMs}
+              disabled={transition.kind === 'cut'}
+              onChange={(e) => onTransitionChange({ ...transition, durationMs: parseInt(e.target.value) })}
+              className="w-24 h-1 cursor-pointer accent-kawaii-purple-500"
+              aria-label="Transition duration"
+            />
+            <span className="tabular-nums w-10">{(transition.durationMs / 1000).toFixed(1)}s</span>
+          </label>
+          <button
+            onClick={onExportCollection}
+            className="rounded-full px-3 py-1 text-xs font-kawaii font-semibold bg-kawaii-purple-500 hover:bg-kawaii-purple-600 text-white shadow transition-all"
+            title="Save scenes, sources, filters, mixer and output settings as a JSON file 📦"
+          >
+            📤 Export
+          </button>
+          <button
+            onClick={() => collectionInputRef.current?.click()}
+            className="rounded-full px-3 py-1 text-xs font-kawaii font-semibold bg-kawaii-purple-500 hover:bg-kawaii-purple-600 text-white shadow transition-all"
+            title="Load a scene collection JSON file 📦"
+          >
+            📥 Import
+          </button>
+          <input ref={collectionInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleCollectionFile} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Scene list */}
+        <div className="space-y-2">
+          {scenes.map(scene => (
+            <div
+              key={scene.id}
+              className={`flex items-center gap-1 rounded-xl border-2 px-2 py-1 transition-all ${scene.id === activeScene.id ? 'bg-kawaii-pink-400 border-kawaii-pink-300 text-white' : 'bg-white/60 border-kawaii-pink-200 text-kawaii-purple-800'}`}
+            >
+              <button
+                onClick={() => onSwitchScene(scene.id)}
+                className="flex-1 text-left font-kawaii text-sm font-semibold truncate py-1"
+                title="Switch to this scene"
+              >
+                {scene.id === programSceneId && <span title="On air">🔴 </span>}
+                {scene.name}
+              </button>
+              <button onClick={() => onDuplicateScene(scene.id)} className="p-1 opacity-70 hover:opacity-100" title="Duplicate scene">
+                <Copy size={14} />
+              </button>
+              <button
+                onClick={() => onRemoveScene(scene.id)}
+                disabled={scenes.length <= 1}
+                className="p-1 opacity-70 hover:opacity-100 disabled:opacity-30"
+                title="Delete scene"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              value={newSceneName}
+              onChange={(e) => setNewSceneName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddScene()}
+              placeholder="New scene name"
+              className="flex-1 min-w-0 px-3 py-1 rounded-xl border-2 border-kawaii-pink-200 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+            />
+            <button
+              onClick={handleAddScene}
+              className="bg-kawaii-purple-500 hover:bg-kawaii-purple-600 text-white rounded-full p-2 shadow transition-all"
+              title="Add scene"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+
+        {/* Sources of the active scene */}
+        <div className="space-y-2">
+          <input
+            value={activeScene.name}
+            onChange={(e) => onRenameScene(activeScene.id, e.target.value)}
+            className="w-full px-3 py-1 rounded-xl border-2 border-kawaii-pink-200 font-kawaii font-semibold text-sm text-kawaii-purple-800 bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+            aria-label="Scene name"
+          />
+          {stackedSources.length === 0 && (
+            <p className="font-kawaii text-xs text-kawaii-purple-600 text-center py-4">
+              Empty scene! Add a source below 🌟
+            </p>
+          )}
+          {stackedSources.map(source => (
+            <div
+              key={source.id}
+              onClick={() => onSelectSource(source.id)}
+              className={`flex items-center gap-1 rounded-xl border-2 px-2 py-1 cursor-pointer transition-all ${selectedSource?.id === source.id ? 'bg-kawaii-purple-100 border-kawaii-purple-400' : 'bg-white/60 border-kawaii-pink-200'}`}
+            >
+              <span className="text-sm">{SOURCE_KIND_INFO[source.kind].emoji}</span>
+              <span className={`flex-1 font-kawaii text-xs text-kawaii-purple-800 truncate ${source.visible ? '' : 'line-through opacity-60'}`}>
+                {source.name}
+                {source.kind === 'media' && !hasSourceMedia(source.id) && ' (pick file)'}
+              </span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdateSource(source.id, { visible: !source.visible }); }}
+                className="p-1 text-kawaii-purple-600"
+                title={source.visible ? 'Hide' : 'Show'}
+              >
+                {source.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onMoveSource(source.id, 1); }} className="p-1 text-kawaii-purple-600" title="Move up">
+                <ChevronUp size={14} />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onMoveSource(source.id, -1); }} className="p-1 text-kawaii-purple-600" title="Move down">
+                <ChevronDown size={14} />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onRemoveSource(source.id); }} className="p-1 text-kawaii-purple-600 hover:text-red-500" title="Remove source">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-1 pt-1">
+            {(Object.keys(SOURCE_KIND_INFO) as SceneSourceKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => handleAddSource(kind)}
+                className="rounded-full px-2 py-1 text-xs font-kawaii bg-white/80 border-2 border-kawaii-pink-200 text-kawaii-purple-700 hover:border-kawaii-pink-400 transition-all"
+                title={`Add ${SOURCE_KIND_INFO[kind].name.toLowerCase()} source`}
+              >
+                + {SOURCE_KIND_INFO[kind].emoji} {SOURCE_KIND_INFO[kind].name}
+              </button>
+            ))}
+          </div>
+          <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageFile} />
+          <input ref={mediaInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleMediaFile} />
+        </div>
+
+        {/* Selected source properties */}
+        <div className="space-y-2">
+          {!selectedSource ? (
+            <p className="font-kawaii text-xs text-kawaii-purple-600 text-center py-4">
+              Pick a source to move, resize or crop it ✨
+            </p>
+          ) : (
+            <>
+              <input
+                value={selectedSource.name}
+                onChange={(e) => onUpdateSource(selectedSource.id, { name: e.target.value })}
+                className="w-full px-3 py-1 rounded-xl border-2 border-kawaii-pink-200 font-kawaii text-sm text-kawaii-purple-800 bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+                aria-label="Source name"
+              />
+              {selectedSource.kind === 'camera' && (
+                <select
+                  value={selectedSource.deviceId ?? ''}
+                  onChange={(e) => onUpdateSource(selectedSource.id, { deviceId: e.target.value || undefined })}
+                  className="w-full px-2 py-1 rounded-xl border-2 border-kawaii-pink-200 font-kawaii text-xs bg-white/80"
+                  aria-label="Camera"
+                >
+                  <option value="">📷 Main camera</option>
+                  {cameraOptions.map(camera => (
+                    <option key={camera.id} value={camera.id}>🎥 {camera.name}</option>
+                  ))}
+                  {selectedSource.deviceId && !cameraOptions.some(camera => camera.id === selectedSource.deviceId) && (
+                    <option value={selectedSource.deviceId}>🎥 Camera not connected</option>
+                  )}
+                </select>
+              )}
+              <PercentSlider label="X" value={selectedSource.rect.x} onChange={(x) => updateRect({ x })} />
+              <PercentSlider label="Y" value={selectedSource.rect.y} onChange={(y) => updateRect({ y })} />
+              <PercentSlider label="Width" value={selectedSource.rect.width} onChange={(width) => updateRect({ width })} />
+              <PercentSlider label="Height" value={selectedSource.rect.height} onChange={(height) => updateRect({ height })} />
+
+              {(selectedSource.kind === 'screen' || selectedSource.kind === 'camera' || selectedSource.kind === 'image' || selectedSource.kind === 'media') && (
+                <>
+                  <PercentSlider label="Crop top" max={0.45} value={selectedSource.crop.top} onChange={(top) => updateCrop({ top })} />
+                  <PercentSlider label="Crop right" max={0.45} value={selectedSource.crop.right} onChange={(right) => updateCrop({ right })} />
+                  <PercentSlider label="Crop bottom" max={0.45} value={selectedSource.crop.bottom} onChange={(bottom) => updateCrop({ bottom })} />
+                  <PercentSlider label="Crop left" max={0.45} value={selectedSource.crop.left} onChange={(left) => updateCrop({ left })} />
+                  <div className="flex items-center gap-3">
+                    <select
+                      value={selectedSource.fit}
+                      onChange={(e) => onUpdateSource(selectedSource.id, { fit: e.target.value as SceneSource['fit'] })}
+                      className="px-2 py-1 rounded-xl border-2 border-kawaii-pink-200 font-kawaii text-xs bg-white/80"
+                      aria-label="Fit"
+                    >
+                      <option value="contain">Fit inside</option>
+                      <option value="cover">Fill & crop</option>
+                      <option value="stretch">Stretch</option>
+                    </select>
+                    <label className="flex items-center gap-1 font-kawaii text-xs text-kawaii-purple-700">
+                      <input
+                        type="checkbox"
+                        checked={selectedSource.frame === 'kawaii'}
+                        onChange={(e) => onUpdateSource(selectedSource.id, { frame: e.target.checked ? 'kawaii' : 'none' })}
+                        className="w-4 h-4 rounded"
+                      />
+                      Kawaii frame 💖
+                    </label>
+                  </div>
+                </>
+              )}
+
+              {selectedSource.kind === 'camera' && (
+                <div className="space-y-2 pt-1">
+                  <label className="flex items-center gap-1 font-kawaii text-xs text-kawaii-purple-700">
+                    <input
+                      type="checkbox"
+                      checked={!!selectedSource.chromaKey?.enabled}
+                      onChange={(e) => updateChromaKey({ enabled: e.target.checked })}
+                      className="w-4 h-4 rounded"
+                    />
+                    Green screen 💚
+                    {selectedSource.chromaKey?.enabled && (
+                      <span className="ml-auto text-kawaii-purple-500" title={getChromaKeyMode() === 'webgl' ? 'Keyed with WebGL' : 'WebGL is not available, so keying uses the CPU'}>
+                        {getChromaKeyMode() === 'webgl' ? '⚡ GPU' : '🐢 CPU'}
+                      </span>
+                    )}
+                  </label>
+                  {selectedSource.chromaKey?.enabled && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={selectedSource.chromaKey.color}
+                          onChange={(e) => updateChromaKey({ color: e.target.value })}
+                          aria-label="Key color"
+                        />
+                        {CHROMA_KEY_PRESETS.map(preset => (
+                          <button
+                            key={preset.color}
+                            onClick={() => updateChromaKey({ color: preset.color })}
+                            className={`rounded-full px-2 py-0.5 text-xs font-kawaii border-2 ${
+                              selectedSource.chromaKey?.color === preset.color
+                                ? 'bg-kawaii-purple-500 border-kawaii-purple-500 text-white'
+                                : 'bg-white/80 border-kawaii-pink-200 text-kawaii-purple-700 hover:border-kawaii-pink-400'
+                            }`}
+                          >
+                            {preset.name}
+                          </button>
+                        ))}
+                      </div>
+                      <PercentSlider label="Similarity" value={selectedSource.chromaKey.similarity} onChange={(similarity) => updateChromaKey({ similarity })} />
+                      <PercentSlider label="Smoothness" value={selectedSource.chromaKey.smoothness} onChange={(smoothness) => updateChromaKey({ smoothness })} />
+                      <PercentSlider label="Spill" value={selectedSource.chromaKey.spill} onChange={(spill) => updateChromaKey({ spill })} />
+                    </>
+                  )}
+                </div>
+              )}
+
+              {selectedSource.kind === 'text' && (
+                <>
+                  <textarea
+                    value={selectedSource.text || ''}
+                    onChange={(e) => onUpdateSource(selectedSource.id, { text: e.target.value })}
+                    rows={2}
+                    className="w-full px-3 py-1 rounded-xl border-2 border-kawaii-pink-200 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+                    aria-label="Text"
+                  />
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      value={selectedSource.textColor || '#ffffff'}
+                      onChange={(e) => onUpdateSource(selectedSource.id, { textColor: e.target.value })}
+                      aria-label="Text color"
+                    />
+                    <div className="flex-1">
+                      <PercentSlider label="Size" max={0.3} value={selectedSource.textSize || 0.08} onChange={(textSize) => onUpdateSource(selectedSource.id, { textSize: Math.max(0.01, textSize) })} />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {selectedSource.kind === 'color' && (
+                <label className="flex items-center gap-2 font-kawaii text-xs text-kawaii-purple-700">
+                  <input
+                    type="color"
+                    value={selectedSource.color || '#000000'}
+                    onChange={(e) => onUpdateSource(selectedSource.id, { color: e.target.value })}
+                  />
+                  Fill color
+                </label>
+              )}
+
+              {(selectedSource.kind === 'image' || selectedSource.kind === 'media') && (
+                <button
+                  onClick={() => pickFile(selectedSource.kind as 'image' | 'media', selectedSource.id)}
+                  className="rounded-full px-3 py-1 text-xs font-kawaii bg-white/80 border-2 border-kawaii-pink-200 text-kawaii-purple-700 hover:border-kawaii-pink-400"
+                >
+                  📂 {selectedSource.kind === 'media' && selectedSource.mediaName ? `Replace ${selectedSource.mediaName}` : 'Choose file'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { KawaiiButton } from './KawaiiButton';
+import { SCREENSHOT_FORMAT_INFO, Screenshot, ScreenshotFormat, ScreenshotSettings } from '../utils/screenshots';
+
+export interface ScreenshotSourceOption {
+  id: string;
+  name: string;
+}
+
+interface ScreenshotGalleryProps {
+  settings: ScreenshotSettings;
+  onSettingsChange: (changes: Partial<ScreenshotSettings>) => void;
+  sources: ScreenshotSourceOption[];
+  sourceId: string;
+  onSourceChange: (id: string) => void;
+  screenshots: Screenshot[];
+  canCopy: boolean;
+  folderName: string | null;
+  onTake: () => void;
+  onSave: (screenshot: Screenshot) => Promise<unknown>;
+  onCopy: (screenshot: Screenshot) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClear: () => Promise<void>;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({
+  settings,
+  onSettingsChange,
+  sources,
+  sourceId,
+  onSourceChange,
+  screenshots,
+  canCopy,
+  folderName,
+  onTake,
+  onSave,
+  onCopy,
+  onDelete,
+  onClear,
+  onError,
+  onClose,
+}) => {
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  // One object URL per screenshot, released when the gallery changes or closes
+  const urls = useMemo(
+    () => Object.fromEntries(screenshots.map(screenshot => [screenshot.id, URL.createObjectURL(screenshot.blob)])),
+    [screenshots],
+  );
+  useEffect(() => () => Object.values(urls).forEach(url => URL.revokeObjectURL(url)), [urls]);
+
+  const viewing = screenshots.find(screenshot => screenshot.id === viewingId) ?? null;
+  const formatInfo = SCREENSHOT_FORMAT_INFO[settings.format];
+
+  const run = (task: () => Promise<unknown>, failure: string) => {
+    task().catch(error => {
+      console.error('❌ Screenshot action failed:', error);
+      onError(failure);
+    });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(`Delete all ${screenshots.length} screenshots from the gallery? 🥺`)) return;
+    run(onClear, '🖼️ Could not clear the gallery');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-pink-300 shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-6 text-center flex items-center justify-center gap-2">
+          <span className="text-3xl">📸</span>
+          Screenshots
+          <span className="text-3xl">🖼️</span>
+        </h3>
+
+        {/* Settings */}
+        <div className="bg-kawaii-pink-50 p-4 rounded-xl border-2 border-kawaii-pink-200 mb-6 grid sm:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block font-kawaii text-kawaii-purple-700 font-semibold text-sm mb-1">Capture 🎯</span>
+            <select
+              value={sourceId}
+              onChange={(e) => onSourceChange(e.target.value)}
+              className="w-full p-2 rounded-xl border-2 border-kawaii-pink-300 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+            >
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>{source.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <span className="block font-kawaii text-kawaii-purple-700 font-semibold text-sm mb-1">Format 🎨</span>
+            <div className="flex gap-2">
+              {(Object.keys(SCREENSHOT_FORMAT_INFO) as ScreenshotFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onSettingsChange({ format })}
+                  className={`flex-1 px-3 py-2 rounded-xl border-2 font-kawaii text-sm font-semibold transition-colors ${
+                    settings.format === format
+                      ? 'bg-kawaii-purple-500 border-kawaii-purple-500 text-white'
+                      : 'bg-white/80 border-kawaii-pink-300 text-kawaii-purple-700 hover:border-kawaii-purple-400'
+                  }`}
+                >
+                  {SCREENSHOT_FORMAT_INFO[format].name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className={`block ${formatInfo.hasQuality ? '' : 'opacity-50'}`}>
+            <span className="block font-kawaii text-kawaii-purple-700 font-semibold text-sm mb-1">
+              Quality: {formatInfo.hasQuality ? `${settings.quality}%` : 'Lossless'} ✨
+            </span>
+            <input
+              type="range"
+              min="1"
+              max="100"
+              value={settings.quality}
+              disabled={!formatInfo.hasQuality}
+              onChange={(e) => onSettingsChange({ quality: parseInt(e.target.value) })}
+              className="w-full h-2 bg-kawaii-pink-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 font-kawaii text-sm text-kawaii-purple-700">
+              <input
+                type="checkbox"
+                className="w-4 h-4 text-kawaii-pink-500 rounded"
+                checked={settings.copyToClipboard && canCopy}
+                disabled={!canCopy}
+                onChange={(e) => onSettingsChange({ copyToClipboard: e.target.checked })}
+              />
+              Copy to clipboard 📋
+            </label>
+            <label className="flex items-center gap-2 font-kawaii text-sm text-kawaii-purple-700">
+              <input
+                type="checkbox"
+                className="w-4 h-4 text-kawaii-pink-500 rounded"
+                checked={settings.autoSave}
+                onChange={(e) => onSettingsChange({ autoSave: e.target.checked })}
+              />
+              {folderName ? `Save to 📁 ${folderName}` : 'Download each screenshot'} 💾
+            </label>
+          </div>
+        </div>
+
+        {/* Gallery */}
+        {viewing ? (
+          <div className="mb-6">
+            <img
+              src={urls[viewing.id]}
+              alt={viewing.fileName}
+              className="w-full max-h-[50vh] object-contain rounded-xl bg-black cursor-zoom-out"
+              onClick={() => setViewingId(null)}
+            />
+            <p className="font-kawaii text-xs text-kawaii-purple-500 text-center mt-2">
+              {viewing.sourceName} · {viewing.width}x{viewing.height} · {formatSize(viewing.blob.size)} · {new Date(viewing.createdAt).toLocaleString()}
+            </p>
+          </div>
+        ) : screenshots.length === 0 ? (
+          <p className="font-kawaii text-kawaii-purple-600 text-center py-8 mb-6">
+            No screenshots yet! Snap one and it'll show up here ✨
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6 max-h-[45vh] overflow-y-auto pr-1">
+            {screenshots.map(screenshot => (
+              <div key={screenshot.id} className="bg-kawaii-pink-50 rounded-xl border-2 border-kawaii-pink-200 overflow-hidden">
+                <button onClick={() => setViewingId(screenshot.id)} className="block w-full aspect-video bg-black cursor-zoom-in">
+                  <img src={urls[screenshot.id]} alt={screenshot.fileName} className="w-full h-full object-contain" />
+                </button>
+                <div className="p-2">
+                  <p className="font-kawaii text-xs text-kawaii-purple-700 truncate" title={screenshot.fileName}>
+                    {screenshot.sourceName} · {formatSize(screenshot.blob.size)}
+                  </p>
+                  <div className="flex justify-between mt-1">
+                    <button
+                      onClick={() => run(() => onSave(screenshot), '💾 Could not save that screenshot')}
+                      className="text-lg hover:scale-110 transition-transform"
+                      title={folderName ? `Save to ${folderName}` : 'Download'}
+                    >
+                      💾
+                    </button>
+                    {canCopy && (
+                      <button
+                        onClick={() => run(() => onCopy(screenshot), '📋 Could not copy that screenshot')}
+                        className="text-lg hover:scale-110 transition-transform"
+                        title="Copy to clipboard"
+                      >
+                        📋
+                      </button>
+                    )}
+                    <button
+                      onClick={() => run(() => onDelete(screenshot.id), '🗑️ Could not delete that screenshot')}
+                      className="text-lg hover:scale-110 transition-transform"
+                      title="Delete"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-4 justify-center flex-wrap">
+          <KawaiiButton onClick={onTake} emoji="📸" variant="primary" size="sm">
+            Take Screenshot
+          </KawaiiButton>
+          {viewing && (
+            <KawaiiButton onClick={() => setViewingId(null)} emoji="🖼️" variant="secondary" size="sm">
+              Back to Gallery
+            </KawaiiButton>
+          )}
+          <KawaiiButton onClick={handleClear} emoji="🧹" variant="secondary" size="sm" disabled={screenshots.length === 0}>
+            Clear All
+          </KawaiiButton>
+          <KawaiiButton onClick={onClose} emoji="❌" variant="danger" size="sm">
+            Close
+          </KawaiiButton>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,46 +1,102 @@
 import React from 'react';
-import { Wifi, WifiOff, Heart } from 'lucide-react';
+import { Wifi, WifiOff, Heart, Circle, RotateCcw } from 'lucide-react';
+import { OutputStatus } from '../utils/outputState';
 
 interface StatusBarProps {
-  isConnected: boolean;
-  viewerCount: number;
+  streamStatus: OutputStatus;
+  isReconnecting?: boolean;
   streamDuration: string;
+  recordingStatus: OutputStatus;
+  recordingDuration: string;
+  isReplayBufferOn?: boolean;
+  viewerCount: number;
 }
 
+const getStreamLabel = (status: OutputStatus, isReconnecting: boolean) => {
+  if (status === 'active' && isReconnecting) return 'RECONNECTING 🔁';
+  switch (status) {
+    case 'starting': return 'CONNECTING 📡';
+    case 'active': return 'LIVE 🔴';
+    case 'stopping': return 'ENDING 👋';
+    case 'error': return 'STREAM ERROR 💔';
+    default: return 'OFFLINE 💤';
+  }
+};
+
+const getRecordingLabel = (status: OutputStatus) => {
+  switch (status) {
+    case 'starting': return 'STARTING 🎬';
+    case 'active': return 'REC ⏺️';
+    case 'paused': return 'PAUSED ⏸️';
+    case 'stopping': return 'SAVING 💾';
+    case 'error': return 'REC ERROR 💔';
+    default: return 'NOT RECORDING 💤';
+  }
+};
+
 export const StatusBar: React.FC<StatusBarProps> = ({
-  isConnected,
-  viewerCount,
+  streamStatus,
+  isReconnecting = false,
   streamDuration,
+  recordingStatus,
+  recordingDuration,
+  isReplayBufferOn = false,
+  viewerCount,
 }) => {
+  const isLive = streamStatus === 'active';
+  const isRecording = recordingStatus === 'active';
+  const isPaused = recordingStatus === 'paused';
+
   return (
     <div className="bg-gradient-to-r from-kawaii-pink-500 to-kawaii-purple-600 text-white p-4 rounded-2xl shadow-lg border-2 border-kawaii-pink-400">
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-4">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center gap-4 flex-wrap">
           <div className="flex items-center gap-2">
-            {isConnected ? (
+            {isLive && !isReconnecting ? (
               <Wifi size={20} className="text-green-300" />
             ) : (
-              <WifiOff size={20} className="text-red-300" />
+              <WifiOff size={20} className={isReconnecting ? 'text-yellow-300 animate-pulse' : 'text-red-300'} />
             )}
             <span className="font-kawaii font-semibold">
-              {isConnected ? 'LIVE 🔴' : 'OFFLINE 💤'}
+              {getStreamLabel(streamStatus, isReconnecting)}
             </span>
           </div>
-          
+
+          <div className="flex items-center gap-2">
+            <Circle
+              size={16}
+              className={isRecording ? 'text-red-400 fill-red-400 animate-pulse' : isPaused ? 'text-yellow-300 fill-yellow-300' : 'text-white/60'}
+            />
+            <span className="font-kawaii font-semibold">
+              {getRecordingLabel(recordingStatus)}
+            </span>
+          </div>
+
+          {isReplayBufferOn && (
+            <div className="flex items-center gap-2">
+              <RotateCcw size={16} className="text-green-300" />
+              <span className="font-kawaii font-semibold">REPLAY 🔁</span>
+            </div>
+          )}
+
           <div className="flex items-center gap-2">
             <Heart size={20} className="text-pink-300 animate-pulse" />
             <span className="font-kawaii font-semibold">{viewerCount} viewers</span>
           </div>
         </div>
-        
-        <div className="flex items-center gap-4">
+
+        <div className="flex items-center gap-6">
           <div className="text-right">
             <p className="font-kawaii text-sm opacity-90">Stream Time</p>
             <p className="font-kawaii font-bold text-lg">{streamDuration}</p>
           </div>
+          <div className="text-right">
+            <p className="font-kawaii text-sm opacity-90">Recording Time{isPaused ? ' (paused)' : ''}</p>
+            <p className="font-kawaii font-bold text-lg">{recordingDuration}</p>
+          </div>
           <div className="text-2xl animate-bounce-cute">✨</div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,44 +1,144 @@
 import React, { useState } from 'react';
-import { Monitor, Camera, Mic, MicOff, Play, Square, Settings, Palette, Heart as Gear } from 'lucide-react';
+import { Monitor, Camera, Mic, MicOff, Play, Square, Settings, Palette, Heart as Gear, Radio, Film, Pause, RotateCcw, Library, Bookmark, Images, Keyboard } from 'lucide-react';
 import { KawaiiButton } from './KawaiiButton';
 import { useSound } from '../hooks/useSound';
+import { StreamSettings } from '../hooks/useStreamOutput';
+import { HotkeyBindings, formatCombo } from '../utils/hotkeys';
+import { OutputStatus, isOutputBusy } from '../utils/outputState';
 
 interface StreamControlsProps {
   isScreenSharing: boolean;
   isCameraOn: boolean;
   isMicOn: boolean;
-  isRecording: boolean;
+  recordingStatus: OutputStatus;
   onScreenShare: () => void;
   onCamera: () => void;
+  onCameraSettings?: () => void;
   onMicrophone: () => void;
   onRecord: () => void;
+  onPauseRecording?: () => void;
+  markerCount?: number;
+  onAddMarker?: (name: string) => void;
   onScreenshot: () => void;
+  onScreenshotGallery?: () => void;
+  onHotkeys?: () => void;
+  // Shown as tooltips on the buttons that have a shortcut
+  hotkeys?: HotkeyBindings;
   onFilters: () => void;
   mediaState?: any;
   setMicrophoneVolume?: (volume: number) => void;
   setScreenAudioVolume?: (volume: number) => void;
   setSelectedMicrophone?: (deviceId: string) => void;
+  isNoiseReductionOn?: boolean;
+  setNoiseReduction?: (enabled: boolean) => void;
+  includeSystemAudio?: boolean;
+  setIncludeSystemAudio?: (enabled: boolean) => void;
+  streamStatus?: OutputStatus;
+  isReconnecting?: boolean;
+  streamSettings?: StreamSettings;
+  setStreamSettings?: (settings: StreamSettings) => void;
+  onStream?: () => void;
+  onOutputSettings?: () => void;
+  onRecordings?: () => void;
+  isReplayBufferOn?: boolean;
+  replayBufferedSeconds?: number;
+  onReplayBuffer?: () => void;
+  onSaveReplay?: () => void;
+  recordingFolderName?: string | null;
+  canChooseRecordingFolder?: boolean;
+  onChooseRecordingFolder?: () => void;
+  onForgetRecordingFolder?: () => void;
 }
 
+const STREAM_STATUS_LABELS: Record<OutputStatus, string> = {
+  idle: 'Offline 💤',
+  starting: 'Connecting... 📡',
+  active: 'Live! 🔴',
+  paused: 'Live! 🔴',
+  stopping: 'Ending stream... 👋',
+  error: 'Connection problem 💔',
+};
+
+const RECORD_BUTTON_LABELS: Record<OutputStatus, string> = {
+  idle: 'Start Recording',
+  starting: 'Starting...',
+  active: 'Stop Recording',
+  paused: 'Stop Recording',
+  stopping: 'Saving...',
+  error: 'Retry Recording',
+};
+
+const STREAM_BUTTON_LABELS: Record<OutputStatus, string> = {
+  idle: 'Go Live',
+  starting: 'Cancel Go Live',
+  active: 'End Stream',
+  paused: 'End Stream',
+  stopping: 'Ending...',
+  error: 'Retry Go Live',
+};
+
 export const StreamControls: React.FC<StreamControlsProps> = ({
   isScreenSharing,
   isCameraOn,
   isMicOn,
-  isRecording,
+  recordingStatus,
   onScreenShare,
   onCamera,
+  onCameraSettings,
   onMicrophone,
   onRecord,
+  onPauseRecording,
+  markerCount = 0,
+  onAddMarker,
   onScreenshot,
+  onScreenshotGallery,
+  onHotkeys,
+  hotkeys = {},
   onFilters,
   mediaState,
   setMicrophoneVolume,
   setScreenAudioVolume,
   setSelectedMicrophone,
+  isNoiseReductionOn = true,
+  setNoiseReduction,
+  includeSystemAudio = true,
+  setIncludeSystemAudio,
+  streamStatus = 'idle',
+  isReconnecting = false,
+  streamSettings,
+  setStreamSettings,
+  onStream,
+  onOutputSettings,
+  onRecordings,
+  isReplayBufferOn = false,
+  replayBufferedSeconds = 0,
+  onReplayBuffer,
+  onSaveReplay,
+  recordingFolderName = null,
+  canChooseRecordingFolder = false,
+  onChooseRecordingFolder,
+  onForgetRecordingFolder,
 }) => {
   const { playSuccess, playError } = useSound();
   const [showMicSettings, setShowMicSettings] = useState(false);
   const [showScreenSettings, setShowScreenSettings] = useState(false);
+  const [showStreamSettings, setShowStreamSettings] = useState(false);
+  const [draftEndpoint, setDraftEndpoint] = useState('');
+  const [markerName, setMarkerName] = useState('');
+
+  const hotkeyHint = (actionId: string) => {
+    const combo = hotkeys[actionId];
+    return combo ? formatCombo(combo) : undefined;
+  };
+
+  const handleAddMarker = () => {
+    onAddMarker?.(markerName.trim());
+    setMarkerName('');
+  };
+  const [draftToken, setDraftToken] = useState('');
+
+  const isStreaming = streamStatus === 'starting' || streamStatus === 'active';
+  const isRecording = recordingStatus === 'starting' || recordingStatus === 'active' || recordingStatus === 'paused';
 
   const handleScreenShare = () => {
     if (isScreenSharing) playError();
@@ -79,11 +179,34 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
     playSuccess();
   };
 
+  const handleCameraSettings = () => {
+    onCameraSettings?.();
+    playSuccess();
+  };
+
   const handleScreenSettings = () => {
     setShowScreenSettings(true);
     playSuccess();
   };
 
+  const handleStreamSettings = () => {
+    setDraftEndpoint(streamSettings?.endpoint || '');
+    setDraftToken(streamSettings?.bearerToken || '');
+    setShowStreamSettings(true);
+    playSuccess();
+  };
+
+  const handleSaveStreamSettings = () => {
+    setStreamSettings?.({ endpoint: draftEndpoint.trim(), bearerToken: draftToken.trim() });
+    setShowStreamSettings(false);
+  };
+
+  const handleStream = () => {
+    if (isStreaming) playError();
+    else playSuccess();
+    onStream?.();
+  };
+
   return (
     <div className="bg-white/30 backdrop-blur-kawaii rounded-2xl p-6 border-2 border-kawaii-pink-300 shadow-lg">
       <h2 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-6 text-center flex items-center justify-center gap-2">
@@ -116,19 +239,32 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
           </button>
         </div>
         
-        <KawaiiButton
-          onClick={handleCamera}
-          variant={isCameraOn ? 'danger' : 'secondary'}
-          emoji="📷"
-          className="h-16"
-        >
-          <div className="flex items-center gap-2">
-            <Camera size={20} />
-            {isCameraOn ? 'Stop Camera' : 'Start Camera'}
-          </div>
-        </KawaiiButton>
-        
         <div className="relative">
+          <KawaiiButton
+            onClick={handleCamera}
+            variant={isCameraOn ? 'danger' : 'secondary'}
+            emoji="📷"
+            className="h-16 w-full"
+          >
+            <div className="flex items-center gap-2">
+              <Camera size={20} />
+              {isCameraOn ? 'Stop Camera' : 'Start Camera'}
+            </div>
+          </KawaiiButton>
+
+          {/* Camera Settings Gear Icon */}
+          {onCameraSettings && (
+            <button
+              onClick={handleCameraSettings}
+              className="absolute -top-2 -right-2 w-8 h-8 bg-kawaii-pink-500 hover:bg-kawaii-pink-600 text-white rounded-full flex items-center justify-center shadow-lg transition-all duration-200 hover:scale-110 border-2 border-white"
+              title="Camera Settings 📷⚙️"
+            >
+              <Gear size={14} />
+            </button>
+          )}
+        </div>
+        
+        <div className="relative col-span-2">
           <KawaiiButton
             onClick={handleMicrophone}
             variant={isMicOn ? 'danger' : 'success'}
@@ -150,20 +286,127 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
             <Gear size={14} />
           </button>
         </div>
+      </div>
+      
+      {/* Streaming and recording are independent outputs */}
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <KawaiiButton
+          onClick={handleStream}
+          variant={isStreaming ? 'danger' : 'secondary'}
+          emoji={isStreaming ? '📴' : '📡'}
+          className="h-16"
+          disabled={streamStatus === 'stopping'}
+        >
+          <div className="flex items-center gap-2">
+            <Radio size={20} className={streamStatus === 'active' && !isReconnecting ? 'animate-pulse' : ''} />
+            {streamStatus === 'active' && isReconnecting ? 'Reconnecting...' : STREAM_BUTTON_LABELS[streamStatus]}
+          </div>
+        </KawaiiButton>
         
         <KawaiiButton
           onClick={handleRecord}
           variant={isRecording ? 'danger' : 'primary'}
           emoji={isRecording ? '⏹️' : '🔴'}
           className="h-16"
+          disabled={isOutputBusy(recordingStatus)}
         >
           <div className="flex items-center gap-2">
             {isRecording ? <Square size={20} /> : <Play size={20} />}
-            {isRecording ? 'Stop Recording' : 'Start Recording'}
+            {RECORD_BUTTON_LABELS[recordingStatus]}
           </div>
         </KawaiiButton>
       </div>
-      
+
+      {(recordingStatus === 'active' || recordingStatus === 'paused') && (
+        <KawaiiButton
+          onClick={onPauseRecording}
+          variant={recordingStatus === 'paused' ? 'success' : 'secondary'}
+          emoji={recordingStatus === 'paused' ? '▶️' : '⏸️'}
+          size="sm"
+          className="w-full mb-3"
+        >
+          <div className="flex items-center gap-2" title={hotkeyHint('pauseRecording')}>
+            {recordingStatus === 'paused' ? <Play size={16} /> : <Pause size={16} />}
+            {recordingStatus === 'paused' ? 'Resume Recording' : 'Pause Recording'}
+          </div>
+        </KawaiiButton>
+      )}
+
+      {(recordingStatus === 'active' || recordingStatus === 'paused') && onAddMarker && (
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            placeholder={`Marker ${markerCount + 1}`}
+            value={markerName}
+            onChange={(e) => setMarkerName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddMarker();
+            }}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-kawaii-pink-300 font-kawaii text-sm bg-white/80 focus:border-kawaii-purple-400 focus:outline-none"
+            aria-label="Marker name"
+          />
+          <KawaiiButton onClick={handleAddMarker} variant="secondary" emoji="🔖" size="sm">
+            <div className="flex items-center gap-2" title={hotkeyHint('addMarker')}>
+              <Bookmark size={16} />
+              Add Marker{markerCount > 0 ? ` (${markerCount})` : ''}
+            </div>
+          </KawaiiButton>
+        </div>
+      )}
+
+      {/* The replay buffer runs on its own, recording or not */}
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <KawaiiButton
+          onClick={onReplayBuffer}
+          variant={isReplayBufferOn ? 'danger' : 'secondary'}
+          emoji="🔁"
+          size="sm"
+        >
+          <div className="flex items-center gap-2">
+            <RotateCcw size={16} />
+            {isReplayBufferOn ? 'Stop Replay Buffer' : 'Start Replay Buffer'}
+          </div>
+        </KawaiiButton>
+        <KawaiiButton
+          onClick={onSaveReplay}
+          variant="success"
+          emoji="💾"
+          size="sm"
+          disabled={!isReplayBufferOn}
+        >
+          <div className="flex items-center gap-2" title={hotkeyHint('saveReplay')}>
+            Save Replay{isReplayBufferOn ? ` (${replayBufferedSeconds}s)` : ''}
+          </div>
+        </KawaiiButton>
+      </div>
+
+      {/* Recordings are written to disk as they go, then saved here when they stop */}
+      <div className="flex items-center justify-between gap-2 mb-6 px-1">
+        <span className="font-kawaii text-xs text-kawaii-purple-600 truncate">
+          💾 Recordings save to {recordingFolderName ? `📁 ${recordingFolderName}` : 'Downloads'}
+        </span>
+        {canChooseRecordingFolder && (
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={onChooseRecordingFolder}
+              disabled={isRecording}
+              className="font-kawaii text-xs font-semibold text-kawaii-purple-700 hover:text-kawaii-pink-500 disabled:opacity-50 transition-colors"
+            >
+              {recordingFolderName ? 'Change' : 'Choose folder'}
+            </button>
+            {recordingFolderName && (
+              <button
+                onClick={onForgetRecordingFolder}
+                disabled={isRecording}
+                className="font-kawaii text-xs text-kawaii-purple-500 hover:text-kawaii-pink-500 disabled:opacity-50 transition-colors"
+              >
+                Use Downloads
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-2 gap-4 mb-4">
         <KawaiiButton
           onClick={handleScreenshot}
@@ -190,9 +433,9 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
         </KawaiiButton>
       </div>
       
-      <div className="text-center">
+      <div className="flex gap-4 justify-center flex-wrap">
         <KawaiiButton
-          onClick={() => {}}
+          onClick={handleStreamSettings}
           variant="secondary"
           emoji="⚙️"
           size="sm"
@@ -202,6 +445,68 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
             Stream Settings
           </div>
         </KawaiiButton>
+        <KawaiiButton
+          onClick={() => {
+            playSuccess();
+            onOutputSettings?.();
+          }}
+          variant="secondary"
+          emoji="🎞️"
+          size="sm"
+        >
+          <div className="flex items-center gap-2">
+            <Film size={16} />
+            Output Settings
+          </div>
+        </KawaiiButton>
+        {onScreenshotGallery && (
+          <KawaiiButton
+            onClick={() => {
+              playSuccess();
+              onScreenshotGallery();
+            }}
+            variant="secondary"
+            emoji="🖼️"
+            size="sm"
+          >
+            <div className="flex items-center gap-2">
+              <Images size={16} />
+              Screenshots
+            </div>
+          </KawaiiButton>
+        )}
+        {onHotkeys && (
+          <KawaiiButton
+            onClick={() => {
+              playSuccess();
+              onHotkeys();
+            }}
+            variant="secondary"
+            emoji="⌨️"
+            size="sm"
+          >
+            <div className="flex items-center gap-2">
+              <Keyboard size={16} />
+              Hotkeys
+            </div>
+          </KawaiiButton>
+        )}
+        {onRecordings && (
+          <KawaiiButton
+            onClick={() => {
+              playSuccess();
+              onRecordings();
+            }}
+            variant="secondary"
+            emoji="📚"
+            size="sm"
+          >
+            <div className="flex items-center gap-2">
+              <Library size={16} />
+              Recordings
+            </div>
+          </KawaiiButton>
+        )}
       </div>
 
       {/* Microphone Settings Modal */}
@@ -256,12 +561,16 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
                   type="checkbox" 
                   id="noise-reduction"
                   className="w-4 h-4 text-kawaii-pink-500 rounded"
-                  defaultChecked
+                  checked={isNoiseReductionOn}
+                  onChange={(e) => setNoiseReduction?.(e.target.checked)}
                 />
                 <label htmlFor="noise-reduction" className="font-kawaii text-kawaii-purple-700">
                   Enable Noise Reduction ✨
                 </label>
               </div>
+              <p className="font-kawaii text-xs text-kawaii-purple-500 -mt-2">
+                Turns on the mic's noise gate. Fine-tune it with the FX button in the Audio Mixer 🎛️
+              </p>
             </div>
             
             <div className="flex gap-3 justify-center">
@@ -326,12 +635,16 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
                   type="checkbox" 
                   id="include-system-audio"
                   className="w-4 h-4 text-kawaii-blue-500 rounded"
-                  defaultChecked
+                  checked={includeSystemAudio}
+                  onChange={(e) => setIncludeSystemAudio?.(e.target.checked)}
                 />
                 <label htmlFor="include-system-audio" className="font-kawaii text-kawaii-purple-700">
                   Include System Audio in Recording 🎶
                 </label>
               </div>
+              <p className="font-kawaii text-xs text-kawaii-purple-500 -mt-2">
+                Pick monitor, record and stream per source with the 🎧 ⏺️ 📡 buttons in the Audio Mixer 🎛️
+              </p>
             </div>
             
             <div className="flex gap-3 justify-center">
@@ -355,6 +668,86 @@ export const StreamControls: React.FC<StreamControlsProps> = ({
           </div>
         </div>
       )}
+
+      {/* Stream Settings Modal */}
+      {showStreamSettings && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white/90 backdrop-blur-kawaii rounded-2xl p-8 border-4 border-kawaii-purple-300 shadow-2xl max-w-md w-full">
+            <h3 className="font-kawaii font-bold text-2xl text-kawaii-purple-800 mb-6 text-center flex items-center justify-center gap-2">
+              <span className="text-3xl">📡</span>
+              Stream Settings
+              <span className="text-3xl">⚙️</span>
+            </h3>
+            
+            <div className="space-y-4 mb-6">
+              <div>
+                <label htmlFor="whip-endpoint" className="block font-kawaii text-kawaii-purple-700 font-semibold mb-2">
+                  WHIP Server URL 🌐
+                </label>
+                <input
+                  id="whip-endpoint"
+                  type="url"
+                  placeholder="https://example.com/whip/my-stream"
+                  value={draftEndpoint}
+                  onChange={(e) => setDraftEndpoint(e.target.value)}
+                  disabled={streamStatus !== 'idle' && streamStatus !== 'error'}
+                  className="w-full p-3 rounded-xl border-2 border-kawaii-pink-300 font-kawaii bg-white/80 focus:border-kawaii-purple-400 focus:outline-none disabled:opacity-60"
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="whip-token" className="block font-kawaii text-kawaii-purple-700 font-semibold mb-2">
+                  Stream Key 🔑
+                </label>
+                <input
+                  id="whip-token"
+                  type="password"
+                  placeholder="Optional bearer token"
+                  value={draftToken}
+                  onChange={(e) => setDraftToken(e.target.value)}
+                  disabled={streamStatus !== 'idle' && streamStatus !== 'error'}
+                  className="w-full p-3 rounded-xl border-2 border-kawaii-pink-300 font-kawaii bg-white/80 focus:border-kawaii-purple-400 focus:outline-none disabled:opacity-60"
+                />
+              </div>
+              
+              <div className="bg-kawaii-purple-50 p-4 rounded-xl border-2 border-kawaii-purple-200 flex items-center justify-between">
+                <span className="font-kawaii text-kawaii-purple-700 font-semibold flex items-center gap-2">
+                  <Radio size={16} />
+                  Status
+                </span>
+                <span className="font-kawaii text-kawaii-purple-800 text-sm">
+                  {streamStatus === 'active' && isReconnecting ? 'Reconnecting... 🔁' : STREAM_STATUS_LABELS[streamStatus]}
+                </span>
+              </div>
+              
+              <div className="bg-kawaii-blue-50 p-4 rounded-xl border-2 border-kawaii-blue-200">
+                <p className="font-kawaii text-kawaii-purple-700 text-sm">
+                  💡 <strong>Tip:</strong> Streaming and recording are separate, so going live never starts a recording on its own! 🎬✨
+                </p>
+              </div>
+            </div>
+            
+            <div className="flex gap-3 justify-center flex-wrap">
+              <KawaiiButton
+                onClick={handleSaveStreamSettings}
+                emoji="💾"
+                variant="success"
+                size="sm"
+              >
+                Save Settings
+              </KawaiiButton>
+              <KawaiiButton
+                onClick={() => setShowStreamSettings(false)}
+                emoji="❌"
+                variant="danger"
+                size="sm"
+              >
+                Cancel
+              </KawaiiButton>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
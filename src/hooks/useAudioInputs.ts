@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MixerChannelKind } from '../utils/audioMixer';
+import {
+  AudioInputConfig,
+  DEFAULT_AUDIO_INPUT_CONSTRAINTS,
+  audioInputChannelId,
+  buildAudioConstraints,
+  sanitizeAudioInputs,
+} from '../utils/audioInputs';
+
+const STORAGE_KEY = 'kawaii-audio-inputs';
+
+const loadAudioInputs = (): AudioInputConfig[] => {
+  try {
+    return sanitizeAudioInputs(JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+};
+
+const labelFor = (input: AudioInputConfig, stream: MediaStream) =>
+  input.name.trim() || stream.getAudioTracks()[0]?.label || 'Microphone';
+
+type AttachChannel = (id: string, label: string, kind: MixerChannelKind, input: MediaStream) => void;
+
+interface AudioInputDevices {
+  // The audio inputs plugged in right now, to reconnect inputs whose device comes back
+  devices: MediaDeviceInfo[];
+  onDeviceAccess?: () => void;
+  onWarning?: (message: string) => void;
+}
+
+// Extra microphones, each captured on its own and fed into its own mixer channel. Which inputs exist
+// (and their settings) is saved; whether they're on isn't, since capture needs a click anyway.
+export const useAudioInputs = (
+  attachChannel: AttachChannel,
+  detachChannel: (id: string) => void,
+  { devices, onDeviceAccess, onWarning }: AudioInputDevices,
+) => {
+  const [inputs, setInputs] = useState<AudioInputConfig[]>(loadAudioInputs);
+  const [activeIds, setActiveIds] = useState<string[]>([]);
+  // Inputs that were on when their device disappeared
+  const [lostIds, setLostIds] = useState<string[]>([]);
+  const streamsRef = useRef(new Map<string, MediaStream>());
+  const reconnectingRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(inputs));
+  }, [inputs]);
+
+  useEffect(() => {
+    const streams = streamsRef.current;
+    return () => {
+      streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+      streams.clear();
+    };
+  }, []);
+
+  const stopInput = useCallback((id: string) => {
+    streamsRef.current.get(id)?.getTracks().forEach(track => track.stop());
+    streamsRef.current.delete(id);
+    detachChannel(audioInputChannelId(id));
+    setActiveIds(prev => prev.filter(activeId => activeId !== id));
+  }, [detachChannel]);
+
+  const startInput = useCallback(async (input: AudioInputConfig) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: buildAudioConstraints(input.deviceId, input),
+      video: false,
+    });
+    streamsRef.current.get(input.id)?.getTracks().forEach(track => track.stop());
+    streamsRef.current.set(input.id, stream);
+    attachChannel(audioInputChannelId(input.id), labelFor(input, stream), 'microphone', stream);
+    setActiveIds(prev => (prev.includes(input.id) ? prev : [...prev, input.id]));
+    setLostIds(prev => prev.filter(lostId => lostId !== input.id));
+    console.log(`🎙️ Started audio input "${labelFor(input, stream)}"`, stream.getAudioTracks()[0]?.getSettings());
+
+    stream.getAudioTracks().forEach(track => track.addEventListener('ended', () => {
+      if (streamsRef.current.get(input.id) !== stream) return;
+      stopInput(input.id);
+      setLostIds(prev => (prev.includes(input.id) ? prev : [...prev, input.id]));
+      onWarning?.(`🎙️ "${labelFor(input, stream)}" was disconnected. It will reconnect when it's plugged back in 🔌`);
+    }));
+    onDeviceAccess?.();
+  }, [attachChannel, stopInput, onDeviceAccess, onWarning]);
+
+  useEffect(() => {
+    lostIds.forEach(id => {
+      const input = inputs.find(item => item.id === id);
+      const isBack = input && (input.deviceId === 'default' ? devices.length > 0 : devices.some(device => device.deviceId === input.deviceId));
+      if (!input || !isBack || reconnectingRef.current.has(id)) return;
+
+      reconnectingRef.current.add(id);
+      startInput(input)
+        .then(() => onWarning?.(`🎙️ "${input.name.trim() || 'Microphone'}" reconnected ✨`))
+        .catch(error => console.warn('⚠️ Could not reconnect audio input:', error))
+        .finally(() => reconnectingRef.current.delete(id));
+    });
+  }, [lostIds, inputs, devices, startInput, onWarning]);
+
+  const addInput = useCallback((deviceId = 'default') => {
+    const input: AudioInputConfig = {
+      id: crypto.randomUUID().slice(0, 8),
+      name: '',
+      deviceId,
+      ...DEFAULT_AUDIO_INPUT_CONSTRAINTS,
+    };
+    setInputs(prev => [...prev, input]);
+    return input;
+  }, []);
+
+  const toggleInput = useCallback(async (id: string) => {
+    const input = inputs.find(item => item.id === id);
+    if (!input) return;
+    if (streamsRef.current.has(id)) {
+      stopInput(id);
+    } else if (lostIds.includes(id)) {
+      // Stops waiting for the device to come back
+      setLostIds(prev => prev.filter(lostId => lostId !== id));
+    } else {
+      await startInput(input);
+    }
+  }, [inputs, lostIds, startInput, stopInput]);
+
+  // A running input is captured again with the new device or processing; a new name only relabels it
+  const updateInput = useCallback(async (id: string, changes: Partial<Omit<AudioInputConfig, 'id'>>) => {
+    const input = inputs.find(item => item.id === id);
+    if (!input) return;
+    const next = { ...input, ...changes };
+    setInputs(prev => prev.map(item => (item.id === id ? next : item)));
+
+    const stream = streamsRef.current.get(id);
+    if (!stream) return;
+    const onlyRenamed = Object.keys(changes).every(key => key === 'name');
+    if (onlyRenamed) {
+      attachChannel(audioInputChannelId(id), labelFor(next, stream), 'microphone', stream);
+    } else {
+      await startInput(next);
+    }
+  }, [inputs, attachChannel, startInput]);
+
+  const removeInput = useCallback((id: string) => {
+    stopInput(id);
+    setLostIds(prev => prev.filter(lostId => lostId !== id));
+    setInputs(prev => prev.filter(item => item.id !== id));
+  }, [stopInput]);
+
+  return {
+    inputs,
+    activeIds,
+    lostIds,
+    addInput,
+    toggleInput,
+    updateInput,
+    removeInput,
+  };
+};
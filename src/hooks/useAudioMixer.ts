@@ -0,0 +1,275 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  AudioMixer,
+  MeterReading,
+  MixerBus,
+  MixerChannelInfo,
+  MixerChannelKind,
+  MixerChannelSettings,
+  MixerMeters,
+  MixerOutputBus,
+  DEFAULT_CHANNEL_SETTINGS,
+  createAudioMixer,
+  getDefaultRouting,
+} from '../utils/audioMixer';
+import {
+  ChannelFilterSettings,
+  LimiterSettings,
+  DEFAULT_LIMITER_SETTINGS,
+  getDefaultFilters,
+  mergeFilterSettings,
+} from '../utils/audioFilters';
+
+const METER_INTERVAL_MS = 50;
+const SILENT_METER: MeterReading = { peak: -Infinity, rms: -Infinity };
+const SILENT_METERS: MixerMeters = { channels: {}, record: SILENT_METER, stream: SILENT_METER };
+
+const loadSavedChannels = (): Record<string, Partial<MixerChannelSettings>> => {
+  try {
+    return JSON.parse(localStorage.getItem('kawaii-mixer-channels') || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const loadSavedFilters = (): Record<string, ChannelFilterSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem('kawaii-mixer-filters') || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const loadSavedLimiter = (): LimiterSettings => {
+  try {
+    return { ...DEFAULT_LIMITER_SETTINGS, ...JSON.parse(localStorage.getItem('kawaii-mixer-limiter') || '{}') };
+  } catch {
+    return DEFAULT_LIMITER_SETTINGS;
+  }
+};
+
+export const useAudioMixer = () => {
+  const mixerRef = useRef<AudioMixer | null>(null);
+  const mediaElementsRef = useRef(new Map<string, HTMLAudioElement>());
+  const closedGatesRef = useRef(new Set<string>());
+  const [channels, setChannels] = useState<MixerChannelInfo[]>([]);
+  const [masterDb, setMasterDbState] = useState(() => parseFloat(localStorage.getItem('kawaii-mixer-master') || '0'));
+  const [meters, setMeters] = useState<MixerMeters>(SILENT_METERS);
+  const [playingMedia, setPlayingMedia] = useState<Record<string, boolean>>({});
+  const [savedChannels, setSavedChannels] = useState(loadSavedChannels);
+  const [savedFilters, setSavedFilters] = useState(loadSavedFilters);
+  const [limiter, setLimiterState] = useState(loadSavedLimiter);
+
+  // The AudioContext is created on first use so it starts from a user gesture
+  const getMixer = useCallback(() => {
+    if (!mixerRef.current) {
+      mixerRef.current = createAudioMixer();
+      mixerRef.current.setMasterDb(parseFloat(localStorage.getItem('kawaii-mixer-master') || '0'));
+      mixerRef.current.setLimiter(loadSavedLimiter());
+      closedGatesRef.current.forEach(id => mixerRef.current?.setGate(id, false));
+      console.log('🎛️ Audio mixer created');
+    }
+    return mixerRef.current;
+  }, []);
+
+  const getOutputStream = useCallback((bus: MixerOutputBus) => {
+    const mixer = getMixer();
+    if (mixer.context.state === 'suspended') {
+      mixer.context.resume();
+    }
+    return mixer.outputStreams[bus];
+  }, [getMixer]);
+
+  // Whether any live channel actually feeds the given output
+  const hasRoutedChannels = useCallback((bus: MixerOutputBus) => (
+    channels.some(channel => channel.routing[bus])
+  ), [channels]);
+
+  const attachChannel = useCallback((
+    id: string,
+    label: string,
+    kind: MixerChannelKind,
+    input: MediaStream | HTMLMediaElement,
+    inputGain = 1,
+  ) => {
+    const saved = loadSavedChannels()[id];
+    const info: MixerChannelInfo = {
+      id,
+      label,
+      kind,
+      ...DEFAULT_CHANNEL_SETTINGS,
+      ...saved,
+      routing: { ...getDefaultRouting(kind), ...saved?.routing },
+    };
+    const filters = mergeFilterSettings(getDefaultFilters(kind), loadSavedFilters()[id]);
+    getMixer().addChannel(info, input, filters, inputGain);
+    setChannels(prev => {
+      const exists = prev.some(channel => channel.id === id);
+      return exists ? prev.map(channel => (channel.id === id ? info : channel)) : [...prev, info];
+    });
+  }, [getMixer]);
+
+  const detachChannel = useCallback((id: string) => {
+    mixerRef.current?.removeChannel(id);
+    setChannels(prev => prev.filter(channel => channel.id !== id));
+
+    const element = mediaElementsRef.current.get(id);
+    if (element) {
+      element.pause();
+      URL.revokeObjectURL(element.src);
+      mediaElementsRef.current.delete(id);
+      setPlayingMedia(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
+  }, []);
+
+  // Settings are saved even when the channel isn't attached, so they apply the next time it is
+  const updateChannel = useCallback((id: string, settings: Partial<MixerChannelSettings>) => {
+    mixerRef.current?.updateChannel(id, settings);
+    setChannels(prev => prev.map(channel => (channel.id === id ? { ...channel, ...settings } : channel)));
+    setSavedChannels(prev => {
+      const next = { ...prev, [id]: { ...prev[id], ...settings } };
+      localStorage.setItem('kawaii-mixer-channels', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setChannelFader = useCallback((id: string, faderDb: number) => updateChannel(id, { faderDb }), [updateChannel]);
+
+  const setChannelPan = useCallback((id: string, pan: number) => updateChannel(id, { pan }), [updateChannel]);
+
+  const toggleChannelMute = useCallback((id: string) => {
+    const channel = channels.find(item => item.id === id);
+    if (channel) updateChannel(id, { muted: !channel.muted });
+  }, [channels, updateChannel]);
+
+  const toggleChannelSolo = useCallback((id: string) => {
+    const channel = channels.find(item => item.id === id);
+    if (channel) updateChannel(id, { solo: !channel.solo });
+  }, [channels, updateChannel]);
+
+  // Filters live outside the channel list so they can be edited (e.g. noise reduction) while the source is off
+  const getChannelFilters = useCallback((id: string, kind: MixerChannelKind) => (
+    mergeFilterSettings(getDefaultFilters(kind), savedFilters[id])
+  ), [savedFilters]);
+
+  const setChannelFilters = useCallback((id: string, filters: ChannelFilterSettings) => {
+    mixerRef.current?.updateFilters(id, filters);
+    setSavedFilters(prev => {
+      const next = { ...prev, [id]: filters };
+      localStorage.setItem('kawaii-mixer-filters', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setChannelInputGain = useCallback((id: string, gain: number) => {
+    mixerRef.current?.setInputGain(id, gain);
+  }, []);
+
+  // Gates can close before the mixer exists (push-to-talk starts closed), so they're remembered here too
+  const setChannelGate = useCallback((id: string, open: boolean) => {
+    if (open) {
+      closedGatesRef.current.delete(id);
+    } else {
+      closedGatesRef.current.add(id);
+    }
+    mixerRef.current?.setGate(id, open);
+  }, []);
+
+  const setLimiter = useCallback((settings: LimiterSettings) => {
+    mixerRef.current?.setLimiter(settings);
+    setLimiterState(settings);
+    localStorage.setItem('kawaii-mixer-limiter', JSON.stringify(settings));
+  }, []);
+
+  const getChannelRouting = useCallback((id: string, kind: MixerChannelKind) => (
+    { ...getDefaultRouting(kind), ...savedChannels[id]?.routing }
+  ), [savedChannels]);
+
+  const setChannelRouting = useCallback((id: string, kind: MixerChannelKind, bus: MixerBus, enabled: boolean) => {
+    updateChannel(id, { routing: { ...getChannelRouting(id, kind), [bus]: enabled } });
+  }, [getChannelRouting, updateChannel]);
+
+  const setMasterDb = useCallback((db: number) => {
+    mixerRef.current?.setMasterDb(db);
+    setMasterDbState(db);
+    localStorage.setItem('kawaii-mixer-master', db.toString());
+  }, []);
+
+  const addMediaFile = useCallback((file: File) => {
+    const element = new Audio(URL.createObjectURL(file));
+    element.loop = true;
+    const id = `media-${crypto.randomUUID()}`;
+    mediaElementsRef.current.set(id, element);
+    attachChannel(id, file.name.replace(/\.[^.]+$/, ''), 'media', element);
+    element.play()
+      .then(() => setPlayingMedia(prev => ({ ...prev, [id]: true })))
+      .catch(error => console.warn('⚠️ Could not start media playback:', error));
+  }, [attachChannel]);
+
+  const toggleMediaPlayback = useCallback((id: string) => {
+    const element = mediaElementsRef.current.get(id);
+    if (!element) return;
+
+    if (element.paused) {
+      element.play().then(() => setPlayingMedia(prev => ({ ...prev, [id]: true })));
+    } else {
+      element.pause();
+      setPlayingMedia(prev => ({ ...prev, [id]: false }));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (channels.length === 0) {
+      setMeters(SILENT_METERS);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (mixerRef.current) setMeters(mixerRef.current.readMeters());
+    }, METER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [channels.length]);
+
+  useEffect(() => {
+    const mediaElements = mediaElementsRef.current;
+    return () => {
+      mediaElements.forEach(element => {
+        element.pause();
+        URL.revokeObjectURL(element.src);
+      });
+      mediaElements.clear();
+      mixerRef.current?.close();
+      mixerRef.current = null;
+    };
+  }, []);
+
+  return {
+    channels,
+    meters,
+    masterDb,
+    limiter,
+    playingMedia,
+    getOutputStream,
+    hasRoutedChannels,
+    attachChannel,
+    detachChannel,
+    setChannelFader,
+    setChannelPan,
+    toggleChannelMute,
+    toggleChannelSolo,
+    getChannelRouting,
+    setChannelRouting,
+    getChannelFilters,
+    setChannelFilters,
+    setChannelInputGain,
+    setChannelGate,
+    setMasterDb,
+    setLimiter,
+    addMediaFile,
+    toggleMediaPlayback,
+  };
+};
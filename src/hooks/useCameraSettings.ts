@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, sanitizeCameraSettings } from '../utils/cameras';
+
+const STORAGE_KEY = 'kawaii-camera-settings';
+
+const loadCameraSettings = (): Record<string, CameraSettings> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+    return Object.fromEntries(Object.entries(saved).map(([deviceId, settings]) => [deviceId, sanitizeCameraSettings(settings)]));
+  } catch {
+    return {};
+  }
+};
+
+// Capture and orientation settings, remembered for each camera separately
+export const useCameraSettings = () => {
+  const [byDevice, setByDevice] = useState<Record<string, CameraSettings>>(loadCameraSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(byDevice));
+  }, [byDevice]);
+
+  const getSettings = useCallback((deviceId: string) => byDevice[deviceId] ?? DEFAULT_CAMERA_SETTINGS, [byDevice]);
+
+  // Returns the new settings so callers can apply them to a running camera straight away
+  const updateSettings = useCallback((deviceId: string, changes: Partial<CameraSettings>) => {
+    const next = sanitizeCameraSettings({ ...(byDevice[deviceId] ?? DEFAULT_CAMERA_SETTINGS), ...changes });
+    setByDevice(prev => ({ ...prev, [deviceId]: next }));
+    return next;
+  }, [byDevice]);
+
+  return {
+    getSettings,
+    updateSettings,
+  };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CameraSettings, createCameraTransform, needsCameraTransform } from '../utils/cameras';
+import { useStreamVideo } from './useStreamVideo';
+
+const DEFAULT_FPS = 30;
+
+// Mirrors and rotates a camera stream. The result is a stream again, so the preview, the filters
+// and the compositor all see the same picture. Without a transform the stream passes straight through.
+export const useCameraTransform = (stream: MediaStream | null, settings: CameraSettings) => {
+  const video = useStreamVideo(stream);
+  const transform = useMemo(() => createCameraTransform(), []);
+  const [transformedStream, setTransformedStream] = useState<MediaStream | null>(null);
+
+  const isTransforming = !!video && needsCameraTransform(settings);
+  const fps = stream?.getVideoTracks()[0]?.getSettings().frameRate || DEFAULT_FPS;
+  const { mirror, rotation } = settings;
+
+  useEffect(() => {
+    if (!isTransforming || !video) return;
+
+    const render = () => transform.render(video, { mirror, rotation });
+    const interval = setInterval(render, 1000 / fps);
+    render();
+    return () => clearInterval(interval);
+  }, [isTransforming, video, transform, fps, mirror, rotation]);
+
+  useEffect(() => {
+    if (!isTransforming) {
+      setTransformedStream(null);
+      return;
+    }
+
+    const captured = transform.canvas.captureStream(fps);
+    setTransformedStream(captured);
+    return () => captured.getTracks().forEach(track => track.stop());
+  }, [isTransforming, transform, fps]);
+
+  return isTransforming ? transformedStream : stream;
+};
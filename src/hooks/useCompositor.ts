@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Compositor,
+  CompositorLayer,
+  LayerTransition,
+  createCompositor,
+  createWatermarkOverlay,
+} from '../utils/compositor';
+
+interface CompositorHookOptions {
+  // A disabled compositor is torn down so it stops drawing in the background
+  enabled?: boolean;
+  showWatermark?: boolean;
+  // Changing the canvas format rebuilds the compositor, which replaces its stream
+  width?: number;
+  height?: number;
+  fps?: number;
+  scaleQuality?: ImageSmoothingQuality;
+}
+
+// Draws the given layers; a change of sceneId plays the transition instead of cutting straight over
+export const useCompositor = (
+  layers: CompositorLayer[],
+  sceneId: string,
+  transition: LayerTransition,
+  { enabled = true, showWatermark = false, width, height, fps, scaleQuality }: CompositorHookOptions = {},
+) => {
+  const [compositor, setCompositor] = useState<Compositor | null>(null);
+  const sceneIdRef = useRef(sceneId);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const instance = createCompositor({ width, height, fps, scaleQuality });
+    setCompositor(instance);
+    return () => {
+      instance.destroy();
+      setCompositor(null);
+    };
+  }, [enabled, width, height, fps, scaleQuality]);
+
+  useEffect(() => {
+    if (!compositor) return;
+
+    if (sceneIdRef.current !== sceneId) {
+      sceneIdRef.current = sceneId;
+      compositor.transitionTo(layers, transition);
+    } else {
+      compositor.setLayers(layers);
+    }
+  }, [compositor, layers, sceneId, transition]);
+
+  useEffect(() => {
+    if (!compositor) return;
+    compositor.setOverlays(showWatermark ? [createWatermarkOverlay('🌸 Kawaii Studio')] : []);
+  }, [compositor, showWatermark]);
+
+  return compositor;
+};
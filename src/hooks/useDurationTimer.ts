@@ -0,0 +1,32 @@
+import { useState, useEffect, useRef } from 'react';
+import { formatDuration } from '../utils/outputState';
+
+// Counts up once per second while `isRunning` is true and resets when it stops.
+// Time spent paused is left out, so the timer matches the recorded timeline.
+export const useDurationTimer = (isRunning: boolean, isPaused = false) => {
+  const [elapsed, setElapsed] = useState(0);
+  // Time counted before the last pause
+  const carriedRef = useRef(0);
+
+  useEffect(() => {
+    if (!isRunning) {
+      carriedRef.current = 0;
+      setElapsed(0);
+      return;
+    }
+    if (isPaused) return;
+
+    const startTime = Date.now();
+    const interval = setInterval(() => setElapsed(carriedRef.current + Date.now() - startTime), 1000);
+    return () => {
+      clearInterval(interval);
+      carriedRef.current += Date.now() - startTime;
+      setElapsed(carriedRef.current);
+    };
+  }, [isRunning, isPaused]);
+
+  return {
+    elapsed,
+    formatted: formatDuration(elapsed),
+  };
+};
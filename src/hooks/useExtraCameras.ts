@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  CameraSettings,
+  CameraTransform,
+  buildCaptureConstraints,
+  buildVideoConstraints,
+  createCameraTransform,
+  needsCameraTransform,
+} from '../utils/cameras';
+
+const TRANSFORM_FPS = 30;
+
+interface CameraDevices {
+  // The cameras plugged in right now, to reconnect cameras that come back
+  devices: MediaDeviceInfo[];
+  onDeviceAccess?: () => void;
+  onWarning?: (message: string) => void;
+}
+
+// Cameras beyond the main one, keyed by device id, for scene sources that pick a specific camera.
+// They only feed the compositor, so mirroring and rotation are drawn straight to a canvas.
+export const useExtraCameras = (
+  getSettings: (deviceId: string) => CameraSettings,
+  { devices, onDeviceAccess, onWarning }: CameraDevices,
+) => {
+  const [streams, setStreams] = useState<Record<string, MediaStream>>({});
+  // Cameras that were on when they got unplugged
+  const [lostIds, setLostIds] = useState<string[]>([]);
+  const reconnectingRef = useRef(new Set<string>());
+  const [videos, setVideos] = useState<Record<string, HTMLVideoElement>>({});
+  const videosRef = useRef(new Map<string, HTMLVideoElement>());
+  const streamsRef = useRef(streams);
+  streamsRef.current = streams;
+  const transforms = useMemo(() => new Map<string, CameraTransform>(), []);
+
+  // One hidden <video> per camera, kept while its stream is
+  useEffect(() => {
+    const elements = videosRef.current;
+    elements.forEach((element, deviceId) => {
+      if (streams[deviceId] === element.srcObject) return;
+      element.pause();
+      element.srcObject = null;
+      elements.delete(deviceId);
+      transforms.delete(deviceId);
+    });
+    Object.entries(streams).forEach(([deviceId, stream]) => {
+      if (elements.has(deviceId)) return;
+      const element = document.createElement('video');
+      element.muted = true;
+      element.playsInline = true;
+      element.autoplay = true;
+      element.srcObject = stream;
+      element.play().catch(error => console.warn('⚠️ Could not start hidden camera playback:', error));
+      elements.set(deviceId, element);
+    });
+    setVideos(Object.fromEntries(elements));
+  }, [streams, transforms]);
+
+  useEffect(() => {
+    const elements = videosRef.current;
+    return () => {
+      Object.values(streamsRef.current).forEach(stream => stream.getTracks().forEach(track => track.stop()));
+      elements.forEach(element => {
+        element.pause();
+        element.srcObject = null;
+      });
+      elements.clear();
+    };
+  }, []);
+
+  const getTransform = useCallback((deviceId: string) => {
+    let transform = transforms.get(deviceId);
+    if (!transform) {
+      transform = createCameraTransform();
+      transforms.set(deviceId, transform);
+    }
+    return transform;
+  }, [transforms]);
+
+  const sources = useMemo(() => Object.fromEntries(Object.entries(videos).map(([deviceId, video]) => [
+    deviceId,
+    needsCameraTransform(getSettings(deviceId)) ? getTransform(deviceId).canvas : video,
+  ])) as Record<string, CanvasImageSource>, [videos, getSettings, getTransform]);
+
+  useEffect(() => {
+    const transformed = Object.entries(videos).filter(([deviceId]) => needsCameraTransform(getSettings(deviceId)));
+    if (transformed.length === 0) return;
+
+    const render = () => transformed.forEach(([deviceId, video]) => getTransform(deviceId).render(video, getSettings(deviceId)));
+    const interval = setInterval(render, 1000 / TRANSFORM_FPS);
+    render();
+    return () => clearInterval(interval);
+  }, [videos, getSettings, getTransform]);
+
+  const stopCamera = useCallback((deviceId: string) => {
+    streamsRef.current[deviceId]?.getTracks().forEach(track => track.stop());
+    setStreams(prev => {
+      const next = { ...prev };
+      delete next[deviceId];
+      return next;
+    });
+    console.log('📹 Stopped extra camera', deviceId);
+  }, []);
+
+  const startCamera = useCallback(async (deviceId: string) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: buildVideoConstraints(deviceId, getSettings(deviceId)),
+      audio: false,
+    });
+    const label = stream.getVideoTracks()[0]?.label || 'Camera';
+    streamsRef.current = { ...streamsRef.current, [deviceId]: stream };
+    setStreams(prev => ({ ...prev, [deviceId]: stream }));
+    setLostIds(prev => prev.filter(lostId => lostId !== deviceId));
+    console.log(`📹 Started extra camera "${label}"`, stream.getVideoTracks()[0]?.getSettings());
+
+    stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+      if (streamsRef.current[deviceId] !== stream) return;
+      stopCamera(deviceId);
+      setLostIds(prev => (prev.includes(deviceId) ? prev : [...prev, deviceId]));
+      onWarning?.(`📹 "${label}" was disconnected. It will come back when it's plugged in again 🔌`);
+    }));
+    onDeviceAccess?.();
+    return label;
+  }, [getSettings, stopCamera, onDeviceAccess, onWarning]);
+
+  useEffect(() => {
+    lostIds.forEach(deviceId => {
+      if (!devices.some(device => device.deviceId === deviceId) || reconnectingRef.current.has(deviceId)) return;
+
+      reconnectingRef.current.add(deviceId);
+      startCamera(deviceId)
+        .then(label => onWarning?.(`📹 "${label}" reconnected ✨`))
+        .catch(error => console.warn('⚠️ Could not reconnect camera:', error))
+        .finally(() => reconnectingRef.current.delete(deviceId));
+    });
+  }, [lostIds, devices, startCamera, onWarning]);
+
+  const toggleCamera = useCallback(async (deviceId: string) => {
+    if (streamsRef.current[deviceId]) {
+      stopCamera(deviceId);
+    } else if (lostIds.includes(deviceId)) {
+      // Stops waiting for the camera to come back
+      setLostIds(prev => prev.filter(lostId => lostId !== deviceId));
+    } else {
+      await startCamera(deviceId);
+    }
+  }, [lostIds, startCamera, stopCamera]);
+
+  // New resolution or frame rate for a camera that's already running
+  const applyCaptureSettings = useCallback((deviceId: string, settings: CameraSettings) => {
+    streamsRef.current[deviceId]?.getVideoTracks().forEach(track => {
+      track.applyConstraints(buildCaptureConstraints(settings))
+        .catch(error => console.warn('⚠️ Camera could not switch to the new settings:', error));
+    });
+  }, []);
+
+  return {
+    activeIds: Object.keys(streams),
+    // Unplugged cameras that start again when they come back
+    lostIds,
+    sources,
+    toggleCamera,
+    applyCaptureSettings,
+  };
+};
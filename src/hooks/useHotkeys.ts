@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  DEFAULT_HOTKEYS,
+  HotkeyAction,
+  HotkeyBindings,
+  eventToCombo,
+  findConflicts,
+  sanitizeHotkeys,
+} from '../utils/hotkeys';
+
+const STORAGE_KEY = 'kawaii-hotkeys';
+
+const loadBindings = (): HotkeyBindings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_HOTKEYS, ...sanitizeHotkeys(JSON.parse(saved)) } : { ...DEFAULT_HOTKEYS };
+  } catch {
+    return { ...DEFAULT_HOTKEYS };
+  }
+};
+
+// Runs the registered actions from their saved key combos. Typing in a field never triggers
+// anything, and `enabled` turns everything off, e.g. while the editor is recording a new combo.
+export const useHotkeys = (actions: HotkeyAction[], enabled = true) => {
+  const [bindings, setBindings] = useState<HotkeyBindings>(loadBindings);
+  // Joined so the conflicts only recompute when the set of actions changes, not every render
+  const actionIds = actions.map(action => action.id).join('\n');
+  const conflicts = useMemo(() => findConflicts(bindings, actionIds.split('\n')), [bindings, actionIds]);
+
+  // Handlers change every render, so the listeners read them through refs
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  }, [bindings]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Hold actions waiting for their key to come back up, by key code
+    const held = new Map<string, HotkeyAction[]>();
+
+    const release = (code: string) => {
+      held.get(code)?.forEach(action => action.onRelease?.());
+      held.delete(code);
+    };
+    const releaseAll = () => [...held.keys()].forEach(release);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const combo = eventToCombo(event);
+      const matches = combo ? actionsRef.current.filter(action => bindingsRef.current[action.id] === combo) : [];
+      if (matches.length === 0) return;
+
+      event.preventDefault();
+      if (event.repeat) return;
+      matches.forEach(action => action.onPress());
+      const holds = matches.filter(action => action.onRelease);
+      if (holds.length > 0) held.set(event.code, holds);
+    };
+
+    // Modifiers may already be up by now, so releases match on the key alone
+    const handleKeyUp = (event: KeyboardEvent) => release(event.code);
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+    // Keys released while the window is in the background never send keyup
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      releaseAll();
+    };
+  }, [enabled]);
+
+  const setBinding = useCallback((actionId: string, combo: string | null) => {
+    setBindings(prev => ({ ...prev, [actionId]: combo }));
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    setBindings({ ...DEFAULT_HOTKEYS });
+  }, []);
+
+  return {
+    bindings,
+    conflicts,
+    setBinding,
+    resetBindings,
+  };
+};
@@ -1,10 +1,29 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { OutputStatus, transitionOutput } from '../utils/outputState';
+import { useAudioMixer } from './useAudioMixer';
+import { useAudioInputs } from './useAudioInputs';
+import { useCameraSettings } from './useCameraSettings';
+import { useExtraCameras } from './useExtraCameras';
+import { useRecordingStorage } from './useRecordingStorage';
+import { useOutputSettings } from './useOutputSettings';
+import { fileTimestamp } from '../utils/download';
+import { createRecordingWriter } from '../utils/recordingStorage';
+import { describeFormat, getRecorderOptions, shouldSplitRecording } from '../utils/outputSettings';
+import { RecordingMarker, formatChapterTime } from '../utils/chapterMarkers';
+import { AudioInputConstraints, buildAudioConstraints, sanitizeAudioInputConstraints } from '../utils/audioInputs';
+import { CameraSettings, buildCaptureConstraints, buildVideoConstraints } from '../utils/cameras';
+
+// The part currently being recorded, which is where new markers go
+interface RecordingPart {
+  markers: RecordingMarker[];
+  getElapsedMs: () => number;
+}
 
 interface MediaState {
   isScreenSharing: boolean;
   isCameraOn: boolean;
   isMicOn: boolean;
-  isRecording: boolean;
+  recordingStatus: OutputStatus;
   screenStream: MediaStream | null;
   cameraStream: MediaStream | null;
   microphoneStream: MediaStream | null;
@@ -13,14 +32,20 @@ interface MediaState {
   screenAudioVolume: number;
   availableMicrophones: MediaDeviceInfo[];
   selectedMicrophone: string;
+  microphoneConstraints: AudioInputConstraints;
+  availableCameras: MediaDeviceInfo[];
+  selectedCamera: string;
 }
 
+// Same curve as screen audio: 50% is unity gain, 100% is +6 dB
+const micVolumeToGain = (volume: number) => (volume / 100) * 2;
+
 export const useMediaAccess = () => {
   const [mediaState, setMediaState] = useState<MediaState>({
     isScreenSharing: false,
     isCameraOn: false,
     isMicOn: false,
-    isRecording: false,
+    recordingStatus: 'idle',
     screenStream: null,
     cameraStream: null,
     microphoneStream: null,
@@ -29,119 +54,128 @@ export const useMediaAccess = () => {
     screenAudioVolume: 80,
     availableMicrophones: [],
     selectedMicrophone: 'default',
+    microphoneConstraints: sanitizeAudioInputConstraints(null),
+    availableCameras: [],
+    selectedCamera: localStorage.getItem('kawaii-selected-camera') || 'default',
   });
 
+  const mixer = useAudioMixer();
+  const { attachChannel, detachChannel, getOutputStream, hasRoutedChannels, setChannelInputGain } = mixer;
+  const recordingStorage = useRecordingStorage();
+  const { prepareFolder, saveRecording } = recordingStorage;
+  const outputSettings = useOutputSettings();
+  const { settings: output, format: recordingFormat } = outputSettings;
+
+  // Labels only show up once the page has device access, so this runs again after each capture
+  const refreshDevices = useCallback(() => {
+    navigator.mediaDevices.enumerateDevices().then(devices => {
+      setMediaState(prev => ({
+        ...prev,
+        availableMicrophones: devices.filter(device => device.kind === 'audioinput'),
+        availableCameras: devices.filter(device => device.kind === 'videoinput'),
+      }));
+    });
+  }, []);
+
+  useEffect(() => {
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // Lost, recovered and ended devices; the id makes a repeat of the same message show again
+  const [deviceWarning, setDeviceWarning] = useState<{ message: string; id: number } | null>(null);
+
+  const warnDevice = useCallback((message: string) => {
+    console.warn(`⚠️ ${message}`);
+    setDeviceWarning({ message, id: Date.now() });
+  }, []);
+
+  const audioInputs = useAudioInputs(attachChannel, detachChannel, {
+    devices: mediaState.availableMicrophones,
+    onDeviceAccess: refreshDevices,
+    onWarning: warnDevice,
+  });
+  const cameraSettings = useCameraSettings();
+  const { getSettings: getCameraSettings, updateSettings: saveCameraSettings } = cameraSettings;
+  const extraCameras = useExtraCameras(getCameraSettings, {
+    devices: mediaState.availableCameras,
+    onDeviceAccess: refreshDevices,
+    onWarning: warnDevice,
+  });
+  const { applyCaptureSettings } = extraCameras;
+
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordingPartRef = useRef<RecordingPart | null>(null);
+  // Every marker in this recording session, across parts
+  const [recordingMarkers, setRecordingMarkers] = useState<RecordingMarker[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
   const micGainNodeRef = useRef<GainNode | null>(null);
+  // What feeds the mic preview, so a replacement device can be patched in
+  const micPreviewSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const micPreviewInputRef = useRef<MediaStream | null>(null);
   const screenGainNodeRef = useRef<GainNode | null>(null);
   
   // CRITICAL: Keep the original microphone stream separate and persistent
   const originalMicStreamRef = useRef<MediaStream | null>(null);
   const microphoneDeviceRef = useRef<string>('default');
-  
-  // NEW: Keep a recording-optimized microphone stream with proper gain
-  const recordingMicStreamRef = useRef<MediaStream | null>(null);
-  const recordingAudioContextRef = useRef<AudioContext | null>(null);
-  const recordingMicGainNodeRef = useRef<GainNode | null>(null);
+  const cameraDeviceRef = useRef<string>('default');
+
+  // Set when a device's track ends on its own, e.g. it was unplugged, until another device takes over
+  const [isMicLost, setIsMicLost] = useState(false);
+  const [isCameraLost, setIsCameraLost] = useState(false);
+  const isSwitchingMicRef = useRef(false);
+  const isSwitchingCameraRef = useRef(false);
+  // True while a stand-in device is being used because the chosen one went away
+  const isMicFallbackRef = useRef(false);
+  const isCameraFallbackRef = useRef(false);
+
+  // Anything but idle/error means the recorder may still need the microphone
+  const isRecording = mediaState.recordingStatus !== 'idle' && mediaState.recordingStatus !== 'error';
+
+  const setRecordingStatus = useCallback((next: OutputStatus) => {
+    setMediaState(prev => ({
+      ...prev,
+      recordingStatus: transitionOutput(prev.recordingStatus, next, 'Recording'),
+    }));
+  }, []);
 
   // Load settings from localStorage on mount
   useEffect(() => {
     const savedMicVolume = localStorage.getItem('kawaii-mic-volume');
     const savedScreenVolume = localStorage.getItem('kawaii-screen-volume');
     const savedMicrophone = localStorage.getItem('kawaii-selected-microphone');
+    const savedConstraints = localStorage.getItem('kawaii-mic-constraints');
 
-    if (savedMicVolume || savedScreenVolume || savedMicrophone) {
+    if (savedMicVolume || savedScreenVolume || savedMicrophone || savedConstraints) {
+      let microphoneConstraints = sanitizeAudioInputConstraints(null);
+      try {
+        microphoneConstraints = sanitizeAudioInputConstraints(JSON.parse(savedConstraints || 'null'));
+      } catch {
+        // Keep the defaults
+      }
       setMediaState(prev => ({
         ...prev,
         microphoneVolume: savedMicVolume ? parseInt(savedMicVolume) : 75,
         screenAudioVolume: savedScreenVolume ? parseInt(savedScreenVolume) : 80,
         selectedMicrophone: savedMicrophone || 'default',
+        microphoneConstraints,
       }));
     }
 
-    // Get available microphones
-    navigator.mediaDevices.enumerateDevices().then(devices => {
-      const microphones = devices.filter(device => device.kind === 'audioinput');
-      setMediaState(prev => ({
-        ...prev,
-        availableMicrophones: microphones,
-      }));
-    });
-  }, []);
-
-  const downloadFile = useCallback((blob: Blob, filename: string) => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.style.display = 'none';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, []);
-
-  const takeScreenshot = useCallback(() => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (mediaState.screenStream) {
-      const video = document.createElement('video');
-      video.srcObject = mediaState.screenStream;
-      video.play();
-      
-      video.addEventListener('loadedmetadata', () => {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        ctx?.drawImage(video, 0, 0);
-        
-        canvas.toBlob((blob) => {
-          if (blob) {
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-            downloadFile(blob, `kawaii-screenshot-${timestamp}.png`);
-          }
-        }, 'image/png');
-      });
-    }
-  }, [mediaState.screenStream, downloadFile]);
-
-  const createRecordingMicrophoneStream = useCallback(async (originalStream: MediaStream, volume: number) => {
-    console.log('🎙️ Creating recording-optimized microphone stream...');
-    
-    // Create a new audio context specifically for recording
-    const recordingContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const source = recordingContext.createMediaStreamSource(originalStream);
-    const gainNode = recordingContext.createGain();
-    const destination = recordingContext.createMediaStreamDestination();
-    
-    // Set a MUCH higher gain for recording (5x the UI volume setting, minimum 2.0)
-    const recordingGain = Math.max(2.0, (volume / 100) * 5);
-    gainNode.gain.value = recordingGain;
-    
-    console.log(`🔊 Setting recording microphone gain to: ${recordingGain} (UI volume: ${volume}%)`);
-    
-    source.connect(gainNode);
-    gainNode.connect(destination);
-    
-    recordingAudioContextRef.current = recordingContext;
-    recordingMicStreamRef.current = destination.stream;
-    recordingMicGainNodeRef.current = gainNode;
-    
-    return destination.stream;
-  }, []);
+    // Get available microphones and cameras
+    refreshDevices();
+  }, [refreshDevices]);
 
   const startScreenCapture = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getDisplayMedia({
         video: { 
           mediaSource: 'screen',
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          frameRate: { ideal: 30 }
+          width: { ideal: output.width },
+          height: { ideal: output.height },
+          frameRate: { ideal: output.fps }
         },
         audio: {
           echoCancellation: false,
@@ -172,6 +206,8 @@ export const useMediaAccess = () => {
         destination.stream.getAudioTracks().forEach(track => {
           stream.addTrack(track);
         });
+        
+        attachChannel('screen', 'Screen Audio', 'screen', destination.stream);
       }
       
       setMediaState(prev => ({
@@ -185,7 +221,7 @@ export const useMediaAccess = () => {
       console.error('Error starting screen capture:', error);
       throw error;
     }
-  }, [mediaState.screenAudioVolume]);
+  }, [mediaState.screenAudioVolume, attachChannel, output.width, output.height, output.fps]);
 
   const stopScreenCapture = useCallback(() => {
     if (mediaState.screenStream) {
@@ -200,27 +236,32 @@ export const useMediaAccess = () => {
       screenGainNodeRef.current.context.close();
       screenGainNodeRef.current = null;
     }
-  }, [mediaState.screenStream]);
+    detachChannel('screen');
+  }, [mediaState.screenStream, detachChannel]);
 
   const startCamera = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: true,
+        video: buildVideoConstraints(mediaState.selectedCamera, getCameraSettings(mediaState.selectedCamera)),
         audio: false,
       });
+      console.log('📹 Camera started:', stream.getVideoTracks()[0]?.getSettings());
+      cameraDeviceRef.current = mediaState.selectedCamera;
+      setIsCameraLost(false);
       
       setMediaState(prev => ({
         ...prev,
         isCameraOn: true,
         cameraStream: stream,
       }));
+      refreshDevices();
       
       return stream;
     } catch (error) {
       console.error('Error starting camera:', error);
       throw error;
     }
-  }, []);
+  }, [mediaState.selectedCamera, getCameraSettings, refreshDevices]);
 
   const stopCamera = useCallback(() => {
     if (mediaState.cameraStream) {
@@ -231,21 +272,25 @@ export const useMediaAccess = () => {
         cameraStream: null,
       }));
     }
+    isCameraFallbackRef.current = false;
+    setIsCameraLost(false);
   }, [mediaState.cameraStream]);
 
+  // Unplugged devices just end their tracks, so each capture watches for that
+  const watchMicrophone = useCallback((stream: MediaStream) => {
+    stream.getAudioTracks().forEach(track => track.addEventListener('ended', () => {
+      if (originalMicStreamRef.current !== stream) return;
+      setIsMicLost(true);
+      warnDevice('🎤 Your microphone was disconnected! Looking for another one... 💔');
+    }));
+  }, [warnDevice]);
+
   const startMicrophone = useCallback(async () => {
     try {
       console.log('🎤 Starting microphone...');
       
       const constraints = {
-        audio: {
-          deviceId: mediaState.selectedMicrophone !== 'default' ? { exact: mediaState.selectedMicrophone } : undefined,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 48000,
-          channelCount: 1
-        },
+        audio: buildAudioConstraints(mediaState.selectedMicrophone, mediaState.microphoneConstraints),
         video: false,
       };
 
@@ -260,10 +305,12 @@ export const useMediaAccess = () => {
         }
         originalMicStreamRef.current = originalStream.clone();
         microphoneDeviceRef.current = mediaState.selectedMicrophone;
+        watchMicrophone(originalMicStreamRef.current);
+        setIsMicLost(false);
         console.log('🎤 Stored new original microphone stream for recording');
         
-        // Create recording-optimized stream with current volume
-        await createRecordingMicrophoneStream(originalStream, mediaState.microphoneVolume);
+        // The mixer channel's gate/EQ/compressor chain shapes the recorded voice
+        attachChannel('microphone', 'Microphone', 'microphone', originalMicStreamRef.current, micVolumeToGain(mediaState.microphoneVolume));
       }
       
       // Create a separate stream for preview/monitoring with volume control
@@ -285,6 +332,8 @@ export const useMediaAccess = () => {
       audioContextRef.current = audioContext;
       analyserRef.current = analyser;
       micGainNodeRef.current = gainNode;
+      micPreviewSourceRef.current = source;
+      micPreviewInputRef.current = originalStream;
       
       // Use the volume-controlled stream for preview/monitoring only
       const previewStream = destination.stream;
@@ -315,12 +364,13 @@ export const useMediaAccess = () => {
       }));
       
       console.log('✅ Microphone started successfully');
+      refreshDevices();
       return previewStream;
     } catch (error) {
       console.error('Error starting microphone:', error);
       throw error;
     }
-  }, [mediaState.selectedMicrophone, mediaState.microphoneVolume, createRecordingMicrophoneStream]);
+  }, [mediaState.selectedMicrophone, mediaState.microphoneConstraints, mediaState.microphoneVolume, attachChannel, refreshDevices, watchMicrophone]);
 
   const stopMicrophone = useCallback(() => {
     console.log('🎤 Stopping microphone...');
@@ -332,23 +382,16 @@ export const useMediaAccess = () => {
     
     // CRITICAL: NEVER stop the original stream if we're recording!
     // Keep it alive for recording purposes
-    if (!mediaState.isRecording && originalMicStreamRef.current) {
+    if (!isRecording && originalMicStreamRef.current) {
       console.log('🎤 Stopping original microphone stream (not recording)');
       originalMicStreamRef.current.getTracks().forEach(track => track.stop());
       originalMicStreamRef.current = null;
-    } else if (mediaState.isRecording) {
+    } else if (isRecording) {
       console.log('🎤 Keeping original microphone stream alive for recording');
     }
     
-    // Clean up recording stream if not recording
-    if (!mediaState.isRecording && recordingMicStreamRef.current) {
-      recordingMicStreamRef.current.getTracks().forEach(track => track.stop());
-      recordingMicStreamRef.current = null;
-    }
-    
-    if (!mediaState.isRecording && recordingAudioContextRef.current) {
-      recordingAudioContextRef.current.close();
-      recordingAudioContextRef.current = null;
+    if (!isRecording) {
+      detachChannel('microphone');
     }
     
     // Stop audio context and monitoring
@@ -359,9 +402,15 @@ export const useMediaAccess = () => {
       cancelAnimationFrame(animationFrameRef.current);
     }
     
+    micPreviewInputRef.current?.getTracks().forEach(track => track.stop());
+    
     audioContextRef.current = null;
     analyserRef.current = null;
     micGainNodeRef.current = null;
+    micPreviewSourceRef.current = null;
+    micPreviewInputRef.current = null;
+    isMicFallbackRef.current = false;
+    setIsMicLost(false);
     
     setMediaState(prev => ({
       ...prev,
@@ -369,7 +418,7 @@ export const useMediaAccess = () => {
       microphoneStream: null,
       audioLevel: 0,
     }));
-  }, [mediaState.microphoneStream, mediaState.isRecording]);
+  }, [mediaState.microphoneStream, isRecording, detachChannel]);
 
   const setMicrophoneVolume = useCallback((volume: number) => {
     console.log(`🎚️ Setting microphone volume to: ${volume}%`);
@@ -383,13 +432,9 @@ export const useMediaAccess = () => {
       console.log(`🔊 Updated preview microphone gain to: ${volume / 100}`);
     }
     
-    // CRITICAL: Update recording stream gain in real-time
-    if (recordingMicGainNodeRef.current) {
-      const recordingGain = Math.max(2.0, (volume / 100) * 5);
-      recordingMicGainNodeRef.current.gain.value = recordingGain;
-      console.log(`🔊 Updated recording microphone gain to: ${recordingGain}`);
-    }
-  }, []);
+    // Update the mixer channel's input gain in real-time
+    setChannelInputGain('microphone', micVolumeToGain(volume));
+  }, [setChannelInputGain]);
 
   const setScreenAudioVolume = useCallback((volume: number) => {
     setMediaState(prev => ({ ...prev, screenAudioVolume: volume }));
@@ -406,110 +451,200 @@ export const useMediaAccess = () => {
     localStorage.setItem('kawaii-selected-microphone', deviceId);
   }, []);
 
-  const createMixedAudioStream = useCallback(() => {
-    console.log('🎵 Creating mixed audio stream for recording...');
-    
-    // Create a new audio context for mixing
-    const mixingContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const destination = mixingContext.createMediaStreamDestination();
-    
-    let hasAudio = false;
-    
-    // Add microphone audio with high gain
-    if (recordingMicStreamRef.current) {
-      const micSource = mixingContext.createMediaStreamSource(recordingMicStreamRef.current);
-      const micGain = mixingContext.createGain();
-      micGain.gain.value = 3.0; // Very high gain for microphone
-      
-      micSource.connect(micGain);
-      micGain.connect(destination);
-      
-      console.log('🎤 Added microphone to mix with 3.0x gain');
-      hasAudio = true;
-    }
-    
-    // Add screen audio with moderate gain
-    if (mediaState.screenStream) {
-      const screenAudioTracks = mediaState.screenStream.getAudioTracks();
-      if (screenAudioTracks.length > 0) {
-        const screenSource = mixingContext.createMediaStreamSource(new MediaStream(screenAudioTracks));
-        const screenGain = mixingContext.createGain();
-        screenGain.gain.value = (mediaState.screenAudioVolume / 100) * 1.5; // Moderate gain for screen audio
-        
-        screenSource.connect(screenGain);
-        screenGain.connect(destination);
-        
-        console.log(`🔊 Added screen audio to mix with ${screenGain.gain.value}x gain`);
-        hasAudio = true;
-      }
-    }
-    
-    if (hasAudio) {
-      console.log('✅ Mixed audio stream created successfully');
-      return destination.stream;
+  // Used the next time the microphone starts
+  const setMicrophoneConstraints = useCallback((changes: Partial<AudioInputConstraints>) => {
+    setMediaState(prev => {
+      const microphoneConstraints = sanitizeAudioInputConstraints({ ...prev.microphoneConstraints, ...changes });
+      localStorage.setItem('kawaii-mic-constraints', JSON.stringify(microphoneConstraints));
+      return { ...prev, microphoneConstraints };
+    });
+  }, []);
+
+  // A running camera switches over straight away (see the device recovery effects below)
+  const setSelectedCamera = useCallback((deviceId: string) => {
+    setMediaState(prev => ({ ...prev, selectedCamera: deviceId }));
+    localStorage.setItem('kawaii-selected-camera', deviceId);
+  }, []);
+
+  // Moves a running microphone to another device. The mixer channel is rebuilt on the new
+  // stream, so a recording or stream in progress carries on with the new device.
+  const switchMicrophoneDevice = useCallback(async (deviceId: string) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: buildAudioConstraints(deviceId, mediaState.microphoneConstraints),
+      video: false,
+    });
+    originalMicStreamRef.current?.getTracks().forEach(track => track.stop());
+    originalMicStreamRef.current = stream.clone();
+    microphoneDeviceRef.current = deviceId;
+    watchMicrophone(originalMicStreamRef.current);
+    attachChannel('microphone', 'Microphone', 'microphone', originalMicStreamRef.current, micVolumeToGain(mediaState.microphoneVolume));
+
+    // The level meter follows the new device too
+    micPreviewSourceRef.current?.disconnect();
+    micPreviewInputRef.current?.getTracks().forEach(track => track.stop());
+    if (audioContextRef.current && micGainNodeRef.current) {
+      micPreviewSourceRef.current = audioContextRef.current.createMediaStreamSource(stream);
+      micPreviewSourceRef.current.connect(micGainNodeRef.current);
+      micPreviewInputRef.current = stream;
     } else {
-      console.log('⚠️ No audio sources available for mixing');
-      mixingContext.close();
-      return null;
+      stream.getTracks().forEach(track => track.stop());
     }
-  }, [mediaState.screenStream, mediaState.screenAudioVolume]);
+    console.log('🎤 Switched microphone:', stream.getAudioTracks()[0]?.label);
+    return stream.getAudioTracks()[0]?.label || 'another microphone';
+  }, [mediaState.microphoneConstraints, mediaState.microphoneVolume, attachChannel, watchMicrophone]);
+
+  const switchCameraDevice = useCallback(async (deviceId: string) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: buildVideoConstraints(deviceId, getCameraSettings(deviceId)),
+      audio: false,
+    });
+    mediaState.cameraStream?.getTracks().forEach(track => track.stop());
+    cameraDeviceRef.current = deviceId;
+    setMediaState(prev => ({ ...prev, cameraStream: stream }));
+    console.log('📹 Switched camera:', stream.getVideoTracks()[0]?.getSettings());
+    return stream.getVideoTracks()[0]?.label || 'another camera';
+  }, [mediaState.cameraStream, getCameraSettings]);
+
+  useEffect(() => {
+    const tracks = mediaState.cameraStream?.getVideoTracks() ?? [];
+    const handleEnded = () => {
+      setIsCameraLost(true);
+      warnDevice('📷 Your camera was disconnected! Looking for another one... 💔');
+    };
+    tracks.forEach(track => track.addEventListener('ended', handleEnded));
+    return () => tracks.forEach(track => track.removeEventListener('ended', handleEnded));
+  }, [mediaState.cameraStream, warnDevice]);
+
+  // Also fires when the browser's own "Stop sharing" button is used
+  useEffect(() => {
+    const tracks = mediaState.screenStream?.getVideoTracks() ?? [];
+    const handleEnded = () => {
+      warnDevice('🖥️ Screen sharing ended');
+      stopScreenCapture();
+    };
+    tracks.forEach(track => track.addEventListener('ended', handleEnded));
+    return () => tracks.forEach(track => track.removeEventListener('ended', handleEnded));
+  }, [mediaState.screenStream, warnDevice, stopScreenCapture]);
+
+  // Device recovery: a running mic or camera goes back to the chosen device whenever it's there,
+  // and falls back to the system default while it isn't
+  useEffect(() => {
+    if (!mediaState.isMicOn || isSwitchingMicRef.current) return;
+    const selected = mediaState.selectedMicrophone;
+    const microphones = mediaState.availableMicrophones;
+    const isAvailable = selected === 'default' ? microphones.length > 0 : microphones.some(device => device.deviceId === selected);
+    const isReturning = microphoneDeviceRef.current !== selected && isAvailable;
+    const target = isReturning ? selected : isMicLost && microphones.length > 0 ? 'default' : null;
+    if (!target) return;
 
-  const startRecording = useCallback(() => {
+    isSwitchingMicRef.current = true;
+    switchMicrophoneDevice(target)
+      .then(label => {
+        // Only recoveries get a message; picking another mic by hand just switches
+        if (isMicLost && target !== selected) {
+          warnDevice(`🎤 Using ${label} until your microphone is back ✨`);
+        } else if (isMicLost || isMicFallbackRef.current) {
+          warnDevice(`🎤 Microphone reconnected: ${label} ✨`);
+        }
+        isMicFallbackRef.current = target !== selected;
+        setIsMicLost(false);
+      })
+      .catch(error => {
+        console.error('❌ Could not switch microphone:', error);
+        if (isMicLost) warnDevice('🎤 No microphone available. Plug one in and it will reconnect automatically 🔌');
+      })
+      .finally(() => {
+        isSwitchingMicRef.current = false;
+      });
+  }, [mediaState.isMicOn, mediaState.selectedMicrophone, mediaState.availableMicrophones, isMicLost, switchMicrophoneDevice, warnDevice]);
+
+  useEffect(() => {
+    if (!mediaState.isCameraOn || isSwitchingCameraRef.current) return;
+    const selected = mediaState.selectedCamera;
+    const cameras = mediaState.availableCameras;
+    const isAvailable = selected === 'default' ? cameras.length > 0 : cameras.some(device => device.deviceId === selected);
+    const isReturning = cameraDeviceRef.current !== selected && isAvailable;
+    const target = isReturning ? selected : isCameraLost && cameras.length > 0 ? 'default' : null;
+    if (!target) return;
+
+    isSwitchingCameraRef.current = true;
+    switchCameraDevice(target)
+      .then(label => {
+        if (isCameraLost && target !== selected) {
+          warnDevice(`📷 Using ${label} until your camera is back ✨`);
+        } else if (isCameraLost || isCameraFallbackRef.current) {
+          warnDevice(`📷 Camera reconnected: ${label} ✨`);
+        }
+        isCameraFallbackRef.current = target !== selected;
+        setIsCameraLost(false);
+      })
+      .catch(error => {
+        console.error('❌ Could not switch camera:', error);
+        if (isCameraLost) warnDevice('📷 No camera available. Plug one in and it will reconnect automatically 🔌');
+      })
+      .finally(() => {
+        isSwitchingCameraRef.current = false;
+      });
+  }, [mediaState.isCameraOn, mediaState.selectedCamera, mediaState.availableCameras, isCameraLost, switchCameraDevice, warnDevice]);
+
+  // Resolution and frame rate changes reach running cameras without restarting them
+  const updateCameraSettings = useCallback((deviceId: string, changes: Partial<CameraSettings>) => {
+    const settings = saveCameraSettings(deviceId, changes);
+    if (changes.resolution === undefined && changes.fps === undefined) return;
+
+    if (deviceId === mediaState.selectedCamera) {
+      mediaState.cameraStream?.getVideoTracks().forEach(track => {
+        track.applyConstraints(buildCaptureConstraints(settings))
+          .catch(error => console.warn('⚠️ Camera could not switch to the new settings:', error));
+      });
+    }
+    applyCaptureSettings(deviceId, settings);
+  }, [mediaState.selectedCamera, mediaState.cameraStream, saveCameraSettings, applyCaptureSettings]);
+
+  // getSceneNames lists the scenes shown so far, for the recordings library
+  const startRecording = useCallback((composedStream: MediaStream | null, getSceneNames?: () => string[]) => {
     console.log('🎬 Starting recording...');
     console.log('📊 Current state:', {
       screenSharing: mediaState.isScreenSharing,
       microphoneOn: mediaState.isMicOn,
       cameraOn: mediaState.isCameraOn,
       hasOriginalMicStream: !!originalMicStreamRef.current,
-      hasRecordingMicStream: !!recordingMicStreamRef.current,
-      hasScreenStream: !!mediaState.screenStream,
+      hasRecordAudio: hasRoutedChannels('record'),
+      hasComposedStream: !!composedStream,
     });
     
+    setRecordingStatus('starting');
+    
     const combinedStream = new MediaStream();
     let trackCount = 0;
     
-    // Add video tracks from screen (primary video source)
-    if (mediaState.screenStream) {
-      mediaState.screenStream.getVideoTracks().forEach(track => {
-        console.log('📺 Adding screen video track:', track.label || 'Screen Video');
+    // The compositor canvas is the single video source: the active scene and overlays.
+    // It's passed even while the scene is empty, so sources turned on mid-recording still appear.
+    if (composedStream) {
+      composedStream.getVideoTracks().forEach(track => {
+        console.log('🎨 Adding composed video track:', track.label || 'Compositor Canvas');
         combinedStream.addTrack(track);
         trackCount++;
       });
     }
     
-    // Add camera video if no screen sharing (fallback)
-    if (!mediaState.screenStream && mediaState.isCameraOn) {
-      const cameraStreamToUse = mediaState.cameraStream;
-      if (cameraStreamToUse) {
-        cameraStreamToUse.getVideoTracks().forEach(track => {
-          console.log('📷 Adding camera video track:', track.label || 'Camera');
-          combinedStream.addTrack(track);
-          trackCount++;
-        });
-      }
-    }
-    
-    // CRITICAL: Create a properly mixed audio stream
-    const mixedAudioStream = createMixedAudioStream();
-    if (mixedAudioStream) {
-      mixedAudioStream.getAudioTracks().forEach(track => {
-        console.log('🎵 Adding mixed audio track:', {
-          label: track.label || 'Mixed Audio',
-          enabled: track.enabled,
-          readyState: track.readyState,
-          muted: track.muted,
-          settings: track.getSettings()
-        });
-        
-        // Ensure the track is enabled and not muted
-        track.enabled = true;
-        
-        combinedStream.addTrack(track);
-        trackCount++;
+    // The mixer's record bus carries every source routed to the recording, at its fader level.
+    // It's added even while silent, since a MediaRecorder can't take an audio track added later.
+    getOutputStream('record').getAudioTracks().forEach(track => {
+      console.log('🎵 Adding record bus audio track:', {
+        label: track.label || 'Mixed Audio',
+        enabled: track.enabled,
+        readyState: track.readyState,
+        muted: track.muted,
+        settings: track.getSettings()
       });
-    } else {
-      console.error('❌ Failed to create mixed audio stream!');
-    }
+      
+      // Ensure the track is enabled and not muted
+      track.enabled = true;
+      
+      combinedStream.addTrack(track);
+      trackCount++;
+    });
     
     console.log(`🎵 Total tracks added: ${trackCount}`);
     console.log('🎵 Combined stream tracks:', combinedStream.getTracks().map(t => ({ 
@@ -521,85 +656,155 @@ export const useMediaAccess = () => {
     })));
     
     if (combinedStream.getTracks().length > 0) {
-      recordedChunksRef.current = [];
+      // Runs while we're still inside the Record click, in case the folder needs permission again
+      prepareFolder().catch(error => console.warn('⚠️ Could not check access to the recordings folder:', error));
       
-      // Use the most compatible codec
-      const codecOptions = [
-        'video/mp4;codecs=h264,aac',
-        'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
-        'video/mp4',
-        'video/webm;codecs=vp9,opus',
-        'video/webm;codecs=vp8,opus',
-        'video/webm'
-      ];
-      
-      let mimeType = 'video/webm'; // fallback
-      for (const codec of codecOptions) {
-        if (MediaRecorder.isTypeSupported(codec)) {
-          mimeType = codec;
-          console.log('✅ Using codec:', mimeType);
-          break;
-        }
-      }
-      
-      const mediaRecorder = new MediaRecorder(combinedStream, {
-        mimeType: mimeType,
-        videoBitsPerSecond: 8000000, // 8 Mbps for high quality
-        audioBitsPerSecond: 320000,  // 320 kbps for high quality audio
+      // The Output Settings format, or the closest one this browser supports
+      const mimeType = recordingFormat.mimeType || 'video/webm';
+      console.log(`✅ Using ${describeFormat(recordingFormat.container, recordingFormat.videoCodec)}:`, mimeType, {
+        videoKbps: output.videoBitrateKbps,
+        audioKbps: output.audioBitrateKbps,
+        bitrateMode: output.bitrateMode,
       });
       
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          console.log('📦 Recording chunk received:', event.data.size, 'bytes');
-          recordedChunksRef.current.push(event.data);
+      setRecordingMarkers([]);
+      const sessionStamp = fileTimestamp();
+      const sessionId = crypto.randomUUID().slice(0, 8);
+      const isSplitting = output.splitMode !== 'off';
+      let partCount = 0;
+      // Parts still recording or saving; the session is over once the last one is saved
+      let openParts = 0;
+      let failed = false;
+
+      // Each part is its own recorder on the same stream. When a part is full, the next one starts
+      // first and the old one only stops once it's running, so the files overlap instead of gapping.
+      const startPart = (previous: MediaRecorder | null) => {
+        const part = ++partCount;
+        let mediaRecorder: MediaRecorder;
+        try {
+          mediaRecorder = new MediaRecorder(combinedStream, getRecorderOptions(output, recordingFormat));
+        } catch (error) {
+          console.error('❌ Could not create MediaRecorder:', error);
+          if (previous) return; // Keep recording into the current part
+          setRecordingStatus('error');
+          throw error;
         }
-      };
-      
-      mediaRecorder.onstop = () => {
-        console.log('🛑 Recording stopped, processing...');
-        const blob = new Blob(recordedChunksRef.current, { type: mimeType });
-        console.log('💾 Final recording blob size:', blob.size, 'bytes');
+
+        const fileName = isSplitting
+          ? `kawaii-recording-${sessionStamp}-${sessionId}-part${part.toString().padStart(3, '0')}.${recordingFormat.extension}`
+          : `kawaii-recording-${sessionStamp}.${recordingFormat.extension}`;
+        const writer = createRecordingWriter(fileName, mimeType, isSplitting ? { sessionId, part } : {}, () => {
+          warnDevice('💾 Your disk is full! The rest of this recording is kept in memory, so save it soon 💔');
+        });
+        let bytes = 0;
+        let activeMs = 0;
+        let resumedAt = Date.now();
+        let isPaused = false;
+        const markers: RecordingMarker[] = [];
+        const getElapsedMs = () => activeMs + (isPaused ? 0 : Date.now() - resumedAt);
+        openParts++;
+
+        // Chunks go to disk as they arrive instead of piling up in memory
+        mediaRecorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            console.log('📦 Recording chunk received:', event.data.size, 'bytes');
+            writer.write(event.data);
+            bytes += event.data.size;
+          }
+
+          const isCurrent = mediaRecorderRef.current === mediaRecorder;
+          if (isCurrent && mediaRecorder.state === 'recording' && shouldSplitRecording(output, activeMs + Date.now() - resumedAt, bytes)) {
+            console.log(`✂️ Splitting recording after part ${part} (${bytes} bytes)`);
+            startPart(mediaRecorder);
+          }
+        };
         
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        mediaRecorder.onstop = async () => {
+          console.log(`🛑 Recording part ${part} stopped, processing...`);
+          // Read before anything is awaited, or the time spent saving counts as recorded
+          const durationMs = getElapsedMs();
+          if (mediaRecorderRef.current === mediaRecorder) {
+            // Stopped by the browser (e.g. every track ended) rather than by us
+            mediaRecorderRef.current = null;
+            setRecordingStatus('stopping');
+          }
+          if (recordingPartRef.current?.markers === markers) recordingPartRef.current = null;
+          try {
+            const file = await writer.finish();
+            console.log('💾 Final recording size:', file.size, 'bytes');
+            await saveRecording(writer.id, file, {
+              durationMs,
+              scenes: getSceneNames?.() ?? [],
+              markers,
+              ...(isSplitting ? { sessionId, part } : {}),
+            });
+          } catch (error) {
+            // The chunks are still on disk, so the next launch offers to recover them
+            console.error('❌ Could not save the recording:', error);
+            failed = true;
+          }
+          openParts--;
+          if (openParts === 0 && !mediaRecorderRef.current) {
+            setRecordingStatus(failed ? 'error' : 'idle');
+          }
+        };
         
-        // Use appropriate file extension
-        const extension = mimeType.includes('mp4') ? 'mp4' : 'webm';
-        downloadFile(blob, `kawaii-recording-${timestamp}.${extension}`);
-        recordedChunksRef.current = [];
-      };
-      
-      mediaRecorder.onerror = (event) => {
-        console.error('❌ MediaRecorder error:', event);
+        mediaRecorder.onstart = () => {
+          recordingPartRef.current = { markers, getElapsedMs };
+          if (previous) {
+            console.log(`🔴 Recording part ${part} started`);
+            previous.stop();
+          } else {
+            console.log('🔴 Recording started successfully!');
+            setRecordingStatus('active');
+          }
+        };
+        
+        // MediaRecorder leaves paused time out of the file, so the timeline stays continuous
+        mediaRecorder.onpause = () => {
+          console.log('⏸️ Recording paused');
+          activeMs += Date.now() - resumedAt;
+          isPaused = true;
+          setRecordingStatus('paused');
+        };
+        
+        mediaRecorder.onresume = () => {
+          console.log('▶️ Recording resumed');
+          resumedAt = Date.now();
+          isPaused = false;
+          setRecordingStatus('active');
+        };
+        
+        mediaRecorder.onerror = (event) => {
+          console.error('❌ MediaRecorder error:', event);
+          setRecordingStatus('error');
+        };
+        
+        mediaRecorder.start(1000); // Record in 1-second chunks
+        mediaRecorderRef.current = mediaRecorder;
       };
-      
-      mediaRecorder.start(1000); // Record in 1-second chunks
-      mediaRecorderRef.current = mediaRecorder;
-      
-      console.log('🔴 Recording started successfully!');
-      
-      setMediaState(prev => ({
-        ...prev,
-        isRecording: true,
-      }));
+
+      startPart(null);
     } else {
       console.warn('⚠️ No streams available for recording');
+      setRecordingStatus('error');
+      throw new Error('No streams available for recording');
     }
-  }, [mediaState.screenStream, mediaState.cameraStream, mediaState.isMicOn, mediaState.isCameraOn, downloadFile, createMixedAudioStream]);
+  }, [mediaState.isScreenSharing, mediaState.isMicOn, mediaState.isCameraOn, hasRoutedChannels, getOutputStream, setRecordingStatus, prepareFolder, saveRecording, output, recordingFormat, warnDevice]);
 
   const stopRecording = useCallback(() => {
     console.log('⏹️ Stopping recording...');
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      // The recorder's onstop handler moves us back to idle once the file is saved
+      setRecordingStatus('stopping');
       mediaRecorderRef.current.stop();
       mediaRecorderRef.current = null;
       
-      setMediaState(prev => ({
-        ...prev,
-        isRecording: false,
-      }));
-      
       console.log('✅ Recording stopped successfully!');
+    } else {
+      setRecordingStatus('idle');
     }
-    
+
     // Clean up the original microphone stream only if microphone is off AND we're not recording
     if (!mediaState.isMicOn && originalMicStreamRef.current) {
       console.log('🧹 Cleaning up original microphone stream after recording');
@@ -607,18 +812,31 @@ export const useMediaAccess = () => {
       originalMicStreamRef.current = null;
     }
     
-    // Clean up recording microphone stream
-    if (!mediaState.isMicOn && recordingMicStreamRef.current) {
-      console.log('🧹 Cleaning up recording microphone stream');
-      recordingMicStreamRef.current.getTracks().forEach(track => track.stop());
-      recordingMicStreamRef.current = null;
+    if (!mediaState.isMicOn) {
+      detachChannel('microphone');
     }
-    
-    if (!mediaState.isMicOn && recordingAudioContextRef.current) {
-      recordingAudioContextRef.current.close();
-      recordingAudioContextRef.current = null;
+  }, [mediaState.isMicOn, setRecordingStatus, detachChannel]);
+
+  // The recorder's onpause/onresume handlers update the status
+  const togglePauseRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state === 'recording') {
+      recorder.pause();
+    } else if (recorder?.state === 'paused') {
+      recorder.resume();
     }
-  }, [mediaState.isMicOn]);
+  }, []);
+
+  // Drops a named marker at the current point of the part being recorded
+  const addRecordingMarker = useCallback((name: string) => {
+    const part = recordingPartRef.current;
+    if (!part) return null;
+    const marker: RecordingMarker = { name, timeMs: part.getElapsedMs() };
+    part.markers.push(marker);
+    setRecordingMarkers(prev => [...prev, marker]);
+    console.log(`🔖 Marker "${name}" at ${formatChapterTime(marker.timeMs)}`);
+    return marker;
+  }, []);
 
   return {
     mediaState,
@@ -630,9 +848,21 @@ export const useMediaAccess = () => {
     stopMicrophone,
     startRecording,
     stopRecording,
-    takeScreenshot,
+    togglePauseRecording,
+    recordingMarkers,
+    addRecordingMarker,
     setMicrophoneVolume,
     setScreenAudioVolume,
     setSelectedMicrophone,
+    setMicrophoneConstraints,
+    audioInputs,
+    setSelectedCamera,
+    deviceWarning,
+    getCameraSettings,
+    updateCameraSettings,
+    extraCameras,
+    mixer,
+    recordingStorage,
+    outputSettings,
   };
 };
\ No newline at end of file
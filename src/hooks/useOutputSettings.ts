@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  OutputSettings,
+  getDefaultOutputSettings,
+  getSupportMatrix,
+  resolveRecordingFormat,
+  sanitizeOutputSettings,
+} from '../utils/outputSettings';
+
+const STORAGE_KEY = 'kawaii-output-settings';
+
+const loadOutputSettings = (): OutputSettings => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return getDefaultOutputSettings();
+  try {
+    return sanitizeOutputSettings(JSON.parse(saved));
+  } catch {
+    return getDefaultOutputSettings();
+  }
+};
+
+export const useOutputSettings = () => {
+  const [settings, setSettings] = useState<OutputSettings>(loadOutputSettings);
+
+  // MediaRecorder support doesn't change while the page is open
+  const support = useMemo(() => getSupportMatrix(), []);
+  const format = useMemo(() => resolveRecordingFormat(settings), [settings]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const updateSettings = useCallback((changes: Partial<OutputSettings>) => {
+    setSettings(prev => sanitizeOutputSettings({ ...prev, ...changes }));
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setSettings(getDefaultOutputSettings());
+  }, []);
+
+  return {
+    settings,
+    format,
+    support,
+    updateSettings,
+    resetSettings,
+  };
+};
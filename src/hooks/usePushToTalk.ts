@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PushToTalkSettings, isGateOpen, sanitizePushToTalkSettings } from '../utils/pushToTalk';
+
+const STORAGE_KEY = 'kawaii-push-to-talk';
+
+const loadPushToTalkSettings = (): PushToTalkSettings => {
+  try {
+    return sanitizePushToTalkSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+  } catch {
+    return sanitizePushToTalkSettings(null);
+  }
+};
+
+// Drives a mixer channel's gate from a held key. The gate ramps in the mixer, so switching is
+// instant and click-free, unlike stopping and restarting the microphone.
+export const usePushToTalk = (setGate: (open: boolean) => void) => {
+  const [settings, setSettings] = useState<PushToTalkSettings>(loadPushToTalkSettings);
+  const [isKeyDown, setIsKeyDown] = useState(false);
+  // Follows the key, except that going back after a release waits for the release delay
+  const [isHeld, setIsHeld] = useState(false);
+  const releaseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const isOpen = isGateOpen(settings.mode, isHeld);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    setGate(isOpen);
+  }, [isOpen, setGate]);
+
+  const clearReleaseTimer = useCallback(() => {
+    if (releaseTimerRef.current) {
+      clearTimeout(releaseTimerRef.current);
+      releaseTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clearReleaseTimer, [clearReleaseTimer]);
+
+  const press = useCallback(() => {
+    clearReleaseTimer();
+    setIsKeyDown(true);
+    setIsHeld(true);
+  }, [clearReleaseTimer]);
+
+  const release = useCallback(() => {
+    clearReleaseTimer();
+    setIsKeyDown(false);
+    if (settings.releaseDelayMs === 0) {
+      setIsHeld(false);
+      return;
+    }
+    releaseTimerRef.current = setTimeout(() => {
+      releaseTimerRef.current = null;
+      setIsHeld(false);
+    }, settings.releaseDelayMs);
+  }, [settings.releaseDelayMs, clearReleaseTimer]);
+
+  const updateSettings = useCallback((changes: Partial<PushToTalkSettings>) => {
+    setSettings(prev => sanitizePushToTalkSettings({ ...prev, ...changes }));
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+    isKeyDown,
+    isOpen,
+    press,
+    release,
+  };
+};
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  UnfinishedRecording,
+  chooseRecordingFolder,
+  cleanupSavedRecordings,
+  discardUnfinishedRecording,
+  ensureFolderPermission,
+  forgetRecordingFolder,
+  isFolderPickerSupported,
+  listUnfinishedRecordings,
+  loadRecordingFolder,
+  markRecordingSaved,
+  readUnfinishedRecording,
+  saveRecordingFile,
+} from '../utils/recordingStorage';
+import {
+  LibraryRecording,
+  RecordingDetails,
+  addToLibrary,
+  deleteLibraryRecording,
+  isLibrarySupported,
+  listLibraryRecordings,
+  readLibraryFile,
+  renameLibraryRecording,
+  trimRecording,
+} from '../utils/recordingLibrary';
+import { fileTimestamp } from '../utils/download';
+import { makeSeekable } from '../utils/webmMetadata';
+import { createMarkerSidecars, trimMarkers } from '../utils/chapterMarkers';
+
+// Where finished recordings go, the library that keeps them, and whatever a crashed session left behind
+export const useRecordingStorage = () => {
+  const [folder, setFolder] = useState<FileSystemDirectoryHandle | null>(null);
+  const [unfinished, setUnfinished] = useState<UnfinishedRecording[]>([]);
+  const [library, setLibrary] = useState<LibraryRecording[]>([]);
+  const folderRef = useRef<FileSystemDirectoryHandle | null>(null);
+  folderRef.current = folder;
+
+  useEffect(() => {
+    loadRecordingFolder().then(setFolder);
+
+    listLibraryRecordings()
+      .then(setLibrary)
+      .catch(error => console.warn('⚠️ Could not load the recordings library:', error));
+
+    listUnfinishedRecordings()
+      .then(recordings => {
+        if (recordings.length > 0) {
+          console.log(`🩹 Found ${recordings.length} unfinished recording(s) from a previous session`);
+        }
+        setUnfinished(recordings);
+        return cleanupSavedRecordings();
+      })
+      .catch(error => console.warn('⚠️ Could not check for unfinished recordings:', error));
+  }, []);
+
+  const chooseFolder = useCallback(async () => {
+    const chosen = await chooseRecordingFolder();
+    setFolder(chosen);
+    return chosen;
+  }, []);
+
+  const forgetFolder = useCallback(async () => {
+    await forgetRecordingFolder();
+    setFolder(null);
+  }, []);
+
+  // Must run inside the click that starts a recording, since the browser may need to ask again
+  const prepareFolder = useCallback(async () => {
+    if (!folderRef.current) return;
+    if (!await ensureFolderPermission(folderRef.current, true)) {
+      console.warn('⚠️ No access to the recordings folder, this recording will be downloaded instead');
+    }
+  }, []);
+
+  // For files that never went through the journal, like screenshots
+  const saveFile = useCallback((file: File) => saveRecordingFile(file, folderRef.current), []);
+
+  // Replays come from MediaRecorder too, so they need the same seeking info as recordings
+  const saveReplay = useCallback(async (file: File) => saveFile(await makeSeekable(file)), [saveFile]);
+
+  // The library keeps its own copy, so a failure there shouldn't lose the saved file
+  const keepInLibrary = useCallback(async (file: File, details?: RecordingDetails) => {
+    if (!isLibrarySupported()) return null;
+    try {
+      const recording = await addToLibrary(file, details);
+      setLibrary(prev => [recording, ...prev]);
+      return recording;
+    } catch (error) {
+      console.warn('⚠️ Could not add the recording to the library:', error);
+      return null;
+    }
+  }, []);
+
+  const saveRecording = useCallback(async (id: string, recorded: File, details?: RecordingDetails) => {
+    const markers = details?.markers ?? [];
+    const fixed = await makeSeekable(recorded, markers);
+    // Once the library holds its own copy, the save reads from that and the journal file can go
+    const recording = await keepInLibrary(fixed, details);
+    const hasOwnCopy = !!recording && recording.fileName !== recorded.name;
+    const file = hasOwnCopy ? new File([await readLibraryFile(recording)], fixed.name, { type: fixed.type }) : fixed;
+
+    const destination = await saveFile(file);
+    // Not every player reads WebM chapters, so markers also go next to the recording
+    for (const sidecar of markers.length > 0 ? createMarkerSidecars(file.name, markers) : []) {
+      await saveFile(sidecar).catch(error => console.warn('⚠️ Could not save', sidecar.name, error));
+    }
+    await markRecordingSaved(id, hasOwnCopy ? recorded.name : undefined)
+      .catch(error => console.warn('⚠️ Could not update the recording journal:', error));
+    return destination;
+  }, [saveFile, keepInLibrary]);
+
+  const recoverRecording = useCallback(async (recording: UnfinishedRecording) => {
+    if (folderRef.current) await ensureFolderPermission(folderRef.current, true);
+    const file = await readUnfinishedRecording(recording);
+    await saveRecording(recording.id, file, { sessionId: recording.sessionId, part: recording.part });
+    setUnfinished(prev => prev.filter(item => item.id !== recording.id));
+  }, [saveRecording]);
+
+  const discardRecording = useCallback(async (recording: UnfinishedRecording) => {
+    await discardUnfinishedRecording(recording);
+    setUnfinished(prev => prev.filter(item => item.id !== recording.id));
+  }, []);
+
+  const renameRecording = useCallback(async (recording: LibraryRecording, name: string) => {
+    const renamed = await renameLibraryRecording(recording, name);
+    setLibrary(prev => prev.map(item => (item.id === renamed.id ? renamed : item)));
+  }, []);
+
+  const deleteRecording = useCallback(async (recording: LibraryRecording) => {
+    await deleteLibraryRecording(recording);
+    setLibrary(prev => prev.filter(item => item.id !== recording.id));
+  }, []);
+
+  // Exports use the library name, so a renamed recording saves under its new name
+  const exportRecording = useCallback(async (recording: LibraryRecording) => {
+    if (folderRef.current) await ensureFolderPermission(folderRef.current, true);
+    const file = await readLibraryFile(recording);
+    const extension = recording.fileName.split('.').pop();
+    const fileName = `${recording.name.replace(/[\\/:*?"<>|]/g, '-')}.${extension}`;
+    return saveFile(new File([file], fileName, { type: recording.mimeType }));
+  }, [saveFile]);
+
+  // The trimmed clip becomes a new library entry; the original is left alone
+  const trimLibraryRecording = useCallback(async (
+    recording: LibraryRecording,
+    startSeconds: number,
+    endSeconds: number,
+    onProgress?: (progress: number) => void,
+  ) => {
+    const source = await readLibraryFile(recording);
+    const extension = recording.fileName.split('.').pop();
+    const trimmed = await trimRecording(source, startSeconds, endSeconds, `kawaii-trim-${fileTimestamp()}.${extension}`, onProgress);
+    const markers = trimMarkers(recording.markers ?? [], startSeconds * 1000, endSeconds * 1000);
+    const file = await makeSeekable(trimmed.file, markers);
+    const trimmedRecording = await keepInLibrary(file, {
+      name: `${recording.name} (trimmed)`,
+      durationMs: Math.round((endSeconds - startSeconds) * 1000),
+      scenes: recording.scenes,
+      markers,
+    });
+    const hasOwnCopy = !!trimmedRecording && trimmedRecording.fileName !== trimmed.file.name;
+    await markRecordingSaved(trimmed.id, hasOwnCopy ? trimmed.file.name : undefined)
+      .catch(error => console.warn('⚠️ Could not update the recording journal:', error));
+  }, [keepInLibrary]);
+
+  return {
+    folderName: folder?.name ?? null,
+    canChooseFolder: isFolderPickerSupported(),
+    unfinished,
+    chooseFolder,
+    forgetFolder,
+    prepareFolder,
+    saveFile,
+    saveReplay,
+    saveRecording,
+    recoverRecording,
+    discardRecording,
+    isLibrarySupported: isLibrarySupported(),
+    library,
+    readRecording: readLibraryFile,
+    renameRecording,
+    deleteRecording,
+    exportRecording,
+    trimRecording: trimLibraryRecording,
+  };
+};
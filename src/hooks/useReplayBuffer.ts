@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ReplayBuffer, createReplayBuffer } from '../utils/replayBuffer';
+import { OutputSettings, RecordingFormat, getRecorderOptions } from '../utils/outputSettings';
+import { fileTimestamp } from '../utils/download';
+
+export const useReplayBuffer = (settings: OutputSettings, format: RecordingFormat) => {
+  const [isActive, setIsActive] = useState(false);
+  const [bufferedSeconds, setBufferedSeconds] = useState(0);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const bufferRef = useRef<ReplayBuffer | null>(null);
+
+  const stop = useCallback(() => {
+    bufferRef.current?.stop();
+    bufferRef.current = null;
+    setIsActive(false);
+    setBufferedSeconds(0);
+  }, []);
+
+  // Uses the recording format and bitrate from Output Settings
+  const start = useCallback((stream: MediaStream) => {
+    bufferRef.current?.stop();
+    setReplayError(null);
+    const buffer = createReplayBuffer(stream, {
+      seconds: settings.replaySeconds,
+      maxBytes: settings.replayMaxMegabytes * 1024 * 1024,
+      mimeType: format.mimeType || 'video/webm',
+      recorderOptions: getRecorderOptions(settings, format),
+      onError: () => {
+        if (bufferRef.current !== buffer) return;
+        bufferRef.current = null;
+        setIsActive(false);
+        setBufferedSeconds(0);
+        setReplayError('The replay buffer stopped because the recorder could not keep going');
+      },
+    });
+    bufferRef.current = buffer;
+    setIsActive(true);
+  }, [settings, format]);
+
+  // Resolves with the replay, or null when there isn't enough buffered yet
+  const save = useCallback(async () => {
+    const blob = await bufferRef.current?.save();
+    if (!blob) return null;
+    return new File([blob], `kawaii-replay-${fileTimestamp()}.${format.extension}`, { type: blob.type });
+  }, [format.extension]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => {
+      setBufferedSeconds(Math.min(settings.replaySeconds, Math.floor((bufferRef.current?.getBufferedMs() ?? 0) / 1000)));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isActive, settings.replaySeconds]);
+
+  useEffect(() => () => bufferRef.current?.stop(), []);
+
+  return {
+    isActive,
+    bufferedSeconds,
+    replayError,
+    start,
+    stop,
+    save,
+  };
+};
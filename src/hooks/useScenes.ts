@@ -0,0 +1,369 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { CompositorLayer, LayerRect, DEFAULT_CAMERA_RECT, clampRect } from '../utils/compositor';
+import {
+  Scene,
+  SceneSource,
+  SceneSourceKind,
+  SceneTransition,
+  DEFAULT_TRANSITION,
+  clampCrop,
+  createDefaultScenes,
+  createScene,
+  createSource,
+  duplicateScene as cloneScene,
+  mediaKeyOf,
+} from '../utils/scenes';
+import { MixerChannelKind } from '../utils/audioMixer';
+import { useStreamVideo } from './useStreamVideo';
+
+interface SceneState {
+  scenes: Scene[];
+  activeSceneId: string;
+}
+
+// In studio mode Program shows a snapshot, so edits to the preview scene stay off air until the next transition
+interface ProgramState {
+  scene: Scene;
+  // Changes on every transition so the program compositor animates even when re-taking the same scene
+  key: string;
+}
+
+// The main camera (with its filters) and every running camera by device id
+export interface SceneCameras {
+  main: CanvasImageSource | null;
+  byDevice: Record<string, CanvasImageSource>;
+}
+
+interface SceneAudio {
+  attachChannel: (id: string, label: string, kind: MixerChannelKind, input: HTMLMediaElement) => void;
+  detachChannel: (id: string) => void;
+}
+
+// Before scenes existed the only saved layout was the camera position
+const loadLegacyCameraLayout = (): LayerRect => {
+  const saved = localStorage.getItem('kawaii-camera-layout');
+  if (saved) {
+    try {
+      return clampRect(JSON.parse(saved));
+    } catch (error) {
+      console.warn('⚠️ Ignoring invalid saved camera layout:', error);
+    }
+  }
+  return DEFAULT_CAMERA_RECT;
+};
+
+const loadScenes = (): SceneState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('kawaii-scenes') || 'null');
+    if (saved && Array.isArray(saved.scenes) && saved.scenes.length > 0) {
+      const activeSceneId = saved.scenes.some((scene: Scene) => scene.id === saved.activeSceneId)
+        ? saved.activeSceneId
+        : saved.scenes[0].id;
+      return { scenes: saved.scenes, activeSceneId };
+    }
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid saved scenes:', error);
+  }
+
+  const scenes = createDefaultScenes(loadLegacyCameraLayout());
+  return { scenes, activeSceneId: scenes[0].id };
+};
+
+const loadTransition = (): SceneTransition => {
+  try {
+    return { ...DEFAULT_TRANSITION, ...JSON.parse(localStorage.getItem('kawaii-scene-transition') || '{}') };
+  } catch {
+    return DEFAULT_TRANSITION;
+  }
+};
+
+export const useScenes = (
+  screenStream: MediaStream | null,
+  cameras: SceneCameras,
+  audio: SceneAudio,
+) => {
+  const [state, setState] = useState<SceneState>(loadScenes);
+  const [transition, setTransitionState] = useState<SceneTransition>(loadTransition);
+  const [selectedSourceId, setSelectedSourceId] = useState<string | null>(null);
+  const [studioMode, setStudioModeState] = useState(() => localStorage.getItem('kawaii-studio-mode') === 'true');
+  const [program, setProgram] = useState<ProgramState | null>(null);
+  const [showWatermark, setShowWatermarkState] = useState(
+    () => localStorage.getItem('kawaii-show-watermark') === 'true'
+  );
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  // Keyed by media key, so duplicated sources share one element and mixer channel
+  const mediaRef = useRef(new Map<string, HTMLVideoElement>());
+  // Snapshot of mediaRef so layers rebuild when a file is linked or released
+  const [mediaElements, setMediaElements] = useState<Record<string, HTMLVideoElement>>({});
+  const { attachChannel, detachChannel } = audio;
+
+  const screenVideo = useStreamVideo(screenStream);
+
+  const { scenes, activeSceneId } = state;
+  const activeScene = scenes.find(scene => scene.id === activeSceneId) ?? scenes[0];
+  const programScene = studioMode && program ? program.scene : activeScene;
+  const programKey = studioMode && program ? program.key : activeScene.id;
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('kawaii-scenes', JSON.stringify(state));
+    } catch (error) {
+      // Big images can blow the storage quota; the scenes still work for this session
+      console.warn('⚠️ Could not save scenes:', error);
+    }
+  }, [state]);
+
+  const getImage = useCallback((url: string) => {
+    let image = imagesRef.current.get(url);
+    if (!image) {
+      image = new Image();
+      image.src = url;
+      imagesRef.current.set(url, image);
+    }
+    return image;
+  }, []);
+
+  const resolveSource = useCallback((source: SceneSource): CanvasImageSource | null => {
+    switch (source.kind) {
+      case 'screen': return screenVideo;
+      case 'camera': return source.deviceId ? cameras.byDevice[source.deviceId] ?? null : cameras.main;
+      case 'image': return source.imageUrl ? getImage(source.imageUrl) : null;
+      case 'media': return mediaElements[mediaKeyOf(source)] ?? null;
+      default: return null;
+    }
+  }, [screenVideo, cameras, getImage, mediaElements]);
+
+  const buildLayers = useCallback((scene: Scene): CompositorLayer[] => scene.sources.map(source => ({
+    id: source.id,
+    source: resolveSource(source),
+    rect: source.rect,
+    visible: source.visible,
+    fit: source.fit,
+    frame: source.frame,
+    crop: source.crop,
+    color: source.kind === 'color' ? source.color : undefined,
+    text: source.kind === 'text'
+      ? { content: source.text || '', color: source.textColor || '#ffffff', size: source.textSize || 0.08 }
+      : undefined,
+    chromaKey: source.kind === 'camera' ? source.chromaKey : undefined,
+  })), [resolveSource]);
+
+  const activeLayers = useMemo(() => buildLayers(activeScene), [buildLayers, activeScene]);
+  const programLayers = useMemo(() => buildLayers(programScene), [buildLayers, programScene]);
+
+  // Whether a scene would put anything on screen with the devices that are currently on
+  const sceneHasContent = useCallback((scene: Scene) => scene.sources.some(source => {
+    if (!source.visible) return false;
+    if (source.kind === 'color' || source.kind === 'text' || source.kind === 'image') return true;
+    return !!resolveSource(source);
+  }), [resolveSource]);
+
+  const updateScene = useCallback((id: string, update: (scene: Scene) => Scene) => {
+    setState(prev => ({
+      ...prev,
+      scenes: prev.scenes.map(scene => (scene.id === id ? update(scene) : scene)),
+    }));
+  }, []);
+
+  // Stops the files behind these sources, unless another source (e.g. in a duplicated scene) still plays them
+  const releaseMedia = useCallback((sources: SceneSource[]) => {
+    const releasedIds = new Set(sources.map(source => source.id));
+    const stillUsed = new Set(scenes.flatMap(scene => scene.sources)
+      .filter(source => source.kind === 'media' && !releasedIds.has(source.id))
+      .map(mediaKeyOf));
+
+    sources.forEach(source => {
+      const key = mediaKeyOf(source);
+      const element = mediaRef.current.get(key);
+      if (!element || stillUsed.has(key)) return;
+      element.pause();
+      URL.revokeObjectURL(element.src);
+      mediaRef.current.delete(key);
+      detachChannel(key);
+    });
+    setMediaElements(Object.fromEntries(mediaRef.current));
+  }, [scenes, detachChannel]);
+
+  const switchScene = useCallback((id: string) => {
+    setState(prev => ({ ...prev, activeSceneId: id }));
+    setSelectedSourceId(null);
+  }, []);
+
+  const addScene = useCallback((name: string) => {
+    const scene = createScene(name);
+    setState(prev => ({ scenes: [...prev.scenes, scene], activeSceneId: scene.id }));
+    setSelectedSourceId(null);
+    console.log(`🎬 Added scene "${name}"`);
+  }, []);
+
+  const duplicateScene = useCallback((id: string) => {
+    setState(prev => {
+      const original = prev.scenes.find(scene => scene.id === id);
+      if (!original) return prev;
+      const copy = cloneScene(original);
+      return { scenes: [...prev.scenes, copy], activeSceneId: copy.id };
+    });
+  }, []);
+
+  const renameScene = useCallback((id: string, name: string) => {
+    updateScene(id, scene => ({ ...scene, name }));
+  }, [updateScene]);
+
+  const removeScene = useCallback((id: string) => {
+    const scene = scenes.find(item => item.id === id);
+    if (!scene || scenes.length <= 1) return;
+
+    releaseMedia(scene.sources);
+    setState(prev => {
+      const remaining = prev.scenes.filter(item => item.id !== id);
+      return {
+        scenes: remaining,
+        activeSceneId: prev.activeSceneId === id ? remaining[0].id : prev.activeSceneId,
+      };
+    });
+  }, [scenes, releaseMedia]);
+
+  const addSource = useCallback((kind: SceneSourceKind, overrides: Partial<SceneSource> = {}) => {
+    const source = createSource(kind, overrides);
+    updateScene(activeScene.id, scene => ({ ...scene, sources: [...scene.sources, source] }));
+    setSelectedSourceId(source.id);
+    return source;
+  }, [activeScene.id, updateScene]);
+
+  const updateSource = useCallback((id: string, changes: Partial<SceneSource>) => {
+    const next = { ...changes };
+    if (next.rect) next.rect = clampRect(next.rect);
+    if (next.crop) next.crop = clampCrop(next.crop);
+
+    updateScene(activeScene.id, scene => ({
+      ...scene,
+      sources: scene.sources.map(source => (source.id === id ? { ...source, ...next } : source)),
+    }));
+  }, [activeScene.id, updateScene]);
+
+  const removeSource = useCallback((id: string) => {
+    releaseMedia(activeScene.sources.filter(source => source.id === id));
+    updateScene(activeScene.id, scene => ({ ...scene, sources: scene.sources.filter(source => source.id !== id) }));
+    setSelectedSourceId(prev => (prev === id ? null : prev));
+  }, [activeScene.sources, activeScene.id, releaseMedia, updateScene]);
+
+  // +1 moves a source up (drawn later, so on top), -1 moves it down
+  const moveSource = useCallback((id: string, direction: 1 | -1) => {
+    updateScene(activeScene.id, scene => {
+      const index = scene.sources.findIndex(source => source.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= scene.sources.length) return scene;
+
+      const sources = [...scene.sources];
+      [sources[index], sources[target]] = [sources[target], sources[index]];
+      return { ...scene, sources };
+    });
+  }, [activeScene.id, updateScene]);
+
+  // Media sources play a local file; their audio goes through the mixer like any other channel.
+  // A new file only goes to this source, so a copy sharing the old one gets a key of its own.
+  const setSourceMedia = useCallback((id: string, file: File) => {
+    const current = activeScene.sources.find(source => source.id === id);
+    if (current) releaseMedia([current]);
+    const isIdShared = scenes.some(scene => scene.sources.some(source => source.id !== id && mediaKeyOf(source) === id));
+    const key = isIdShared ? crypto.randomUUID() : id;
+
+    const element = document.createElement('video');
+    element.src = URL.createObjectURL(file);
+    element.loop = true;
+    element.playsInline = true;
+    mediaRef.current.set(key, element);
+
+    const name = file.name.replace(/\.[^.]+$/, '');
+    attachChannel(key, name, 'media', element);
+    element.play().catch(error => console.warn('⚠️ Could not start media source:', error));
+
+    updateSource(id, { mediaName: file.name, mediaKey: key === id ? undefined : key });
+    setMediaElements(Object.fromEntries(mediaRef.current));
+  }, [scenes, activeScene.sources, releaseMedia, attachChannel, updateSource]);
+
+  const hasSourceMedia = useCallback((id: string) => {
+    const source = activeScene.sources.find(item => item.id === id);
+    return !!source && !!mediaElements[mediaKeyOf(source)];
+  }, [activeScene.sources, mediaElements]);
+
+  const setTransition = useCallback((next: SceneTransition) => {
+    setTransitionState(next);
+    localStorage.setItem('kawaii-scene-transition', JSON.stringify(next));
+  }, []);
+
+  // Sends the scene being edited in Preview to Program
+  const transitionToProgram = useCallback(() => {
+    setProgram({ scene: activeScene, key: crypto.randomUUID() });
+    console.log(`🎬 Transition to program: "${activeScene.name}"`);
+  }, [activeScene]);
+
+  const setStudioMode = useCallback((enabled: boolean) => {
+    if (enabled) {
+      setProgram({ scene: activeScene, key: activeScene.id });
+    } else if (program) {
+      // Leaving studio mode keeps whatever is on air
+      setState(prev => ({ ...prev, activeSceneId: program.scene.id }));
+      setProgram(null);
+    }
+    setStudioModeState(enabled);
+    localStorage.setItem('kawaii-studio-mode', enabled.toString());
+  }, [activeScene, program]);
+
+  // Studio mode saved from a previous session starts with the current scene on air
+  useEffect(() => {
+    if (studioMode && !program) {
+      setProgram({ scene: activeScene, key: activeScene.id });
+    }
+  }, [studioMode, program, activeScene]);
+
+  const setShowWatermark = useCallback((show: boolean) => {
+    setShowWatermarkState(show);
+    localStorage.setItem('kawaii-show-watermark', show.toString());
+  }, []);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    return () => {
+      media.forEach(element => {
+        element.pause();
+        URL.revokeObjectURL(element.src);
+      });
+      media.clear();
+    };
+  }, []);
+
+  const selectedSource = activeScene.sources.find(source => source.id === selectedSourceId) ?? null;
+
+  return {
+    scenes,
+    activeScene,
+    activeLayers,
+    programScene,
+    programKey,
+    programLayers,
+    hasContent: sceneHasContent(programScene),
+    buildLayers,
+    sceneHasContent,
+    transition,
+    setTransition,
+    studioMode,
+    setStudioMode,
+    transitionToProgram,
+    showWatermark,
+    setShowWatermark,
+    selectedSource,
+    setSelectedSourceId,
+    switchScene,
+    addScene,
+    duplicateScene,
+    renameScene,
+    removeScene,
+    addSource,
+    updateSource,
+    removeSource,
+    moveSource,
+    setSourceMedia,
+    hasSourceMedia,
+  };
+};
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Screenshot,
+  ScreenshotSettings,
+  addScreenshot,
+  captureFrame,
+  clearScreenshots,
+  copyImageToClipboard,
+  createScreenshot,
+  deleteScreenshot,
+  encodeScreenshot,
+  listScreenshots,
+  sanitizeScreenshotSettings,
+} from '../utils/screenshots';
+
+const STORAGE_KEY = 'kawaii-screenshot-settings';
+
+const loadScreenshotSettings = (): ScreenshotSettings => {
+  try {
+    return sanitizeScreenshotSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+  } catch {
+    return sanitizeScreenshotSettings(null);
+  }
+};
+
+// Takes screenshots with the saved format settings and keeps them in the gallery
+export const useScreenshots = (saveFile: (file: File) => Promise<unknown>) => {
+  const [settings, setSettings] = useState<ScreenshotSettings>(loadScreenshotSettings);
+  const [gallery, setGallery] = useState<Screenshot[]>([]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    listScreenshots()
+      .then(setGallery)
+      .catch(error => console.warn('⚠️ Could not load the screenshot gallery:', error));
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<ScreenshotSettings>) => {
+    setSettings(prev => sanitizeScreenshotSettings({ ...prev, ...changes }));
+  }, []);
+
+  const saveScreenshot = useCallback((screenshot: Screenshot) =>
+    saveFile(new File([screenshot.blob], screenshot.fileName, { type: screenshot.blob.type })), [saveFile]);
+
+  // Resolves once the shot is encoded; copying and saving report their own failures
+  const takeScreenshot = useCallback(async (source: CanvasImageSource, sourceName: string) => {
+    const canvas = captureFrame(source);
+
+    // Started straight away, while we're still inside the click or key press
+    const copied = settings.copyToClipboard
+      ? copyImageToClipboard(canvas).then(() => true, error => {
+        console.warn('⚠️ Could not copy the screenshot:', error);
+        return false;
+      })
+      : Promise.resolve(false);
+
+    const { blob, extension } = await encodeScreenshot(canvas, settings);
+    const screenshot = createScreenshot(blob, extension, canvas, sourceName);
+    console.log(`📸 Screenshot of ${sourceName}: ${screenshot.width}x${screenshot.height} ${blob.type}, ${blob.size} bytes`);
+
+    setGallery(prev => [screenshot, ...prev]);
+    await addScreenshot(screenshot).catch(error => console.warn('⚠️ Could not add the screenshot to the gallery:', error));
+    if (settings.autoSave) await saveScreenshot(screenshot);
+
+    return { screenshot, copied: await copied };
+  }, [settings, saveScreenshot]);
+
+  const copyScreenshot = useCallback((screenshot: Screenshot) => copyImageToClipboard(screenshot.blob), []);
+
+  const removeScreenshot = useCallback(async (id: string) => {
+    await deleteScreenshot(id);
+    setGallery(prev => prev.filter(screenshot => screenshot.id !== id));
+  }, []);
+
+  const clearGallery = useCallback(async () => {
+    await clearScreenshots();
+    setGallery([]);
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+    gallery,
+    takeScreenshot,
+    saveScreenshot,
+    copyScreenshot,
+    removeScreenshot,
+    clearGallery,
+  };
+};
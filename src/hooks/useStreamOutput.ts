@@ -0,0 +1,171 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { WhipSession, publishWhip } from '../utils/whip';
+import { OutputStatus, transitionOutput } from '../utils/outputState';
+
+export interface StreamSettings {
+  endpoint: string;
+  bearerToken: string;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const DISCONNECT_GRACE_MS = 5000;
+
+const loadStreamSettings = (): StreamSettings => ({
+  endpoint: localStorage.getItem('kawaii-whip-endpoint') || '',
+  bearerToken: localStorage.getItem('kawaii-whip-token') || '',
+});
+
+export const useStreamOutput = () => {
+  const [streamStatus, setStreamStatusState] = useState<OutputStatus>('idle');
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [streamSettings, setStreamSettingsState] = useState<StreamSettings>(loadStreamSettings);
+
+  const sessionRef = useRef<WhipSession | null>(null);
+  const outputStreamRef = useRef<MediaStream | null>(null);
+  const settingsRef = useRef(streamSettings);
+  const attemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set when the user ends the stream so late connection events don't trigger a reconnect
+  const endedRef = useRef(true);
+
+  const setStreamStatus = (next: OutputStatus) => {
+    setStreamStatusState(prev => transitionOutput(prev, next, 'Stream'));
+  };
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+  };
+
+  const connect = useCallback(async () => {
+    const stream = outputStreamRef.current;
+    const { endpoint, bearerToken } = settingsRef.current;
+    if (!stream) return;
+
+    const scheduleReconnect = () => {
+      if (endedRef.current || reconnectTimerRef.current) return;
+
+      if (attemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+        console.error('❌ Giving up on WHIP reconnects');
+        setStreamStatus('error');
+        setStreamError('Lost connection to the streaming server and could not reconnect 💔');
+        return;
+      }
+
+      // The stream stays active while reconnecting, `reconnectAttempt` tells the UI what's going on
+      attemptRef.current++;
+      setReconnectAttempt(attemptRef.current);
+      const delay = 1000 * 2 ** (attemptRef.current - 1);
+      console.log(`🔁 Reconnecting stream in ${delay}ms (attempt ${attemptRef.current}/${MAX_RECONNECT_ATTEMPTS})`);
+
+      reconnectTimerRef.current = setTimeout(async () => {
+        reconnectTimerRef.current = null;
+        const previous = sessionRef.current;
+        sessionRef.current = null;
+        await previous?.stop();
+        connect();
+      }, delay);
+    };
+
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    try {
+      const session = await publishWhip(endpoint, stream, {
+        bearerToken: bearerToken || undefined,
+        onConnectionStateChange: (state) => {
+          if (graceTimer) {
+            clearTimeout(graceTimer);
+            graceTimer = null;
+          }
+          if (state === 'connected') {
+            attemptRef.current = 0;
+            setReconnectAttempt(0);
+            setStreamStatus('active');
+            setStreamError(null);
+          } else if (state === 'failed') {
+            scheduleReconnect();
+          } else if (state === 'disconnected') {
+            // ICE often recovers from short network blips by itself
+            graceTimer = setTimeout(scheduleReconnect, DISCONNECT_GRACE_MS);
+          }
+        },
+      });
+
+      if (endedRef.current) {
+        await session.stop();
+        return;
+      }
+      sessionRef.current = session;
+    } catch (error) {
+      console.error('❌ Error publishing stream:', error);
+      if (endedRef.current) return;
+
+      // The first attempt surfaces the error directly, later attempts keep retrying
+      if (attemptRef.current === 0) {
+        setStreamStatus('error');
+        setStreamError(error instanceof Error ? error.message : 'Could not reach the streaming server');
+      } else {
+        scheduleReconnect();
+      }
+    }
+  }, []);
+
+  const goLive = useCallback(async (stream: MediaStream) => {
+    if (!settingsRef.current.endpoint) {
+      throw new Error('No WHIP endpoint configured');
+    }
+
+    console.log('📡 Going live via WHIP:', settingsRef.current.endpoint);
+    clearReconnectTimer();
+    endedRef.current = false;
+    attemptRef.current = 0;
+    outputStreamRef.current = stream;
+    setReconnectAttempt(0);
+    setStreamError(null);
+    setStreamStatus('starting');
+    await connect();
+  }, [connect]);
+
+  const endStream = useCallback(async () => {
+    console.log('📴 Ending stream...');
+    endedRef.current = true;
+    clearReconnectTimer();
+    setStreamStatus('stopping');
+
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    await session?.stop();
+
+    outputStreamRef.current = null;
+    attemptRef.current = 0;
+    setReconnectAttempt(0);
+    setStreamStatus('idle');
+  }, []);
+
+  const setStreamSettings = useCallback((settings: StreamSettings) => {
+    settingsRef.current = settings;
+    setStreamSettingsState(settings);
+    localStorage.setItem('kawaii-whip-endpoint', settings.endpoint);
+    localStorage.setItem('kawaii-whip-token', settings.bearerToken);
+  }, []);
+
+  useEffect(() => () => {
+    endedRef.current = true;
+    clearReconnectTimer();
+    sessionRef.current?.stop();
+  }, []);
+
+  return {
+    streamStatus,
+    streamError,
+    isReconnecting: reconnectAttempt > 0,
+    reconnectAttempt,
+    streamSettings,
+    setStreamSettings,
+    goLive,
+    endStream,
+  };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+// Plays a MediaStream in a detached <video> so it can be drawn onto a canvas
+export const useStreamVideo = (stream: MediaStream | null) => {
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    if (!stream || stream.getVideoTracks().length === 0) {
+      setVideo(null);
+      return;
+    }
+
+    const element = document.createElement('video');
+    element.muted = true;
+    element.playsInline = true;
+    element.autoplay = true;
+    element.srcObject = stream;
+    element.play().catch(error => console.warn('⚠️ Could not start hidden video playback:', error));
+    setVideo(element);
+
+    return () => {
+      element.pause();
+      element.srcObject = null;
+    };
+  }, [stream]);
+
+  return video;
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { VideoFilterId, VIDEO_FILTERS, createFilterPipeline } from '../utils/videoFilters';
+import { useStreamVideo } from './useStreamVideo';
+
+const FILTER_FPS = 30;
+
+const loadActiveFilters = (): VideoFilterId[] => {
+  const saved = localStorage.getItem('kawaii-camera-filters');
+  if (!saved) return [];
+  try {
+    const ids = JSON.parse(saved);
+    return Array.isArray(ids) ? ids.filter(id => VIDEO_FILTERS.some(filter => filter.id === id)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const useVideoFilters = (cameraStream: MediaStream | null) => {
+  const [activeFilters, setActiveFilters] = useState<VideoFilterId[]>(loadActiveFilters);
+  const cameraVideo = useStreamVideo(cameraStream);
+  const pipeline = useMemo(() => createFilterPipeline(), []);
+  const [filteredStream, setFilteredStream] = useState<MediaStream | null>(null);
+
+  const isFiltering = !!cameraVideo && activeFilters.length > 0;
+
+  useEffect(() => {
+    if (!isFiltering || !cameraVideo) return;
+
+    const interval = setInterval(() => pipeline.render(cameraVideo, activeFilters), 1000 / FILTER_FPS);
+    pipeline.render(cameraVideo, activeFilters);
+    return () => clearInterval(interval);
+  }, [isFiltering, cameraVideo, activeFilters, pipeline]);
+
+  useEffect(() => {
+    if (!isFiltering) {
+      setFilteredStream(null);
+      return;
+    }
+
+    const stream = pipeline.canvas.captureStream(FILTER_FPS);
+    setFilteredStream(stream);
+    return () => stream.getTracks().forEach(track => track.stop());
+  }, [isFiltering, pipeline]);
+
+  const saveFilters = (filters: VideoFilterId[]) => {
+    localStorage.setItem('kawaii-camera-filters', JSON.stringify(filters));
+    return filters;
+  };
+
+  const toggleFilter = useCallback((id: VideoFilterId) => {
+    setActiveFilters(prev => saveFilters(
+      prev.includes(id) ? prev.filter(filterId => filterId !== id) : [...prev, id]
+    ));
+  }, []);
+
+  const clearFilters = useCallback(() => {
+    setActiveFilters(saveFilters([]));
+  }, []);
+
+  return {
+    activeFilters,
+    toggleFilter,
+    clearFilters,
+    // What the compositor draws and what the camera preview shows
+    cameraSource: isFiltering ? pipeline.canvas : cameraVideo,
+    cameraPreviewStream: isFiltering ? filteredStream : cameraStream,
+  };
+};
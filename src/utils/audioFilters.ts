@@ -0,0 +1,213 @@
+import noiseGateWorkletUrl from './worklets/noiseGate.worklet.js?url';
+import { MixerChannelKind } from './audioMixer';
+
+export interface NoiseGateSettings {
+  enabled: boolean;
+  thresholdDb: number;
+  attackMs: number;
+  holdMs: number;
+  releaseMs: number;
+}
+
+export interface EqualizerSettings {
+  enabled: boolean;
+  lowGainDb: number;
+  lowFrequency: number;
+  midGainDb: number;
+  midFrequency: number;
+  midQ: number;
+  highGainDb: number;
+  highFrequency: number;
+}
+
+export interface CompressorSettings {
+  enabled: boolean;
+  thresholdDb: number;
+  ratio: number;
+  kneeDb: number;
+  attackMs: number;
+  releaseMs: number;
+  makeupDb: number;
+}
+
+export interface ChannelFilterSettings {
+  gate: NoiseGateSettings;
+  eq: EqualizerSettings;
+  compressor: CompressorSettings;
+}
+
+export interface LimiterSettings {
+  enabled: boolean;
+  ceilingDb: number;
+  releaseMs: number;
+}
+
+const FLAT_EQ: EqualizerSettings = {
+  enabled: false,
+  lowGainDb: 0,
+  lowFrequency: 120,
+  midGainDb: 0,
+  midFrequency: 1000,
+  midQ: 1,
+  highGainDb: 0,
+  highFrequency: 8000,
+};
+
+// Voice gets a gate and gentle compression out of the box; other sources pass through untouched
+const VOICE_FILTERS: ChannelFilterSettings = {
+  gate: { enabled: true, thresholdDb: -50, attackMs: 5, holdMs: 100, releaseMs: 150 },
+  eq: { ...FLAT_EQ, enabled: true },
+  compressor: { enabled: true, thresholdDb: -24, ratio: 4, kneeDb: 6, attackMs: 3, releaseMs: 250, makeupDb: 6 },
+};
+
+const PASSTHROUGH_FILTERS: ChannelFilterSettings = {
+  gate: { ...VOICE_FILTERS.gate, enabled: false },
+  eq: FLAT_EQ,
+  compressor: { ...VOICE_FILTERS.compressor, enabled: false, makeupDb: 0 },
+};
+
+export const DEFAULT_LIMITER_SETTINGS: LimiterSettings = {
+  enabled: true,
+  ceilingDb: -1,
+  releaseMs: 100,
+};
+
+export const getDefaultFilters = (kind: MixerChannelKind): ChannelFilterSettings =>
+  kind === 'microphone' ? VOICE_FILTERS : PASSTHROUGH_FILTERS;
+
+// Saved settings may predate a field, so every section is merged over the defaults
+export const mergeFilterSettings = (
+  base: ChannelFilterSettings,
+  overrides?: Partial<{ [K in keyof ChannelFilterSettings]: Partial<ChannelFilterSettings[K]> }>,
+): ChannelFilterSettings => ({
+  gate: { ...base.gate, ...overrides?.gate },
+  eq: { ...base.eq, ...overrides?.eq },
+  compressor: { ...base.compressor, ...overrides?.compressor },
+});
+
+const NOISE_GATE_PROCESSOR = 'kawaii-noise-gate';
+const RAMP_TIME_CONSTANT = 0.015;
+
+// Resolves false when worklets aren't available (insecure origin, old browser); channels then run without a gate
+export const loadFilterWorklets = async (context: BaseAudioContext) => {
+  if (!context.audioWorklet) {
+    console.warn('⚠️ AudioWorklet not supported, noise gate disabled');
+    return false;
+  }
+  try {
+    await context.audioWorklet.addModule(noiseGateWorkletUrl);
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Could not load noise gate worklet:', error);
+    return false;
+  }
+};
+
+const setParam = (context: BaseAudioContext, param: AudioParam | undefined, value: number) => {
+  param?.setTargetAtTime(value, context.currentTime, RAMP_TIME_CONSTANT);
+};
+
+export interface ChannelFilterChain {
+  input: AudioNode;
+  output: AudioNode;
+  apply: (settings: ChannelFilterSettings) => void;
+  enableGate: () => void;
+  readGainReduction: () => number;
+  disconnect: () => void;
+}
+
+// input -> [noise gate] -> low shelf -> mid peak -> high shelf -> compressor -> makeup gain
+// Disabled stages stay in the graph at neutral settings so toggling them never rewires live audio.
+export const createChannelFilterChain = (
+  context: BaseAudioContext,
+  initialSettings: ChannelFilterSettings,
+): ChannelFilterChain => {
+  let settings = initialSettings;
+  let gate: AudioWorkletNode | null = null;
+
+  const input = context.createGain();
+  const low = context.createBiquadFilter();
+  const mid = context.createBiquadFilter();
+  const high = context.createBiquadFilter();
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+
+  low.type = 'lowshelf';
+  mid.type = 'peaking';
+  high.type = 'highshelf';
+
+  input.connect(low);
+  low.connect(mid);
+  mid.connect(high);
+  high.connect(compressor);
+  compressor.connect(makeup);
+
+  const apply = (next: ChannelFilterSettings) => {
+    settings = next;
+    const { eq, compressor: comp, gate: gateSettings } = next;
+
+    setParam(context, low.frequency, eq.lowFrequency);
+    setParam(context, low.gain, eq.enabled ? eq.lowGainDb : 0);
+    setParam(context, mid.frequency, eq.midFrequency);
+    setParam(context, mid.Q, eq.midQ);
+    setParam(context, mid.gain, eq.enabled ? eq.midGainDb : 0);
+    setParam(context, high.frequency, eq.highFrequency);
+    setParam(context, high.gain, eq.enabled ? eq.highGainDb : 0);
+
+    setParam(context, compressor.threshold, comp.enabled ? comp.thresholdDb : 0);
+    setParam(context, compressor.ratio, comp.enabled ? comp.ratio : 1);
+    setParam(context, compressor.knee, comp.kneeDb);
+    setParam(context, compressor.attack, comp.attackMs / 1000);
+    setParam(context, compressor.release, comp.releaseMs / 1000);
+    setParam(context, makeup.gain, comp.enabled ? Math.pow(10, comp.makeupDb / 20) : 1);
+
+    if (gate) {
+      setParam(context, gate.parameters.get('enabled'), gateSettings.enabled ? 1 : 0);
+      setParam(context, gate.parameters.get('threshold'), gateSettings.thresholdDb);
+      setParam(context, gate.parameters.get('attack'), gateSettings.attackMs / 1000);
+      setParam(context, gate.parameters.get('hold'), gateSettings.holdMs / 1000);
+      setParam(context, gate.parameters.get('release'), gateSettings.releaseMs / 1000);
+    }
+  };
+
+  apply(initialSettings);
+
+  return {
+    input,
+    output: makeup,
+    apply,
+    enableGate: () => {
+      if (gate) return;
+      gate = new AudioWorkletNode(context, NOISE_GATE_PROCESSOR);
+      input.disconnect();
+      input.connect(gate);
+      gate.connect(low);
+      apply(settings);
+    },
+    readGainReduction: () => compressor.reduction,
+    disconnect: () => {
+      input.disconnect();
+      gate?.disconnect();
+      low.disconnect();
+      mid.disconnect();
+      high.disconnect();
+      compressor.disconnect();
+      makeup.disconnect();
+    },
+  };
+};
+
+// Brick-wall style limiter on the master bus so the recording and stream never clip
+export const createLimiter = (context: BaseAudioContext) => {
+  const limiter = context.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.attack.value = 0.001;
+
+  const apply = ({ enabled, ceilingDb, releaseMs }: LimiterSettings) => {
+    setParam(context, limiter.threshold, enabled ? ceilingDb : 0);
+    setParam(context, limiter.ratio, enabled ? 20 : 1);
+    setParam(context, limiter.release, releaseMs / 1000);
+  };
+
+  return { node: limiter, apply, readGainReduction: () => limiter.reduction };
+};
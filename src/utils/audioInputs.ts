@@ -0,0 +1,68 @@
+// Extra audio input devices (co-host mics, interfaces), each with its own capture settings
+// and its own mixer channel. The main microphone keeps the 'microphone' channel.
+
+export interface AudioInputConstraints {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  channelCount: 1 | 2;
+}
+
+export interface AudioInputConfig extends AudioInputConstraints {
+  id: string;
+  // Empty means the device's own label
+  name: string;
+  deviceId: string;
+}
+
+// Voice defaults, the same processing the main microphone has always used
+export const DEFAULT_AUDIO_INPUT_CONSTRAINTS: AudioInputConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1,
+};
+
+export const AUDIO_PROCESSING_OPTIONS: { key: keyof Omit<AudioInputConstraints, 'channelCount'>; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Auto gain' },
+];
+
+export const audioInputChannelId = (id: string) => `input-${id}`;
+
+export const buildAudioConstraints = (deviceId: string, constraints: AudioInputConstraints): MediaTrackConstraints => ({
+  deviceId: deviceId !== 'default' ? { exact: deviceId } : undefined,
+  echoCancellation: constraints.echoCancellation,
+  noiseSuppression: constraints.noiseSuppression,
+  autoGainControl: constraints.autoGainControl,
+  sampleRate: 48000,
+  channelCount: constraints.channelCount,
+});
+
+// Device labels are empty until the page has been given microphone access
+export const describeAudioDevice = (device: MediaDeviceInfo) => device.label || `Microphone ${device.deviceId.slice(0, 8)}...`;
+
+export const sanitizeAudioInputConstraints = (saved: unknown): AudioInputConstraints => {
+  const value = (typeof saved === 'object' && saved !== null ? saved : {}) as Record<string, unknown>;
+  const flag = (key: keyof Omit<AudioInputConstraints, 'channelCount'>) =>
+    typeof value[key] === 'boolean' ? value[key] as boolean : DEFAULT_AUDIO_INPUT_CONSTRAINTS[key];
+  return {
+    echoCancellation: flag('echoCancellation'),
+    noiseSuppression: flag('noiseSuppression'),
+    autoGainControl: flag('autoGainControl'),
+    channelCount: value.channelCount === 2 ? 2 : 1,
+  };
+};
+
+export const sanitizeAudioInputs = (saved: unknown): AudioInputConfig[] => {
+  if (!Array.isArray(saved)) return [];
+  return saved
+    .filter(input => typeof input?.id === 'string' && typeof input?.deviceId === 'string')
+    .map(input => ({
+      id: input.id,
+      name: typeof input.name === 'string' ? input.name : '',
+      deviceId: input.deviceId,
+      ...sanitizeAudioInputConstraints(input),
+    }));
+};
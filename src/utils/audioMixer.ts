@@ -0,0 +1,342 @@
+import {
+  ChannelFilterChain,
+  ChannelFilterSettings,
+  LimiterSettings,
+  createChannelFilterChain,
+  createLimiter,
+  loadFilterWorklets,
+} from './audioFilters';
+
+export type MixerChannelKind = 'microphone' | 'screen' | 'media';
+
+// Monitor plays through the speakers; record and stream each have their own output bus
+export type MixerOutputBus = 'record' | 'stream';
+export type MixerBus = 'monitor' | MixerOutputBus;
+export type MixerRouting = Record<MixerBus, boolean>;
+
+export interface MixerChannelSettings {
+  faderDb: number;
+  muted: boolean;
+  solo: boolean;
+  pan: number;
+  routing: MixerRouting;
+}
+
+export interface MixerChannelInfo extends MixerChannelSettings {
+  id: string;
+  label: string;
+  kind: MixerChannelKind;
+}
+
+export interface MeterReading {
+  // Both in dBFS, -Infinity when silent
+  peak: number;
+  rms: number;
+  // Compressor (or master limiter) gain reduction in dB, 0 when idle
+  reduction?: number;
+}
+
+export interface MixerMeters {
+  channels: Record<string, MeterReading>;
+  record: MeterReading;
+  stream: MeterReading;
+}
+
+export const MIN_FADER_DB = -60;
+export const MAX_FADER_DB = 12;
+
+export const MIXER_BUSES: MixerBus[] = ['monitor', 'record', 'stream'];
+
+export const DEFAULT_CHANNEL_SETTINGS: MixerChannelSettings = {
+  faderDb: 0,
+  muted: false,
+  solo: false,
+  pan: 0,
+  routing: { monitor: false, record: true, stream: true },
+};
+
+// Mic and screen audio are already audible locally, so only media files are monitored by default
+export const getDefaultRouting = (kind: MixerChannelKind): MixerRouting => ({
+  ...DEFAULT_CHANNEL_SETTINGS.routing,
+  monitor: kind === 'media',
+});
+
+export const dbToGain = (db: number) => (db <= MIN_FADER_DB ? 0 : Math.pow(10, db / 20));
+
+export const gainToDb = (gain: number) => (gain <= 0 ? -Infinity : 20 * Math.log10(gain));
+
+export const formatDb = (db: number) => {
+  if (!isFinite(db) || db <= MIN_FADER_DB) return '-∞ dB';
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+};
+
+// Smooths parameter changes so faders and mutes never click
+const RAMP_TIME_CONSTANT = 0.015;
+
+interface ChannelNodes {
+  info: MixerChannelInfo;
+  source: AudioNode;
+  trim: GainNode;
+  filters: ChannelFilterChain;
+  fader: GainNode;
+  panner: StereoPannerNode;
+  gate: GainNode;
+  mute: GainNode;
+  sends: Record<MixerBus, GainNode>;
+  analyser: AnalyserNode;
+  meterBuffer: Float32Array;
+}
+
+interface OutputBusNodes {
+  input: GainNode;
+  limiter: ReturnType<typeof createLimiter>;
+  analyser: AnalyserNode;
+  meterBuffer: Float32Array;
+  destination: MediaStreamAudioDestinationNode;
+}
+
+export interface AudioMixer {
+  context: AudioContext;
+  outputStreams: Record<MixerOutputBus, MediaStream>;
+  addChannel: (
+    info: MixerChannelInfo,
+    input: MediaStream | HTMLMediaElement,
+    filters: ChannelFilterSettings,
+    inputGain?: number,
+  ) => void;
+  removeChannel: (id: string) => void;
+  updateChannel: (id: string, settings: Partial<MixerChannelSettings>) => void;
+  updateFilters: (id: string, filters: ChannelFilterSettings) => void;
+  setInputGain: (id: string, gain: number) => void;
+  setGate: (id: string, open: boolean) => void;
+  setMasterDb: (db: number) => void;
+  setLimiter: (settings: LimiterSettings) => void;
+  readMeters: () => MixerMeters;
+  close: () => void;
+}
+
+const readMeter = (analyser: AnalyserNode, buffer: Float32Array): MeterReading => {
+  analyser.getFloatTimeDomainData(buffer);
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = Math.abs(buffer[i]);
+    if (sample > peak) peak = sample;
+    sumOfSquares += sample * sample;
+  }
+  return {
+    peak: gainToDb(peak),
+    rms: gainToDb(Math.sqrt(sumOfSquares / buffer.length)),
+  };
+};
+
+const createMeter = (context: AudioContext) => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  return { analyser, buffer: new Float32Array(analyser.fftSize) };
+};
+
+export const createAudioMixer = (): AudioMixer => {
+  const context = new AudioContext({ latencyHint: 'interactive' });
+  const channels = new Map<string, ChannelNodes>();
+  // Gates are kept by channel id, so a channel added while its gate is closed starts silent
+  const closedGates = new Set<string>();
+
+  // Record and stream buses share the master fader and limiter settings but sum independently,
+  // so a source can be recorded without going live (or the other way round)
+  const createOutputBus = (): OutputBusNodes => {
+    const input = context.createGain();
+    const limiter = createLimiter(context);
+    const meter = createMeter(context);
+    const destination = context.createMediaStreamDestination();
+    input.connect(limiter.node);
+    limiter.node.connect(meter.analyser);
+    limiter.node.connect(destination);
+    return { input, limiter, analyser: meter.analyser, meterBuffer: meter.buffer, destination };
+  };
+
+  const outputBuses: Record<MixerOutputBus, OutputBusNodes> = {
+    record: createOutputBus(),
+    stream: createOutputBus(),
+  };
+  const monitorBus = context.createGain();
+  monitorBus.connect(context.destination);
+
+  const busInputs: Record<MixerBus, AudioNode> = {
+    monitor: monitorBus,
+    record: outputBuses.record.input,
+    stream: outputBuses.stream.input,
+  };
+
+  // Channels added before the gate worklet finishes loading get their gate patched in afterwards
+  let isGateReady = false;
+  loadFilterWorklets(context).then(loaded => {
+    isGateReady = loaded;
+    if (loaded) channels.forEach(channel => channel.filters.enableGate());
+  });
+
+  const applyMuteAndSolo = () => {
+    const anySolo = Array.from(channels.values()).some(channel => channel.info.solo);
+    channels.forEach(channel => {
+      const silenced = channel.info.muted || (anySolo && !channel.info.solo);
+      channel.mute.gain.setTargetAtTime(silenced ? 0 : 1, context.currentTime, RAMP_TIME_CONSTANT);
+    });
+  };
+
+  const removeChannel = (id: string) => {
+    const channel = channels.get(id);
+    if (!channel) return;
+
+    channel.source.disconnect();
+    channel.trim.disconnect();
+    channel.filters.disconnect();
+    channel.gate.disconnect();
+    channel.mute.disconnect();
+    MIXER_BUSES.forEach(bus => channel.sends[bus].disconnect());
+    channels.delete(id);
+    applyMuteAndSolo();
+    console.log(`🎚️ Removed mixer channel "${channel.info.label}"`);
+  };
+
+  const addChannel = (
+    info: MixerChannelInfo,
+    input: MediaStream | HTMLMediaElement,
+    filterSettings: ChannelFilterSettings,
+    inputGain = 1,
+  ) => {
+    removeChannel(info.id);
+
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+
+    const source = input instanceof HTMLMediaElement
+      ? context.createMediaElementSource(input)
+      : context.createMediaStreamSource(input);
+    const trim = context.createGain();
+    const filters = createChannelFilterChain(context, filterSettings);
+    const fader = context.createGain();
+    const panner = context.createStereoPanner();
+    const gate = context.createGain();
+    const mute = context.createGain();
+    const meter = createMeter(context);
+    const sends = {} as Record<MixerBus, GainNode>;
+
+    trim.gain.value = inputGain;
+    fader.gain.value = dbToGain(info.faderDb);
+    panner.pan.value = info.pan;
+    gate.gain.value = closedGates.has(info.id) ? 0 : 1;
+    if (isGateReady) filters.enableGate();
+
+    source.connect(trim);
+    trim.connect(filters.input);
+    filters.output.connect(fader);
+    fader.connect(panner);
+    panner.connect(meter.analyser);
+    panner.connect(gate);
+    gate.connect(mute);
+    MIXER_BUSES.forEach(bus => {
+      sends[bus] = context.createGain();
+      sends[bus].gain.value = info.routing[bus] ? 1 : 0;
+      mute.connect(sends[bus]);
+      sends[bus].connect(busInputs[bus]);
+    });
+
+    channels.set(info.id, {
+      info,
+      source,
+      trim,
+      filters,
+      fader,
+      panner,
+      gate,
+      mute,
+      sends,
+      analyser: meter.analyser,
+      meterBuffer: meter.buffer,
+    });
+    applyMuteAndSolo();
+    console.log(`🎚️ Added mixer channel "${info.label}" at ${formatDb(info.faderDb)}`);
+  };
+
+  const updateChannel = (id: string, settings: Partial<MixerChannelSettings>) => {
+    const channel = channels.get(id);
+    if (!channel) return;
+
+    channel.info = { ...channel.info, ...settings };
+    if (settings.faderDb !== undefined) {
+      channel.fader.gain.setTargetAtTime(dbToGain(settings.faderDb), context.currentTime, RAMP_TIME_CONSTANT);
+    }
+    if (settings.pan !== undefined) {
+      channel.panner.pan.setTargetAtTime(settings.pan, context.currentTime, RAMP_TIME_CONSTANT);
+    }
+    if (settings.muted !== undefined || settings.solo !== undefined) {
+      applyMuteAndSolo();
+    }
+    if (settings.routing) {
+      const { routing } = settings;
+      MIXER_BUSES.forEach(bus => {
+        channel.sends[bus].gain.setTargetAtTime(routing[bus] ? 1 : 0, context.currentTime, RAMP_TIME_CONSTANT);
+      });
+    }
+  };
+
+  const updateFilters = (id: string, filters: ChannelFilterSettings) => {
+    channels.get(id)?.filters.apply(filters);
+  };
+
+  const setInputGain = (id: string, gain: number) => {
+    channels.get(id)?.trim.gain.setTargetAtTime(gain, context.currentTime, RAMP_TIME_CONSTANT);
+  };
+
+  // Push-to-talk: separate from mute, so the channel's own mute button keeps its state
+  const setGate = (id: string, open: boolean) => {
+    if (open) {
+      closedGates.delete(id);
+    } else {
+      closedGates.add(id);
+    }
+    channels.get(id)?.gate.gain.setTargetAtTime(open ? 1 : 0, context.currentTime, RAMP_TIME_CONSTANT);
+  };
+
+  return {
+    context,
+    outputStreams: {
+      record: outputBuses.record.destination.stream,
+      stream: outputBuses.stream.destination.stream,
+    },
+    addChannel,
+    removeChannel,
+    updateChannel,
+    updateFilters,
+    setInputGain,
+    setGate,
+    setMasterDb: (db) => {
+      Object.values(outputBuses).forEach(bus => {
+        bus.input.gain.setTargetAtTime(dbToGain(db), context.currentTime, RAMP_TIME_CONSTANT);
+      });
+    },
+    setLimiter: (settings) => {
+      Object.values(outputBuses).forEach(bus => bus.limiter.apply(settings));
+    },
+    readMeters: () => {
+      const readings: Record<string, MeterReading> = {};
+      channels.forEach((channel, id) => {
+        readings[id] = {
+          ...readMeter(channel.analyser, channel.meterBuffer),
+          reduction: channel.filters.readGainReduction(),
+        };
+      });
+      const readBus = (bus: OutputBusNodes): MeterReading => ({
+        ...readMeter(bus.analyser, bus.meterBuffer),
+        reduction: bus.limiter.readGainReduction(),
+      });
+      return { channels: readings, record: readBus(outputBuses.record), stream: readBus(outputBuses.stream) };
+    },
+    close: () => {
+      Array.from(channels.keys()).forEach(removeChannel);
+      Object.values(outputBuses).forEach(bus => bus.destination.stream.getTracks().forEach(track => track.stop()));
+      context.close();
+    },
+  };
+};
@@ -0,0 +1,100 @@
+// Camera capture settings, saved per device: what to ask the camera for, and how to turn the picture
+
+export type CameraResolution = 'auto' | '480p' | '720p' | '1080p' | '1440p' | '2160p';
+export type CameraRotation = 0 | 90 | 180 | 270;
+
+export interface CameraSettings {
+  resolution: CameraResolution;
+  // 0 lets the camera pick
+  fps: number;
+  mirror: boolean;
+  // Clockwise, in degrees
+  rotation: CameraRotation;
+}
+
+export type CameraOrientation = Pick<CameraSettings, 'mirror' | 'rotation'>;
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { name: string; width: number; height: number } | null> = {
+  auto: null,
+  '480p': { name: '480p', width: 640, height: 480 },
+  '720p': { name: '720p HD', width: 1280, height: 720 },
+  '1080p': { name: '1080p Full HD', width: 1920, height: 1080 },
+  '1440p': { name: '1440p', width: 2560, height: 1440 },
+  '2160p': { name: '4K', width: 3840, height: 2160 },
+};
+
+export const CAMERA_FPS_OPTIONS = [0, 15, 24, 30, 60];
+
+export const CAMERA_ROTATIONS: CameraRotation[] = [0, 90, 180, 270];
+
+// The same as the old `video: true`, so nothing changes until a preset is picked
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  resolution: 'auto',
+  fps: 0,
+  mirror: false,
+  rotation: 0,
+};
+
+// Resolution and frame rate only, for getUserMedia and for applyConstraints on a running camera
+export const buildCaptureConstraints = (settings: CameraSettings): MediaTrackConstraints => {
+  const resolution = CAMERA_RESOLUTIONS[settings.resolution];
+  return {
+    ...(resolution ? { width: { ideal: resolution.width }, height: { ideal: resolution.height } } : {}),
+    ...(settings.fps > 0 ? { frameRate: { ideal: settings.fps } } : {}),
+  };
+};
+
+export const buildVideoConstraints = (deviceId: string, settings: CameraSettings): MediaTrackConstraints => ({
+  deviceId: deviceId !== 'default' ? { exact: deviceId } : undefined,
+  ...buildCaptureConstraints(settings),
+});
+
+export const describeCameraDevice = (device: Pick<MediaDeviceInfo, 'deviceId' | 'label'>) => device.label || `Camera ${device.deviceId.slice(0, 8)}...`;
+
+export const needsCameraTransform = ({ mirror, rotation }: CameraOrientation) => mirror || rotation !== 0;
+
+export const sanitizeCameraSettings = (saved: unknown): CameraSettings => {
+  const value = (typeof saved === 'object' && saved !== null ? saved : {}) as Record<string, unknown>;
+  return {
+    resolution: typeof value.resolution === 'string' && value.resolution in CAMERA_RESOLUTIONS
+      ? value.resolution as CameraResolution
+      : DEFAULT_CAMERA_SETTINGS.resolution,
+    fps: CAMERA_FPS_OPTIONS.includes(value.fps as number) ? value.fps as number : DEFAULT_CAMERA_SETTINGS.fps,
+    mirror: typeof value.mirror === 'boolean' ? value.mirror : DEFAULT_CAMERA_SETTINGS.mirror,
+    rotation: CAMERA_ROTATIONS.includes(value.rotation as CameraRotation)
+      ? value.rotation as CameraRotation
+      : DEFAULT_CAMERA_SETTINGS.rotation,
+  };
+};
+
+export interface CameraTransform {
+  canvas: HTMLCanvasElement;
+  render: (source: HTMLVideoElement, orientation: CameraOrientation) => void;
+}
+
+// Draws the camera mirrored and/or rotated; quarter turns swap the canvas width and height
+export const createCameraTransform = (): CameraTransform => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  const render = (source: HTMLVideoElement, { mirror, rotation }: CameraOrientation) => {
+    if (!ctx || source.videoWidth === 0) return;
+
+    const quarterTurn = rotation === 90 || rotation === 270;
+    const width = quarterTurn ? source.videoHeight : source.videoWidth;
+    const height = quarterTurn ? source.videoWidth : source.videoHeight;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    if (mirror) ctx.scale(-1, 1);
+    ctx.drawImage(source, -source.videoWidth / 2, -source.videoHeight / 2);
+    ctx.restore();
+  };
+
+  return { canvas, render };
+};
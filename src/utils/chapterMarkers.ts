@@ -0,0 +1,57 @@
+// Named points in a recording, saved as WebM chapters, sidecar files and a YouTube chapter list
+
+export interface RecordingMarker {
+  name: string;
+  // From the start of the file, not counting paused time
+  timeMs: number;
+}
+
+// YouTube only turns a description into chapters when the list starts at 0:00
+const FIRST_CHAPTER_NAME = 'Intro';
+
+// 65000 → "1:05", 3725000 → "1:02:05"
+export const formatChapterTime = (timeMs: number) => {
+  const total = Math.floor(timeMs / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const sortMarkers = (markers: RecordingMarker[]) => [...markers].sort((a, b) => a.timeMs - b.timeMs);
+
+export const toYouTubeChapters = (markers: RecordingMarker[]) => {
+  const sorted = sortMarkers(markers);
+  const lines = sorted.map(marker => `${formatChapterTime(marker.timeMs)} ${marker.name}`);
+  if (sorted.length > 0 && sorted[0].timeMs >= 1000) lines.unshift(`0:00 ${FIRST_CHAPTER_NAME}`);
+  return lines.join('\n');
+};
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (markers: RecordingMarker[]) =>
+  ['time,seconds,name', ...sortMarkers(markers).map(marker =>
+    `${formatChapterTime(marker.timeMs)},${(marker.timeMs / 1000).toFixed(3)},${csvField(marker.name)}`,
+  )].join('\n');
+
+// Sidecars are named after the recording, e.g. kawaii-recording-….chapters.json
+export const createMarkerSidecars = (recordingFileName: string, markers: RecordingMarker[]) => {
+  const baseName = recordingFileName.replace(/\.[^.]+$/, '');
+  const sorted = sortMarkers(markers);
+  const json = JSON.stringify({
+    recording: recordingFileName,
+    markers: sorted.map(marker => ({ ...marker, time: formatChapterTime(marker.timeMs) })),
+    youtube: toYouTubeChapters(sorted),
+  }, null, 2);
+
+  return [
+    new File([json], `${baseName}.chapters.json`, { type: 'application/json' }),
+    new File([toCsv(sorted)], `${baseName}.chapters.csv`, { type: 'text/csv' }),
+  ];
+};
+
+// Keeps the markers inside a trimmed range, moved so the range starts at zero
+export const trimMarkers = (markers: RecordingMarker[], startMs: number, endMs: number) =>
+  markers
+    .filter(marker => marker.timeMs >= startMs && marker.timeMs <= endMs)
+    .map(marker => ({ ...marker, timeMs: marker.timeMs - startMs }));
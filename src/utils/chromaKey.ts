@@ -0,0 +1,269 @@
+// Chroma key (green screen) for camera sources. Keying runs in a WebGL shader where the browser
+// has one, and falls back to a per-pixel loop on a 2D canvas where it doesn't. Both use the same
+// maths: distance from the key colour in CbCr space, so brightness doesn't affect the key.
+
+export interface ChromaKeySettings {
+  enabled: boolean;
+  // Hex colour, e.g. "#00ff00"
+  color: string;
+  // How far from the key colour still counts as background (0 - 1)
+  similarity: number;
+  // Width of the soft edge between keyed and kept pixels (0 - 1)
+  smoothness: number;
+  // How strongly leftover key colour is washed out of the kept pixels (0 - 1)
+  spill: number;
+}
+
+export type ChromaKeyMode = 'webgl' | 'cpu';
+
+export const DEFAULT_CHROMA_KEY: ChromaKeySettings = {
+  enabled: true,
+  color: '#00ff00',
+  similarity: 0.4,
+  smoothness: 0.08,
+  spill: 0.1,
+};
+
+export const CHROMA_KEY_PRESETS: { name: string; color: string }[] = [
+  { name: '💚 Green', color: '#00ff00' },
+  { name: '💙 Blue', color: '#0000ff' },
+  { name: '💖 Magenta', color: '#ff00ff' },
+];
+
+// The CPU path reads every pixel back each frame, so it works on a smaller copy
+const CPU_MAX_WIDTH = 960;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const clamp01 = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+export const sanitizeChromaKey = (saved: unknown): ChromaKeySettings => {
+  if (typeof saved !== 'object' || saved === null) return { ...DEFAULT_CHROMA_KEY };
+  const value = saved as Partial<Record<keyof ChromaKeySettings, unknown>>;
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_CHROMA_KEY.enabled,
+    color: typeof value.color === 'string' && HEX_COLOR.test(value.color) ? value.color : DEFAULT_CHROMA_KEY.color,
+    similarity: clamp01(value.similarity, DEFAULT_CHROMA_KEY.similarity),
+    smoothness: clamp01(value.smoothness, DEFAULT_CHROMA_KEY.smoothness),
+    spill: clamp01(value.spill, DEFAULT_CHROMA_KEY.spill),
+  };
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(HEX_COLOR.test(hex) ? hex.slice(1) : DEFAULT_CHROMA_KEY.color.slice(1), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// BT.709 RGB → CbCr, both centred on 0.5
+const toCbCr = (r: number, g: number, b: number): [number, number] => [
+  -0.100644 * r - 0.338572 * g + 0.439216 * b + 0.501961,
+  0.439216 * r - 0.398942 * g - 0.040274 * b + 0.501961,
+];
+
+// Smoothness and spill of 0 would divide by zero; this keeps them a hard edge instead
+const MIN_EDGE = 0.0001;
+
+const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 uv;
+void main() {
+  uv = vec2(position.x + 1.0, 1.0 - position.y) * 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D image;
+uniform vec2 pixelSize;
+uniform vec2 keyCbCr;
+uniform float similarity;
+uniform float smoothness;
+uniform float spill;
+varying vec2 uv;
+
+const vec4 cbVector = vec4(-0.100644, -0.338572, 0.439216, 0.501961);
+const vec4 crVector = vec4(0.439216, -0.398942, -0.040274, 0.501961);
+
+float chromaDistance(vec3 rgb) {
+  vec4 color = vec4(rgb, 1.0);
+  return distance(keyCbCr, vec2(dot(color, cbVector), dot(color, crVector)));
+}
+
+// Averaging with the diagonal neighbours softens camera noise along the edge
+float filteredDistance(vec3 rgb) {
+  float total = chromaDistance(rgb);
+  total += chromaDistance(texture2D(image, uv - pixelSize).rgb);
+  total += chromaDistance(texture2D(image, uv + vec2(pixelSize.x, -pixelSize.y)).rgb);
+  total += chromaDistance(texture2D(image, uv + vec2(-pixelSize.x, pixelSize.y)).rgb);
+  total += chromaDistance(texture2D(image, uv + pixelSize).rgb);
+  return total / 5.0;
+}
+
+void main() {
+  vec4 color = texture2D(image, uv);
+  float mask = filteredDistance(color.rgb) - similarity;
+  float alpha = color.a * pow(clamp(mask / smoothness, 0.0, 1.0), 1.5);
+  float keep = pow(clamp(mask / spill, 0.0, 1.0), 1.5);
+  float gray = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+  vec3 rgb = mix(vec3(gray), color.rgb, keep);
+  gl_FragColor = vec4(rgb * alpha, alpha);
+}`;
+
+// Frames the keyer can read; SVG images can't be uploaded as a texture
+export type ChromaKeySource = Exclude<CanvasImageSource, SVGImageElement>;
+
+export interface ChromaKeyer {
+  mode: ChromaKeyMode;
+  canvas: HTMLCanvasElement;
+  // Keys one frame into the canvas and returns it, or null if the frame couldn't be read
+  render: (source: ChromaKeySource, width: number, height: number, settings: ChromaKeySettings) => HTMLCanvasElement | null;
+  destroy: () => void;
+}
+
+const compileShader = (gl: WebGLRenderingContext, type: number, code: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, code);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader did not compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+const createWebGLKeyer = (): ChromaKeyer | null => {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+  if (!gl) return null;
+
+  try {
+    const program = gl.createProgram();
+    if (!program) throw new Error('Could not create shader program');
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader program did not link: ${gl.getProgramInfoLog(program)}`);
+    }
+    gl.useProgram(program);
+
+    // One triangle pair covering the whole canvas
+    gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    // Camera frames are rarely a power of two, which WebGL 1 only allows without mipmaps or repeats
+    gl.bindTexture(gl.TEXTURE_2D, gl.createTexture());
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+    const uniforms = {
+      pixelSize: gl.getUniformLocation(program, 'pixelSize'),
+      keyCbCr: gl.getUniformLocation(program, 'keyCbCr'),
+      similarity: gl.getUniformLocation(program, 'similarity'),
+      smoothness: gl.getUniformLocation(program, 'smoothness'),
+      spill: gl.getUniformLocation(program, 'spill'),
+    };
+
+    return {
+      mode: 'webgl',
+      canvas,
+      render: (source, width, height, settings) => {
+        if (gl.isContextLost()) return null;
+        if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
+        }
+        gl.viewport(0, 0, width, height);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+        gl.uniform2f(uniforms.pixelSize, 1 / width, 1 / height);
+        gl.uniform2f(uniforms.keyCbCr, ...toCbCr(...hexToRgb(settings.color)));
+        gl.uniform1f(uniforms.similarity, settings.similarity);
+        gl.uniform1f(uniforms.smoothness, Math.max(MIN_EDGE, settings.smoothness));
+        gl.uniform1f(uniforms.spill, Math.max(MIN_EDGE, settings.spill));
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.drawArrays(gl.TRIANGLES, 0, 6);
+        return canvas;
+      },
+      destroy: () => gl.getExtension('WEBGL_lose_context')?.loseContext(),
+    };
+  } catch (error) {
+    console.warn('⚠️ WebGL chroma key is not available:', error);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return null;
+  }
+};
+
+const createCpuKeyer = (): ChromaKeyer => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    mode: 'cpu',
+    canvas,
+    render: (source, width, height, settings) => {
+      if (!ctx) return null;
+      const scale = Math.min(1, CPU_MAX_WIDTH / width);
+      const w = Math.max(1, Math.round(width * scale));
+      const h = Math.max(1, Math.round(height * scale));
+      if (canvas.width !== w || canvas.height !== h) {
+        canvas.width = w;
+        canvas.height = h;
+      }
+      ctx.clearRect(0, 0, w, h);
+      ctx.drawImage(source, 0, 0, w, h);
+
+      const frame = ctx.getImageData(0, 0, w, h);
+      const data = frame.data;
+      const [keyCb, keyCr] = toCbCr(...hexToRgb(settings.color));
+      const smoothness = Math.max(MIN_EDGE, settings.smoothness);
+      const spill = Math.max(MIN_EDGE, settings.spill);
+
+      for (let i = 0; i < data.length; i += 4) {
+        const r = data[i] / 255;
+        const g = data[i + 1] / 255;
+        const b = data[i + 2] / 255;
+        const [cb, cr] = toCbCr(r, g, b);
+        const mask = Math.hypot(cb - keyCb, cr - keyCr) - settings.similarity;
+        const alpha = Math.pow(Math.min(1, Math.max(0, mask / smoothness)), 1.5);
+        const keep = Math.pow(Math.min(1, Math.max(0, mask / spill)), 1.5);
+        const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        data[i] = (gray + (r - gray) * keep) * 255;
+        data[i + 1] = (gray + (g - gray) * keep) * 255;
+        data[i + 2] = (gray + (b - gray) * keep) * 255;
+        data[i + 3] *= alpha;
+      }
+
+      ctx.putImageData(frame, 0, 0);
+      return canvas;
+    },
+    destroy: () => {
+      canvas.width = 0;
+      canvas.height = 0;
+    },
+  };
+};
+
+let webGLSupport: boolean | null = null;
+
+// Checked once, so the UI can say which path keying will take
+export const getChromaKeyMode = (): ChromaKeyMode => {
+  if (webGLSupport === null) {
+    const probe = createWebGLKeyer();
+    webGLSupport = !!probe;
+    probe?.destroy();
+  }
+  return webGLSupport ? 'webgl' : 'cpu';
+};
+
+export const createChromaKeyer = (mode: ChromaKeyMode = getChromaKeyMode()): ChromaKeyer => {
+  const keyer = (mode === 'webgl' && createWebGLKeyer()) || createCpuKeyer();
+  console.log(`💚 Chroma key running on ${keyer.mode === 'webgl' ? 'the GPU (WebGL)' : 'the CPU'}`);
+  return keyer;
+};
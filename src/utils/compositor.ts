@@ -0,0 +1,399 @@
+import { ChromaKeySettings, ChromaKeyer, createChromaKeyer } from './chromaKey';
+
+export interface LayerRect {
+  // All values are fractions of the output canvas (0 - 1)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayerCrop {
+  // Fractions of the source trimmed from each edge
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface LayerText {
+  content: string;
+  color: string;
+  // Fraction of the output height
+  size: number;
+}
+
+export interface CompositorLayer {
+  id: string;
+  source: CanvasImageSource | null;
+  rect: LayerRect;
+  visible: boolean;
+  fit?: 'contain' | 'cover' | 'stretch';
+  frame?: 'none' | 'kawaii';
+  crop?: LayerCrop;
+  // Solid fill and text layers draw without a source
+  color?: string;
+  text?: LayerText;
+  // Keys out a green screen (or other colour) before the layer is drawn
+  chromaKey?: ChromaKeySettings;
+}
+
+export type TransitionKind = 'cut' | 'fade' | 'wipe';
+
+export interface LayerTransition {
+  kind: TransitionKind;
+  durationMs: number;
+}
+
+export type CompositorOverlay = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  time: number,
+) => void;
+
+export interface CompositorOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+  background?: string;
+  // How smoothly sources are resized to fit the canvas
+  scaleQuality?: ImageSmoothingQuality;
+}
+
+export interface Compositor {
+  canvas: HTMLCanvasElement;
+  stream: MediaStream;
+  width: number;
+  height: number;
+  setLayers: (layers: CompositorLayer[]) => void;
+  transitionTo: (layers: CompositorLayer[], transition: LayerTransition) => void;
+  setOverlays: (overlays: CompositorOverlay[]) => void;
+  renderFrame: () => void;
+  destroy: () => void;
+}
+
+export const DEFAULT_CAMERA_RECT: LayerRect = { x: 0.72, y: 0.68, width: 0.25, height: 0.28 };
+
+export const FULL_FRAME_RECT: LayerRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const NO_CROP: LayerCrop = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const clampRect = (rect: LayerRect): LayerRect => {
+  const width = Math.min(1, Math.max(0.05, rect.width));
+  const height = Math.min(1, Math.max(0.05, rect.height));
+  return {
+    width,
+    height,
+    x: Math.min(1 - width, Math.max(0, rect.x)),
+    y: Math.min(1 - height, Math.max(0, rect.y)),
+  };
+};
+
+const getSourceSize = (source: CanvasImageSource) => {
+  if (source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if (source instanceof SVGImageElement) {
+    return { width: source.width.baseVal.value, height: source.height.baseVal.value };
+  }
+  if ('displayWidth' in source) {
+    return { width: source.displayWidth, height: source.displayHeight };
+  }
+  return { width: source.width as number, height: source.height as number };
+};
+
+const isSourceReady = (source: CanvasImageSource) => {
+  if (source instanceof HTMLVideoElement) {
+    return source.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && source.videoWidth > 0;
+  }
+  if (source instanceof HTMLImageElement) {
+    return source.complete && source.naturalWidth > 0;
+  }
+  return true;
+};
+
+const drawFill = (ctx: CanvasRenderingContext2D, layer: CompositorLayer, dx: number, dy: number, dw: number, dh: number) => {
+  ctx.save();
+  ctx.fillStyle = layer.color || '#000000';
+  ctx.beginPath();
+  ctx.roundRect(dx, dy, dw, dh, layer.frame === 'kawaii' ? Math.min(dw, dh) * 0.08 : 0);
+  ctx.fill();
+  ctx.restore();
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, text: LayerText, dx: number, dy: number, dw: number, dh: number, canvasHeight: number) => {
+  const lines = text.content.split('\n');
+  const fontSize = Math.round(text.size * canvasHeight);
+  const lineHeight = fontSize * 1.25;
+  const startY = dy + dh / 2 - ((lines.length - 1) * lineHeight) / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(dx, dy, dw, dh);
+  ctx.clip();
+  ctx.font = `bold ${fontSize}px Comfortaa, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = text.color;
+  ctx.shadowColor = 'rgba(229, 66, 232, 0.9)';
+  ctx.shadowBlur = fontSize * 0.2;
+  lines.forEach((line, index) => ctx.fillText(line, dx + dw / 2, startY + index * lineHeight, dw));
+  ctx.restore();
+};
+
+const drawLayer = (ctx: CanvasRenderingContext2D, layer: CompositorLayer, canvasWidth: number, canvasHeight: number) => {
+  if (!layer.visible) return;
+
+  const dx = layer.rect.x * canvasWidth;
+  const dy = layer.rect.y * canvasHeight;
+  const dw = layer.rect.width * canvasWidth;
+  const dh = layer.rect.height * canvasHeight;
+
+  if (layer.color) drawFill(ctx, layer, dx, dy, dw, dh);
+  if (layer.text) drawText(ctx, layer.text, dx, dy, dw, dh, canvasHeight);
+  if (!layer.source || !isSourceReady(layer.source)) return;
+
+  const size = getSourceSize(layer.source);
+  if (!size.width || !size.height) return;
+
+  // Crop first, then fit what's left of the source into the layer box
+  const crop = layer.crop ?? NO_CROP;
+  const source = {
+    x: size.width * crop.left,
+    y: size.height * crop.top,
+    width: size.width * Math.max(0.01, 1 - crop.left - crop.right),
+    height: size.height * Math.max(0.01, 1 - crop.top - crop.bottom),
+  };
+
+  // Work out which part of the source ends up inside the layer box
+  let sx = source.x;
+  let sy = source.y;
+  let sw = source.width;
+  let sh = source.height;
+  let tx = dx;
+  let ty = dy;
+  let tw = dw;
+  let th = dh;
+
+  const sourceRatio = source.width / source.height;
+  const boxRatio = dw / dh;
+
+  if (layer.fit === 'cover') {
+    if (sourceRatio > boxRatio) {
+      sw = source.height * boxRatio;
+      sx = source.x + (source.width - sw) / 2;
+    } else {
+      sh = source.width / boxRatio;
+      sy = source.y + (source.height - sh) / 2;
+    }
+  } else if (layer.fit !== 'stretch') {
+    if (sourceRatio > boxRatio) {
+      th = dw / sourceRatio;
+      ty = dy + (dh - th) / 2;
+    } else {
+      tw = dh * sourceRatio;
+      tx = dx + (dw - tw) / 2;
+    }
+  }
+
+  ctx.save();
+
+  if (layer.frame === 'kawaii') {
+    const radius = Math.min(tw, th) * 0.08;
+    ctx.beginPath();
+    ctx.roundRect(tx, ty, tw, th, radius);
+    ctx.clip();
+  }
+
+  ctx.drawImage(layer.source, sx, sy, sw, sh, tx, ty, tw, th);
+  ctx.restore();
+
+  if (layer.frame === 'kawaii') {
+    const radius = Math.min(tw, th) * 0.08;
+    ctx.save();
+    ctx.lineWidth = Math.max(4, canvasWidth * 0.004);
+    ctx.strokeStyle = '#f270f7';
+    ctx.shadowColor = '#e542e8';
+    ctx.shadowBlur = 16;
+    ctx.beginPath();
+    ctx.roundRect(tx, ty, tw, th, radius);
+    ctx.stroke();
+    ctx.restore();
+  }
+};
+
+const traceHeart = (ctx: CanvasRenderingContext2D, cx: number, cy: number, size: number) => {
+  const top = cy - size * 0.35;
+  ctx.beginPath();
+  ctx.moveTo(cx, top + size * 0.25);
+  ctx.bezierCurveTo(cx, top, cx - size * 0.5, top, cx - size * 0.5, top + size * 0.3);
+  ctx.bezierCurveTo(cx - size * 0.5, top + size * 0.6, cx, top + size * 0.75, cx, top + size);
+  ctx.bezierCurveTo(cx, top + size * 0.75, cx + size * 0.5, top + size * 0.6, cx + size * 0.5, top + size * 0.3);
+  ctx.bezierCurveTo(cx + size * 0.5, top, cx, top, cx, top + size * 0.25);
+  ctx.closePath();
+};
+
+// Reveals the incoming scene through a growing heart with sparkles trailing its edge
+const drawKawaiiWipe = (
+  ctx: CanvasRenderingContext2D,
+  incoming: HTMLCanvasElement,
+  progress: number,
+  width: number,
+  height: number,
+) => {
+  const eased = progress * progress * (3 - 2 * progress);
+  const size = eased * Math.max(width, height) * 2.6;
+  const cx = width / 2;
+  const cy = height / 2;
+
+  ctx.save();
+  traceHeart(ctx, cx, cy, size);
+  ctx.clip();
+  ctx.drawImage(incoming, 0, 0);
+  ctx.restore();
+
+  if (progress >= 1) return;
+  ctx.save();
+  ctx.font = `${Math.round(height * 0.05)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (let i = 0; i < 12; i++) {
+    const angle = (i / 12) * Math.PI * 2 + progress * Math.PI;
+    const radius = size * 0.45;
+    ctx.fillText(i % 2 === 0 ? '✨' : '💖', cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+  }
+  ctx.restore();
+};
+
+export const createCompositor = ({
+  width = 1920,
+  height = 1080,
+  fps = 30,
+  background = '#1e1029',
+  scaleQuality = 'high',
+}: CompositorOptions = {}): Compositor => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // The incoming scene is drawn off-screen during a transition, then blended over the outgoing one
+  const incomingCanvas = document.createElement('canvas');
+  incomingCanvas.width = width;
+  incomingCanvas.height = height;
+  const incomingCtx = incomingCanvas.getContext('2d');
+  [ctx, incomingCtx].forEach(context => {
+    if (context) context.imageSmoothingQuality = scaleQuality;
+  });
+
+  let layers: CompositorLayer[] = [];
+  let overlays: CompositorOverlay[] = [];
+  let transition: (LayerTransition & { from: CompositorLayer[]; startedAt: number }) | null = null;
+  // Shared by every keyed layer: each one is keyed and drawn before the next one reuses it
+  let keyer: ChromaKeyer | null = null;
+
+  const keyLayer = (layer: CompositorLayer): CompositorLayer => {
+    const source = layer.source;
+    if (!layer.chromaKey?.enabled || !layer.visible || !source || source instanceof SVGImageElement || !isSourceReady(source)) {
+      return layer;
+    }
+    const size = getSourceSize(source);
+    if (!size.width || !size.height) return layer;
+
+    keyer = keyer ?? createChromaKeyer();
+    let keyed = keyer.render(source, size.width, size.height, layer.chromaKey);
+    if (!keyed && keyer.mode === 'webgl') {
+      // The GPU dropped our WebGL context; carry on without it
+      keyer.destroy();
+      keyer = createChromaKeyer('cpu');
+      keyed = keyer.render(source, size.width, size.height, layer.chromaKey);
+    }
+    return keyed ? { ...layer, source: keyed } : layer;
+  };
+
+  const drawScene = (target: CanvasRenderingContext2D, sceneLayers: CompositorLayer[]) => {
+    target.fillStyle = background;
+    target.fillRect(0, 0, width, height);
+    sceneLayers.forEach(layer => drawLayer(target, keyLayer(layer), width, height));
+  };
+
+  const renderFrame = () => {
+    const time = performance.now();
+    const progress = transition ? Math.min(1, (time - transition.startedAt) / transition.durationMs) : 1;
+
+    if (transition && progress < 1 && incomingCtx) {
+      drawScene(ctx, transition.from);
+      drawScene(incomingCtx, layers);
+      if (transition.kind === 'wipe') {
+        drawKawaiiWipe(ctx, incomingCanvas, progress, width, height);
+      } else {
+        ctx.save();
+        ctx.globalAlpha = progress;
+        ctx.drawImage(incomingCanvas, 0, 0);
+        ctx.restore();
+      }
+    } else {
+      transition = null;
+      drawScene(ctx, layers);
+    }
+
+    overlays.forEach(overlay => {
+      ctx.save();
+      overlay(ctx, width, height, time);
+      ctx.restore();
+    });
+  };
+
+  // A timer keeps drawing while the tab is in the background, unlike requestAnimationFrame
+  const interval = setInterval(renderFrame, 1000 / fps);
+  renderFrame();
+
+  const stream = canvas.captureStream(fps);
+  console.log(`🎨 Compositor started at ${width}x${height} @ ${fps}fps (${scaleQuality} quality scaling)`);
+
+  return {
+    canvas,
+    stream,
+    width,
+    height,
+    setLayers: (next) => {
+      layers = next;
+    },
+    transitionTo: (next, { kind, durationMs }) => {
+      transition = kind === 'cut' || durationMs <= 0
+        ? null
+        : { kind, durationMs, from: layers, startedAt: performance.now() };
+      layers = next;
+      console.log(`🎬 Scene transition: ${kind} (${durationMs}ms)`);
+    },
+    setOverlays: (next) => {
+      overlays = next;
+    },
+    renderFrame,
+    destroy: () => {
+      clearInterval(interval);
+      stream.getTracks().forEach(track => track.stop());
+      keyer?.destroy();
+      console.log('🎨 Compositor stopped');
+    },
+  };
+};
+
+export const createWatermarkOverlay = (text: string): CompositorOverlay => (ctx, width, height) => {
+  const fontSize = Math.round(height * 0.03);
+  ctx.font = `bold ${fontSize}px Comfortaa, sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.shadowColor = 'rgba(229, 66, 232, 0.9)';
+  ctx.shadowBlur = 8;
+  ctx.fillText(text, width * 0.02, height * 0.03);
+};
@@ -0,0 +1,51 @@
+// One IndexedDB database holds what's too big or too structured for localStorage:
+// the unfinished-recording journal, file handles, the recordings library and screenshots
+const DB_NAME = 'kawaii-studio';
+const DB_VERSION = 3;
+
+export const STORES = {
+  journal: 'recordings',
+  handles: 'handles',
+  library: 'library',
+  screenshots: 'screenshots',
+} as const;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  // Stores are only ever added, so each one is created if this database predates it
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORES.journal)) db.createObjectStore(STORES.journal, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.handles)) db.createObjectStore(STORES.handles);
+    if (!db.objectStoreNames.contains(STORES.library)) db.createObjectStore(STORES.library, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.screenshots)) db.createObjectStore(STORES.screenshots, { keyPath: 'id' });
+  };
+  return requestToPromise(request);
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(storeName, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await requestToPromise(run(transaction.objectStore(storeName)));
+    await committed;
+    return result;
+  } finally {
+    db.close();
+  }
+};
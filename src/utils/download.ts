@@ -0,0 +1,14 @@
+export const downloadFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Filesystem-safe timestamp used in every file the studio saves
+export const fileTimestamp = (date = new Date()) => date.toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { findConflicts, sceneHotkeyId } from './hotkeys';
+
+describe('findConflicts', () => {
+  it('ignores bindings left behind by actions that no longer exist', () => {
+    const bindings = {
+      [sceneHotkeyId('deleted')]: 'Mod+1',
+      [sceneHotkeyId('current')]: 'Mod+1',
+      toggleMic: 'M',
+      toggleCamera: 'M',
+    };
+
+    const conflicts = findConflicts(bindings, [sceneHotkeyId('current'), 'toggleMic', 'toggleCamera']);
+    expect([...conflicts]).toEqual([['M', ['toggleMic', 'toggleCamera']]]);
+    expect(findConflicts(bindings).get('Mod+1')).toHaveLength(2);
+  });
+});
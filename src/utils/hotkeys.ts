@@ -0,0 +1,104 @@
+// Keyboard shortcuts: which key combo triggers which action.
+// Combos are strings like "Mod+Alt+KeyP", built from KeyboardEvent.code so they follow the
+// physical key whatever the keyboard layout. "Mod" is Ctrl, or ⌘ on a Mac.
+
+export type HotkeyGroup = 'sources' | 'recording' | 'streaming' | 'scenes' | 'audio';
+
+export interface HotkeyActionInfo {
+  id: string;
+  name: string;
+  group: HotkeyGroup;
+}
+
+// A registered action; hold actions also get the key release, e.g. for push-to-talk
+export interface HotkeyAction extends HotkeyActionInfo {
+  onPress: () => void;
+  onRelease?: () => void;
+}
+
+// One combo per action; null means the action has no shortcut
+export type HotkeyBindings = Record<string, string | null>;
+
+export const HOTKEY_GROUP_INFO: Record<HotkeyGroup, { name: string; emoji: string }> = {
+  sources: { name: 'Sources', emoji: '🎥' },
+  recording: { name: 'Recording', emoji: '🔴' },
+  streaming: { name: 'Streaming', emoji: '📡' },
+  scenes: { name: 'Scenes', emoji: '🎭' },
+  audio: { name: 'Audio', emoji: '🎚️' },
+};
+
+// Actions that always exist; per-scene and per-channel ones are added by the app
+export const HOTKEY_ACTIONS: HotkeyActionInfo[] = [
+  { id: 'toggleScreen', name: 'Start/stop screen share', group: 'sources' },
+  { id: 'toggleCamera', name: 'Start/stop camera', group: 'sources' },
+  { id: 'toggleMicrophone', name: 'Start/stop microphone', group: 'sources' },
+  { id: 'toggleRecording', name: 'Start/stop recording', group: 'recording' },
+  { id: 'pauseRecording', name: 'Pause/resume recording', group: 'recording' },
+  { id: 'addMarker', name: 'Add chapter marker', group: 'recording' },
+  { id: 'screenshot', name: 'Take screenshot', group: 'recording' },
+  { id: 'toggleReplayBuffer', name: 'Start/stop replay buffer', group: 'recording' },
+  { id: 'saveReplay', name: 'Save replay', group: 'recording' },
+  { id: 'toggleStream', name: 'Go live/end stream', group: 'streaming' },
+  { id: 'transitionToProgram', name: 'Transition to Program (studio mode)', group: 'scenes' },
+  { id: 'pushToTalk', name: 'Push to talk / push to mute (hold)', group: 'audio' },
+];
+
+export const sceneHotkeyId = (sceneId: string) => `switchScene:${sceneId}`;
+export const channelMuteHotkeyId = (channelId: string) => `muteChannel:${channelId}`;
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  toggleRecording: 'Mod+Alt+KeyR',
+  pauseRecording: 'Mod+Alt+KeyP',
+  addMarker: 'Mod+Alt+KeyM',
+  screenshot: 'Mod+Alt+KeyX',
+  saveReplay: 'Mod+Alt+KeyS',
+  pushToTalk: 'Mod+Alt+KeyT',
+};
+
+const MODIFIER_CODES = [
+  'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight', 'OSLeft', 'OSRight',
+];
+
+const COMBO_PATTERN = /^(Mod\+)?(Alt\+)?(Shift\+)?[A-Za-z0-9]+$/;
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Null while only modifiers are held, since those can't be a shortcut on their own
+export const eventToCombo = (event: KeyboardEvent) => {
+  if (!event.code || MODIFIER_CODES.includes(event.code)) return null;
+  return [
+    event.ctrlKey || event.metaKey ? 'Mod' : null,
+    event.altKey ? 'Alt' : null,
+    event.shiftKey ? 'Shift' : null,
+    event.code,
+  ].filter(Boolean).join('+');
+};
+
+// "Mod+Alt+KeyP" → "Ctrl+Alt+P" (or "⌘+⌥+P" on a Mac)
+export const formatCombo = (combo: string) => {
+  const mac = isMac();
+  return combo.split('+').map(part => {
+    if (part === 'Mod') return mac ? '⌘' : 'Ctrl';
+    if (part === 'Alt') return mac ? '⌥' : 'Alt';
+    if (part === 'Shift') return mac ? '⇧' : 'Shift';
+    return part.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ').replace(/^Arrow/, '');
+  }).join('+');
+};
+
+// Combos bound to more than one action, with the actions that share them.
+// Saved bindings can outlive their action (a deleted scene, a removed input), so only
+// `actionIds` count when given.
+export const findConflicts = (bindings: HotkeyBindings, actionIds?: string[]) => {
+  const byCombo = new Map<string, string[]>();
+  Object.entries(bindings).forEach(([actionId, combo]) => {
+    if (actionIds && !actionIds.includes(actionId)) return;
+    if (combo) byCombo.set(combo, [...(byCombo.get(combo) ?? []), actionId]);
+  });
+  return new Map([...byCombo].filter(([, actionIds]) => actionIds.length > 1));
+};
+
+export const sanitizeHotkeys = (saved: unknown): HotkeyBindings => {
+  if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return { ...DEFAULT_HOTKEYS };
+  return Object.fromEntries(Object.entries(saved as Record<string, unknown>)
+    .filter(([, combo]) => combo === null || (typeof combo === 'string' && COMBO_PATTERN.test(combo))) as [string, string | null][]);
+};
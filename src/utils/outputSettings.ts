@@ -0,0 +1,200 @@
+// Recording format and canvas output settings, plus what this browser's MediaRecorder can actually do
+
+export type RecordingContainer = 'webm' | 'mp4';
+export type RecordingVideoCodec = 'vp8' | 'vp9' | 'av1' | 'h264';
+export type BitrateMode = 'variable' | 'constant';
+export type SplitMode = 'off' | 'duration' | 'size';
+
+export interface OutputSettings {
+  container: RecordingContainer;
+  videoCodec: RecordingVideoCodec;
+  bitrateMode: BitrateMode;
+  videoBitrateKbps: number;
+  audioBitrateKbps: number;
+  // Canvas size, which every scene is scaled to fit
+  width: number;
+  height: number;
+  fps: number;
+  scaleQuality: ImageSmoothingQuality;
+  // Long recordings can be cut into several files without stopping
+  splitMode: SplitMode;
+  splitMinutes: number;
+  splitMegabytes: number;
+  // The replay buffer keeps at least this much, within a memory budget
+  replaySeconds: number;
+  replayMaxMegabytes: number;
+}
+
+export interface RecordingFormat {
+  container: RecordingContainer;
+  videoCodec: RecordingVideoCodec | null;
+  mimeType: string;
+  extension: string;
+  // True when the chosen container/codec isn't supported and something else will be used
+  isFallback: boolean;
+}
+
+// MediaRecorder's bitrate mode options aren't in TypeScript's DOM lib yet
+type RecorderOptionsWithBitrateMode = MediaRecorderOptions & {
+  audioBitrateMode?: BitrateMode;
+  videoBitrateMode?: BitrateMode;
+};
+
+export const CONTAINER_INFO: Record<RecordingContainer, { name: string; extension: string; audioCodecs: string[] }> = {
+  webm: { name: 'WebM', extension: 'webm', audioCodecs: ['opus'] },
+  mp4: { name: 'MP4', extension: 'mp4', audioCodecs: ['mp4a.40.2', 'opus'] },
+};
+
+// Codec strings per container; null means the pairing doesn't exist.
+// Listed in fallback order: widest hardware support first, AV1 last since it's the heaviest to encode.
+export const VIDEO_CODEC_INFO: Record<RecordingVideoCodec, { name: string; codecs: Record<RecordingContainer, string | null> }> = {
+  h264: { name: 'H.264', codecs: { webm: 'h264', mp4: 'avc1.42E01E' } },
+  vp9: { name: 'VP9', codecs: { webm: 'vp9', mp4: 'vp09.00.10.08' } },
+  vp8: { name: 'VP8', codecs: { webm: 'vp8', mp4: null } },
+  av1: { name: 'AV1', codecs: { webm: 'av1', mp4: 'av01.0.08M.08' } },
+};
+
+export const RESOLUTION_PRESETS = [
+  { name: '720p', width: 1280, height: 720 },
+  { name: '1080p', width: 1920, height: 1080 },
+  { name: '1440p', width: 2560, height: 1440 },
+  { name: '4K', width: 3840, height: 2160 },
+];
+
+export const FPS_PRESETS = [24, 30, 48, 60];
+
+export const AUDIO_BITRATE_PRESETS = [96, 128, 160, 192, 256, 320];
+
+export const SCALE_QUALITY_INFO: Record<ImageSmoothingQuality, string> = {
+  low: 'Fast',
+  medium: 'Balanced',
+  high: 'Smooth',
+};
+
+export const SPLIT_MODE_INFO: Record<SplitMode, string> = {
+  off: 'Off',
+  duration: 'By time',
+  size: 'By size',
+};
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  container: 'webm',
+  videoCodec: 'vp9',
+  bitrateMode: 'variable',
+  videoBitrateKbps: 8000,
+  audioBitrateKbps: 320,
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  scaleQuality: 'high',
+  splitMode: 'off',
+  splitMinutes: 30,
+  splitMegabytes: 2000,
+  replaySeconds: 30,
+  replayMaxMegabytes: 500,
+};
+
+const isTypeSupported = (mimeType: string) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+// The first audio codec the browser accepts alongside this video codec, or null when none do
+const findMimeType = (container: RecordingContainer, videoCodec: RecordingVideoCodec) => {
+  const codec = VIDEO_CODEC_INFO[videoCodec].codecs[container];
+  if (!codec) return null;
+  for (const audioCodec of CONTAINER_INFO[container].audioCodecs) {
+    const mimeType = `video/${container};codecs=${codec},${audioCodec}`;
+    if (isTypeSupported(mimeType)) return mimeType;
+  }
+  return null;
+};
+
+export const isFormatSupported = (container: RecordingContainer, videoCodec: RecordingVideoCodec) =>
+  findMimeType(container, videoCodec) !== null;
+
+export const getSupportMatrix = () =>
+  (Object.keys(CONTAINER_INFO) as RecordingContainer[]).map(container => ({
+    container,
+    codecs: (Object.keys(VIDEO_CODEC_INFO) as RecordingVideoCodec[]).map(videoCodec => ({
+      videoCodec,
+      available: VIDEO_CODEC_INFO[videoCodec].codecs[container] !== null,
+      supported: isFormatSupported(container, videoCodec),
+    })),
+  }));
+
+// Prefers the chosen pairing, then other codecs in the same container, then the other container
+export const resolveRecordingFormat = (settings: OutputSettings): RecordingFormat => {
+  const containers = [settings.container, ...(Object.keys(CONTAINER_INFO) as RecordingContainer[]).filter(c => c !== settings.container)];
+  const codecs = [settings.videoCodec, ...(Object.keys(VIDEO_CODEC_INFO) as RecordingVideoCodec[]).filter(c => c !== settings.videoCodec)];
+
+  for (const container of containers) {
+    for (const videoCodec of codecs) {
+      const mimeType = findMimeType(container, videoCodec);
+      if (mimeType) {
+        return {
+          container,
+          videoCodec,
+          mimeType,
+          extension: CONTAINER_INFO[container].extension,
+          isFallback: container !== settings.container || videoCodec !== settings.videoCodec,
+        };
+      }
+    }
+  }
+
+  // Nothing we know about is supported, so let the browser pick its default
+  const mimeType = isTypeSupported('video/webm') ? 'video/webm' : '';
+  return { container: 'webm', videoCodec: null, mimeType, extension: 'webm', isFallback: true };
+};
+
+export const describeFormat = (container: RecordingContainer, videoCodec: RecordingVideoCodec | null) =>
+  `${CONTAINER_INFO[container].name}${videoCodec ? ` + ${VIDEO_CODEC_INFO[videoCodec].name}` : ''}`;
+
+export const getRecorderOptions = (settings: OutputSettings, format: RecordingFormat): RecorderOptionsWithBitrateMode => ({
+  ...(format.mimeType ? { mimeType: format.mimeType } : {}),
+  videoBitsPerSecond: settings.videoBitrateKbps * 1000,
+  audioBitsPerSecond: settings.audioBitrateKbps * 1000,
+  videoBitrateMode: settings.bitrateMode,
+  audioBitrateMode: settings.bitrateMode,
+});
+
+// First-run settings keep the old preference for MP4/H.264, but never start out on a fallback
+export const getDefaultOutputSettings = (): OutputSettings => {
+  const preferred: OutputSettings = { ...DEFAULT_OUTPUT_SETTINGS, container: 'mp4', videoCodec: 'h264' };
+  const format = resolveRecordingFormat(preferred);
+  return format.videoCodec
+    ? { ...preferred, container: format.container, videoCodec: format.videoCodec }
+    : DEFAULT_OUTPUT_SETTINGS;
+};
+
+// Fills in anything missing or out of range, e.g. from an older save or a hand-edited collection
+export const sanitizeOutputSettings = (saved: Partial<OutputSettings> | null | undefined): OutputSettings => {
+  const settings = { ...DEFAULT_OUTPUT_SETTINGS, ...saved };
+  const clamp = (value: number, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+  return {
+    container: settings.container in CONTAINER_INFO ? settings.container : DEFAULT_OUTPUT_SETTINGS.container,
+    videoCodec: settings.videoCodec in VIDEO_CODEC_INFO ? settings.videoCodec : DEFAULT_OUTPUT_SETTINGS.videoCodec,
+    bitrateMode: settings.bitrateMode === 'constant' ? 'constant' : 'variable',
+    videoBitrateKbps: clamp(settings.videoBitrateKbps, 500, 50000, DEFAULT_OUTPUT_SETTINGS.videoBitrateKbps),
+    audioBitrateKbps: clamp(settings.audioBitrateKbps, 64, 320, DEFAULT_OUTPUT_SETTINGS.audioBitrateKbps),
+    width: clamp(settings.width, 320, 3840, DEFAULT_OUTPUT_SETTINGS.width),
+    height: clamp(settings.height, 240, 2160, DEFAULT_OUTPUT_SETTINGS.height),
+    fps: clamp(settings.fps, 10, 60, DEFAULT_OUTPUT_SETTINGS.fps),
+    scaleQuality: settings.scaleQuality in SCALE_QUALITY_INFO ? settings.scaleQuality : DEFAULT_OUTPUT_SETTINGS.scaleQuality,
+    splitMode: settings.splitMode in SPLIT_MODE_INFO ? settings.splitMode : DEFAULT_OUTPUT_SETTINGS.splitMode,
+    splitMinutes: clamp(settings.splitMinutes, 1, 720, DEFAULT_OUTPUT_SETTINGS.splitMinutes),
+    splitMegabytes: clamp(settings.splitMegabytes, 50, 100000, DEFAULT_OUTPUT_SETTINGS.splitMegabytes),
+    replaySeconds: clamp(settings.replaySeconds, 5, 600, DEFAULT_OUTPUT_SETTINGS.replaySeconds),
+    replayMaxMegabytes: clamp(settings.replayMaxMegabytes, 50, 4000, DEFAULT_OUTPUT_SETTINGS.replayMaxMegabytes),
+  };
+};
+
+// Whether a file that has been recording for `activeMs` and holds `bytes` should end here
+export const shouldSplitRecording = (settings: OutputSettings, activeMs: number, bytes: number) => {
+  switch (settings.splitMode) {
+    case 'duration': return activeMs >= settings.splitMinutes * 60 * 1000;
+    case 'size': return bytes >= settings.splitMegabytes * 1024 * 1024;
+    default: return false;
+  }
+};
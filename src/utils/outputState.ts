@@ -0,0 +1,38 @@
+// Shared lifecycle for the two independent outputs: live streaming and local recording.
+// Only recordings can pause; a stream never leaves 'active' that way.
+export type OutputStatus = 'idle' | 'starting' | 'active' | 'paused' | 'stopping' | 'error';
+
+const OUTPUT_TRANSITIONS: Record<OutputStatus, OutputStatus[]> = {
+  idle: ['starting'],
+  starting: ['active', 'stopping', 'error'],
+  active: ['paused', 'stopping', 'error'],
+  paused: ['active', 'stopping', 'error'],
+  stopping: ['idle', 'error'],
+  error: ['starting', 'stopping', 'idle'],
+};
+
+export const canTransition = (from: OutputStatus, to: OutputStatus) => OUTPUT_TRANSITIONS[from].includes(to);
+
+// Returns the next status, or the current one when the move isn't allowed
+export const transitionOutput = (from: OutputStatus, to: OutputStatus, label: string): OutputStatus => {
+  if (from === to) return from;
+  if (!canTransition(from, to)) {
+    console.warn(`⚠️ Ignoring ${label} transition ${from} -> ${to}`);
+    return from;
+  }
+  console.log(`🔀 ${label}: ${from} -> ${to}`);
+  return to;
+};
+
+export const isOutputBusy = (status: OutputStatus) => status === 'starting' || status === 'stopping';
+
+export const isOutputRunning = (status: OutputStatus) =>
+  status === 'starting' || status === 'active' || status === 'paused';
+
+export const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,39 @@
+// Push-to-talk and push-to-mute: a held key opens (or closes) the microphone's gate in the mixer
+
+export type PushToTalkMode = 'off' | 'pushToTalk' | 'pushToMute';
+
+export interface PushToTalkSettings {
+  mode: PushToTalkMode;
+  // How long the gate stays as it was after the key comes up, so word endings aren't clipped
+  releaseDelayMs: number;
+}
+
+export const PUSH_TO_TALK_MODE_INFO: Record<PushToTalkMode, { name: string; emoji: string }> = {
+  off: { name: 'Always on', emoji: '🎤' },
+  pushToTalk: { name: 'Push to talk', emoji: '🗣️' },
+  pushToMute: { name: 'Push to mute', emoji: '🤫' },
+};
+
+export const MAX_RELEASE_DELAY_MS = 2000;
+
+export const DEFAULT_PUSH_TO_TALK_SETTINGS: PushToTalkSettings = {
+  mode: 'off',
+  releaseDelayMs: 250,
+};
+
+// Push-to-talk is open only while the key is down, push-to-mute only while it's up
+export const isGateOpen = (mode: PushToTalkMode, isKeyDown: boolean) => {
+  if (mode === 'pushToTalk') return isKeyDown;
+  if (mode === 'pushToMute') return !isKeyDown;
+  return true;
+};
+
+export const sanitizePushToTalkSettings = (saved: unknown): PushToTalkSettings => {
+  const settings = { ...DEFAULT_PUSH_TO_TALK_SETTINGS, ...(typeof saved === 'object' && saved !== null ? saved : {}) };
+  return {
+    mode: settings.mode in PUSH_TO_TALK_MODE_INFO ? settings.mode : DEFAULT_PUSH_TO_TALK_SETTINGS.mode,
+    releaseDelayMs: Number.isFinite(settings.releaseDelayMs)
+      ? Math.min(MAX_RELEASE_DELAY_MS, Math.max(0, Math.round(settings.releaseDelayMs)))
+      : DEFAULT_PUSH_TO_TALK_SETTINGS.releaseDelayMs,
+  };
+};
@@ -0,0 +1,244 @@
+import { STORES, withStore } from './database';
+import { RecordingWriter, createRecordingWriter, getRecordingsDirectory, isDiskRecordingSupported } from './recordingStorage';
+import { RecordingMarker } from './chapterMarkers';
+
+// Finished recordings stay in the Origin Private File System next to the in-progress ones,
+// with their details kept in IndexedDB so the library can list them without opening every file.
+
+export interface LibraryRecording {
+  id: string;
+  name: string;
+  fileName: string;
+  mimeType: string;
+  createdAt: number;
+  // Null when we couldn't tell, e.g. for recovered recordings
+  durationMs: number | null;
+  size: number;
+  scenes: string[];
+  // Small JPEG data URL of a frame near the start
+  thumbnail: string | null;
+  // Missing on entries saved before markers existed
+  markers?: RecordingMarker[];
+  sessionId?: string;
+  part?: number;
+}
+
+export interface RecordingDetails {
+  name?: string;
+  durationMs?: number | null;
+  scenes?: string[];
+  markers?: RecordingMarker[];
+  sessionId?: string;
+  part?: number;
+}
+
+const THUMBNAIL_WIDTH = 320;
+
+export const isLibrarySupported = () => isDiskRecordingSupported();
+
+export const listLibraryRecordings = async () => {
+  if (!isLibrarySupported()) return [];
+  const recordings = await withStore<LibraryRecording[]>(STORES.library, 'readonly', store => store.getAll());
+  return recordings.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Resolves once the video has fired `event`, or rejects after `timeoutMs`
+const waitFor = (video: HTMLVideoElement, event: string, timeoutMs = 5000) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), timeoutMs);
+    video.addEventListener(event, () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+    video.addEventListener('error', () => {
+      clearTimeout(timer);
+      reject(video.error);
+    }, { once: true });
+  });
+
+// MediaRecorder's WebM files don't say how long they are, so the browser reports Infinity
+// until it has read to the end. Seeking far past the end makes it do exactly that.
+export const resolveVideoDuration = async (video: HTMLVideoElement) => {
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) await waitFor(video, 'loadedmetadata');
+  if (isFinite(video.duration)) return video.duration;
+
+  const duration = waitFor(video, 'durationchange');
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await duration;
+  const rewound = waitFor(video, 'seeked');
+  video.currentTime = 0;
+  await rewound;
+  return isFinite(video.duration) ? video.duration : null;
+};
+
+const describeFile = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    const duration = await resolveVideoDuration(video).catch(() => null);
+
+    video.currentTime = Math.min(1, duration ? duration / 2 : 1);
+    await waitFor(video, 'seeked');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(THUMBNAIL_WIDTH * (video.videoHeight / video.videoWidth)) || Math.round(THUMBNAIL_WIDTH * 9 / 16);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return { durationMs: duration !== null ? Math.round(duration * 1000) : null, thumbnail: canvas.toDataURL('image/jpeg', 0.7) };
+  } catch (error) {
+    console.warn('⚠️ Could not read a thumbnail for', file.name, error);
+    return { durationMs: null, thumbnail: null };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Files recorded to disk are already in the directory; anything else (memory fallback,
+// trimmed exports) is copied in so the library owns a copy of every entry.
+// Resolves with the name the library copy is stored under.
+const ensureStored = async (file: File, id: string) => {
+  const directory = await getRecordingsDirectory();
+  let fileName = file.name;
+  try {
+    const existing = await (await directory.getFileHandle(file.name)).getFile();
+    if (existing.size === file.size) return fileName;
+    // A fixed-up recording is still being read from the original, so it gets its own name.
+    // The caller removes the original once it's done with it.
+    fileName = `library-${id}.${file.name.split('.').pop()}`;
+  } catch {
+    // Not there yet
+  }
+  const handle = await directory.getFileHandle(fileName, { create: true });
+  await file.stream().pipeTo(await handle.createWritable());
+  return fileName;
+};
+
+export const addToLibrary = async (file: File, details: RecordingDetails = {}) => {
+  const id = crypto.randomUUID();
+  const fileName = await ensureStored(file, id);
+  const described = await describeFile(file);
+
+  const recording: LibraryRecording = {
+    id,
+    name: details.name ?? file.name.replace(/\.[^.]+$/, ''),
+    fileName,
+    mimeType: file.type,
+    createdAt: Date.now(),
+    // Our own count leaves out paused time, which is what the file holds too
+    durationMs: details.durationMs ?? described.durationMs,
+    size: file.size,
+    scenes: details.scenes ?? [],
+    thumbnail: described.thumbnail,
+    markers: details.markers ?? [],
+    sessionId: details.sessionId,
+    part: details.part,
+  };
+  await withStore(STORES.library, 'readwrite', store => store.put(recording));
+  console.log('📚 Added to the recordings library:', recording.name);
+  return recording;
+};
+
+export const readLibraryFile = async (recording: LibraryRecording) => {
+  const directory = await getRecordingsDirectory();
+  const file = await (await directory.getFileHandle(recording.fileName)).getFile();
+  return new File([file], recording.fileName, { type: recording.mimeType });
+};
+
+export const renameLibraryRecording = async (recording: LibraryRecording, name: string) => {
+  const renamed = { ...recording, name };
+  await withStore(STORES.library, 'readwrite', store => store.put(renamed));
+  return renamed;
+};
+
+export const deleteLibraryRecording = async (recording: LibraryRecording) => {
+  const directory = await getRecordingsDirectory();
+  await directory.removeEntry(recording.fileName).catch(() => undefined);
+  await withStore(STORES.library, 'readwrite', store => store.delete(recording.id));
+  console.log('🗑️ Deleted from the recordings library:', recording.name);
+};
+
+// "video/webm;codecs=vp9,opus" → "WEBM · VP9, OPUS"
+export const describeMimeType = (mimeType: string) => {
+  const [type, params] = mimeType.split(';');
+  const container = (type.split('/')[1] || 'video').toUpperCase();
+  const codecs = params?.match(/codecs=([^;]+)/)?.[1];
+  return codecs ? `${container} · ${codecs.split(',').map(codec => codec.trim().split('.')[0].toUpperCase()).join(', ')}` : container;
+};
+
+// Without a muxer the only way to cut a recording is to play the range back into a new
+// MediaRecorder, so this takes as long as the trimmed clip. Audio goes through Web Audio
+// so it's captured without playing out loud. The clip is written like a recording, so the
+// caller gets a journal entry to clear once it's saved.
+export const trimRecording = async (
+  file: File,
+  startSeconds: number,
+  endSeconds: number,
+  fileName: string,
+  onProgress?: (progress: number) => void,
+) => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video') as HTMLVideoElement & { captureStream: () => MediaStream };
+  video.preload = 'auto';
+  video.src = url;
+  const audioContext = new AudioContext();
+  let recorder: MediaRecorder | null = null;
+  let writer: RecordingWriter | null = null;
+
+  try {
+    await resolveVideoDuration(video);
+    video.currentTime = startSeconds;
+    await waitFor(video, 'seeked');
+
+    const audioDestination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(audioDestination);
+    const stream = new MediaStream([
+      ...video.captureStream().getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+
+    const mimeType = MediaRecorder.isTypeSupported(file.type) ? file.type : '';
+    const clipRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+    const clipWriter = createRecordingWriter(fileName, clipRecorder.mimeType || file.type);
+    recorder = clipRecorder;
+    writer = clipWriter;
+    clipRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) clipWriter.write(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { clipRecorder.onstop = () => resolve(); });
+
+    const length = endSeconds - startSeconds;
+    video.ontimeupdate = () => {
+      onProgress?.(Math.min(1, (video.currentTime - startSeconds) / length));
+      if (video.currentTime >= endSeconds && clipRecorder.state === 'recording') clipRecorder.stop();
+    };
+    video.onended = () => {
+      if (clipRecorder.state === 'recording') clipRecorder.stop();
+    };
+
+    await audioContext.resume();
+    clipRecorder.start(1000);
+    await video.play();
+    await stopped;
+    video.pause();
+    onProgress?.(1);
+
+    return { id: clipWriter.id, file: await clipWriter.finish() };
+  } catch (error) {
+    await writer?.discard().catch(discardError => console.warn('⚠️ Could not remove the unfinished trim:', discardError));
+    throw error;
+  } finally {
+    // A failed play() would otherwise leave the recorder running on a dead stream
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    audioContext.close();
+  }
+};
@@ -0,0 +1,261 @@
+import { downloadFile } from './download';
+import { STORES, withStore } from './database';
+
+// In-progress recordings live in the Origin Private File System and are listed in an
+// IndexedDB journal until they've been saved, so a crash leaves something to recover.
+const FOLDER_KEY = 'recordings-folder';
+const RECORDINGS_DIRECTORY = 'kawaii-recordings';
+
+export interface RecordingJournalEntry {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  startedAt: number;
+  // Split recordings share a session id and number their parts from 1
+  sessionId?: string;
+  part?: number;
+}
+
+export interface UnfinishedRecording extends RecordingJournalEntry {
+  size: number;
+}
+
+export interface RecordingWriter {
+  id: string;
+  fileName: string;
+  write: (chunk: Blob) => void;
+  // Flushes everything written so far and returns the finished file
+  finish: () => Promise<File>;
+  // Throws away the file and its journal entry, for output that turned out not to be wanted
+  discard: () => Promise<void>;
+}
+
+// The File System Access permission API isn't in TypeScript's DOM lib yet
+interface PermissionedDirectoryHandle extends FileSystemDirectoryHandle {
+  queryPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+export const getRecordingsDirectory = async () => {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(RECORDINGS_DIRECTORY, { create: true });
+};
+
+const readJournal = () => withStore<RecordingJournalEntry[]>(STORES.journal, 'readonly', store => store.getAll());
+
+const removeJournalEntry = (id: string) => withStore(STORES.journal, 'readwrite', store => store.delete(id));
+
+export const isDiskRecordingSupported = () =>
+  typeof Worker !== 'undefined' && typeof indexedDB !== 'undefined' && !!navigator.storage?.getDirectory;
+
+// Talks to the writer worker with numbered request/response messages
+const createWorkerClient = () => {
+  const worker = new Worker(new URL('./workers/recordingWriter.worker.js', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (size: number) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = ({ data }) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if (data.ok) request.resolve(data.size);
+    else request.reject(new Error(data.error));
+  };
+
+  const call = (message: Record<string, unknown>, transfer: Transferable[] = []) =>
+    new Promise<number>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...message, id }, transfer);
+    });
+
+  return { call, terminate: () => worker.terminate() };
+};
+
+// Chunks go straight to disk as they arrive. If OPFS can't be opened the writer
+// quietly keeps them in memory instead, which is how recording always used to work.
+// If a write fails partway (usually a full disk), the rest of the file goes to memory
+// and `onDiskError` is told, since the user should know their memory is filling up.
+export const createRecordingWriter = (
+  fileName: string,
+  mimeType: string,
+  session: Pick<RecordingJournalEntry, 'sessionId' | 'part'> = {},
+  onDiskError?: (error: unknown) => void,
+): RecordingWriter => {
+  const id = crypto.randomUUID();
+  const memoryChunks: Blob[] = [];
+  let client: ReturnType<typeof createWorkerClient> | null = null;
+  // Whether the start of the file is on disk, ahead of anything in memoryChunks
+  let hasDiskPart = false;
+
+  const open = async () => {
+    if (!isDiskRecordingSupported()) throw new Error('OPFS is not available');
+    client = createWorkerClient();
+    await client.call({ type: 'open', directory: RECORDINGS_DIRECTORY, fileName });
+    const entry: RecordingJournalEntry = { id, fileName, mimeType, startedAt: Date.now(), ...session };
+    await withStore(STORES.journal, 'readwrite', store => store.put(entry));
+    hasDiskPart = true;
+    console.log('💾 Writing recording to disk:', fileName);
+  };
+
+  // Closing flushes what the worker already wrote, so the disk part stays readable
+  const closeClient = async () => {
+    if (!client) return;
+    const closing = client;
+    client = null;
+    await closing.call({ type: 'close' }).catch(error => console.warn('⚠️ Could not close the recording file:', error));
+    closing.terminate();
+  };
+
+  let queue: Promise<unknown> = open().catch(error => {
+    console.warn('⚠️ Could not write the recording to disk, keeping it in memory:', error);
+    client?.terminate();
+    client = null;
+  });
+
+  const write = (chunk: Blob) => {
+    queue = queue.then(async () => {
+      if (!client) {
+        memoryChunks.push(chunk);
+        return;
+      }
+      try {
+        // Transferring empties the buffer, so the chunk itself is what's kept on failure
+        const buffer = await chunk.arrayBuffer();
+        await client.call({ type: 'write', chunk: buffer }, [buffer]);
+      } catch (error) {
+        console.error('❌ Failed to write recording chunk, keeping the rest in memory:', error);
+        memoryChunks.push(chunk);
+        await closeClient();
+        onDiskError?.(error);
+      }
+    });
+  };
+
+  const finish = async () => {
+    await queue;
+    await closeClient();
+    if (!hasDiskPart) return new File(memoryChunks, fileName, { type: mimeType });
+
+    const directory = await getRecordingsDirectory();
+    const file = await (await directory.getFileHandle(fileName)).getFile();
+    return new File([file, ...memoryChunks], fileName, { type: mimeType });
+  };
+
+  const discard = async () => {
+    await queue;
+    await closeClient();
+    memoryChunks.length = 0;
+    if (hasDiskPart) await discardUnfinishedRecording({ id, fileName });
+  };
+
+  return { id, fileName, write, finish, discard };
+};
+
+export const loadRecordingFolder = async () => {
+  if (!isDiskRecordingSupported()) return null;
+  try {
+    return (await withStore<FileSystemDirectoryHandle | undefined>(STORES.handles, 'readonly', store => store.get(FOLDER_KEY))) ?? null;
+  } catch (error) {
+    console.warn('⚠️ Could not load the recordings folder:', error);
+    return null;
+  }
+};
+
+export const isFolderPickerSupported = () => 'showDirectoryPicker' in window;
+
+// Directory handles can't go in localStorage, but IndexedDB stores them as-is
+export const chooseRecordingFolder = async () => {
+  const folder = await (window as unknown as { showDirectoryPicker: DirectoryPicker })
+    .showDirectoryPicker({ id: 'kawaii-recordings', mode: 'readwrite' });
+  await withStore(STORES.handles, 'readwrite', store => store.put(folder, FOLDER_KEY));
+  return folder;
+};
+
+export const forgetRecordingFolder = () => withStore(STORES.handles, 'readwrite', store => store.delete(FOLDER_KEY));
+
+// Asking needs a user gesture, so call this from a click before the recording starts
+export const ensureFolderPermission = async (folder: FileSystemDirectoryHandle, request = false) => {
+  const handle = folder as PermissionedDirectoryHandle;
+  if (!handle.queryPermission) return true;
+  if ((await handle.queryPermission({ mode: 'readwrite' })) === 'granted') return true;
+  if (!request || !handle.requestPermission) return false;
+  return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted';
+};
+
+// Saves to the chosen folder when we're allowed to, otherwise falls back to a download
+export const saveRecordingFile = async (file: File, folder: FileSystemDirectoryHandle | null) => {
+  if (folder && await ensureFolderPermission(folder)) {
+    try {
+      const handle = await folder.getFileHandle(file.name, { create: true });
+      await file.stream().pipeTo(await handle.createWritable());
+      console.log(`📁 Saved ${file.name} to ${folder.name}`);
+      return 'folder' as const;
+    } catch (error) {
+      console.warn('⚠️ Could not save to the recordings folder, downloading instead:', error);
+    }
+  }
+  downloadFile(file, file.name);
+  return 'download' as const;
+};
+
+// A saved recording leaves the journal. Pass its file name once nothing reads from it any more
+// (the library has its own copy) to free the space now; otherwise it stays if the library kept
+// it as it was, and is cleaned up on the next launch, since a download may still be reading it.
+export const markRecordingSaved = async (id: string, fileName?: string) => {
+  await removeJournalEntry(id);
+  if (!fileName) return;
+  const directory = await getRecordingsDirectory();
+  await directory.removeEntry(fileName).catch(error => console.warn('⚠️ Could not remove', fileName, error));
+};
+
+export const listUnfinishedRecordings = async (): Promise<UnfinishedRecording[]> => {
+  if (!isDiskRecordingSupported()) return [];
+
+  const directory = await getRecordingsDirectory();
+  const recordings: UnfinishedRecording[] = [];
+  for (const entry of await readJournal()) {
+    try {
+      const file = await (await directory.getFileHandle(entry.fileName)).getFile();
+      if (file.size > 0) {
+        recordings.push({ ...entry, size: file.size });
+        continue;
+      }
+    } catch {
+      // The file never got created, so there's nothing to recover
+    }
+    await removeJournalEntry(entry.id);
+  }
+  return recordings;
+};
+
+export const readUnfinishedRecording = async (recording: RecordingJournalEntry) => {
+  const directory = await getRecordingsDirectory();
+  const file = await (await directory.getFileHandle(recording.fileName)).getFile();
+  return new File([file], recording.fileName, { type: recording.mimeType });
+};
+
+export const discardUnfinishedRecording = async (recording: Pick<RecordingJournalEntry, 'id' | 'fileName'>) => {
+  const directory = await getRecordingsDirectory();
+  await directory.removeEntry(recording.fileName).catch(() => undefined);
+  await removeJournalEntry(recording.id);
+};
+
+// Removes OPFS files that were already saved, keeping anything in the journal or the library
+export const cleanupSavedRecordings = async () => {
+  if (!isDiskRecordingSupported()) return;
+
+  const directory = await getRecordingsDirectory();
+  const library = await withStore<{ fileName: string }[]>(STORES.library, 'readonly', store => store.getAll());
+  const kept = new Set([...(await readJournal()), ...library].map(entry => entry.fileName));
+  const names: string[] = [];
+  for await (const name of directory.keys()) {
+    names.push(name);
+  }
+  for (const name of names.filter(name => !kept.has(name))) {
+    // Files still held open by a recording in another tab can't be removed, which is fine
+    await directory.removeEntry(name).catch(() => undefined);
+  }
+};
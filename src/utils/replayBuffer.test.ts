@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createReplayBuffer } from './replayBuffer';
+
+// Stands in for the browser recorder: every second it hands over a chunk naming when it was recorded
+class FakeRecorder {
+  static failNext = false;
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  private listeners: (() => void)[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor() {
+    if (FakeRecorder.failNext) throw new Error('NotSupportedError');
+  }
+
+  start() {
+    this.state = 'recording';
+    this.timer = setInterval(() => this.emit(), 1000);
+  }
+
+  stop() {
+    this.state = 'inactive';
+    clearInterval(this.timer);
+  }
+
+  requestData() {
+    this.emit();
+  }
+
+  addEventListener(_type: string, listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  private emit() {
+    this.ondataavailable?.({ data: new Blob([`${Date.now()},`]) });
+    this.listeners.splice(0).forEach(listener => listener());
+  }
+}
+
+// The fake recorder never looks at the stream
+const STREAM = {} as MediaStream;
+const OPTIONS = { seconds: 30, maxBytes: 1024 * 1024, mimeType: 'video/webm', recorderOptions: {} };
+
+const savedSeconds = async (blob: Blob | null) => {
+  const times = (await blob!.text()).split(',').filter(Boolean).map(Number);
+  return (times[times.length - 1] - times[0]) / 1000;
+};
+
+describe('createReplayBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeRecorder.failNext = false;
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('saves about the last `seconds`, however long it has been running', async () => {
+    const buffer = createReplayBuffer(STREAM, OPTIONS);
+
+    let elapsed = 0;
+    for (const until of [44, 59, 75, 300]) {
+      await vi.advanceTimersByTimeAsync((until - elapsed) * 1000 + 500);
+      elapsed = until + 0.5;
+      const seconds = await savedSeconds(await buffer.save());
+      expect(seconds).toBeGreaterThanOrEqual(OPTIONS.seconds * 0.75 - 1);
+      expect(seconds).toBeLessThanOrEqual(OPTIONS.seconds * 1.25 + 1);
+    }
+    buffer.stop();
+  });
+
+  it('keeps the newest recording under the memory cap', async () => {
+    const buffer = createReplayBuffer(STREAM, { ...OPTIONS, maxBytes: 200 });
+    await vi.advanceTimersByTimeAsync(120 * 1000);
+
+    const blob = await buffer.save();
+    expect(blob!.size).toBeLessThanOrEqual(200);
+    buffer.stop();
+  });
+
+  it('stops and reports when a new recorder cannot start', async () => {
+    const onError = vi.fn();
+    const buffer = createReplayBuffer(STREAM, { ...OPTIONS, onError });
+
+    FakeRecorder.failNext = true;
+    await vi.advanceTimersByTimeAsync(OPTIONS.seconds * 1000);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(buffer.getBufferedMs()).toBe(0);
+    expect(await buffer.save()).toBeNull();
+  });
+});
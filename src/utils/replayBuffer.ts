@@ -0,0 +1,126 @@
+// Keeps the last few seconds of output in memory so a moment can be saved after it happened.
+// MediaRecorder chunks can't be decoded without the ones before them, so instead of trimming
+// a single recording we run overlapping recorders and start a new one every `seconds / 2`.
+// Saving picks the recorder that started closest to `seconds` ago, so a replay is within
+// a quarter of `seconds` of the length asked for.
+
+export interface ReplayBufferOptions {
+  seconds: number;
+  maxBytes: number;
+  mimeType: string;
+  recorderOptions: MediaRecorderOptions;
+  // Called when a new recorder can't be started; the buffer has already stopped itself
+  onError?: (error: unknown) => void;
+}
+
+// Three recorders started `seconds / 2` apart always include one that began close to `seconds` ago
+const MAX_RECORDERS = 3;
+
+export interface ReplayBuffer {
+  // Resolves with the last `seconds` or so, or null when nothing is buffered yet
+  save: () => Promise<Blob | null>;
+  getBufferedMs: () => number;
+  stop: () => void;
+}
+
+interface BufferedRecorder {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  bytes: number;
+  startedAt: number;
+}
+
+export const createReplayBuffer = (stream: MediaStream, options: ReplayBufferOptions): ReplayBuffer => {
+  const recorders: BufferedRecorder[] = [];
+
+  const totalBytes = () => recorders.reduce((sum, entry) => sum + entry.bytes, 0);
+
+  const drop = (entry: BufferedRecorder) => {
+    const index = recorders.indexOf(entry);
+    if (index !== -1) recorders.splice(index, 1);
+    if (entry.recorder.state !== 'inactive') entry.recorder.stop();
+  };
+
+  const startRecorder = () => {
+    const entry: BufferedRecorder = {
+      recorder: new MediaRecorder(stream, options.recorderOptions),
+      chunks: [],
+      bytes: 0,
+      startedAt: Date.now(),
+    };
+
+    entry.recorder.ondataavailable = (event) => {
+      if (event.data.size === 0 || !recorders.includes(entry)) return;
+      entry.chunks.push(event.data);
+      entry.bytes += event.data.size;
+
+      if (totalBytes() <= options.maxBytes) return;
+
+      // Over the memory cap the older recorders go first, which shortens the replay
+      console.warn('⚠️ Replay buffer hit its memory cap, dropping the oldest part');
+      while (recorders.length > 1 && totalBytes() > options.maxBytes) drop(recorders[0]);
+
+      // A single recorder over the cap can't be trimmed, so it starts over
+      if (totalBytes() > options.maxBytes) {
+        drop(recorders[0]);
+        rotate();
+      }
+    };
+
+    entry.recorder.start(1000);
+    recorders.push(entry);
+  };
+
+  const stop = () => {
+    clearInterval(interval);
+    [...recorders].forEach(drop);
+    console.log('🔁 Replay buffer stopped');
+  };
+
+  const rotate = () => {
+    try {
+      startRecorder();
+    } catch (error) {
+      console.error('Replay buffer recorder error:', error);
+      stop();
+      options.onError?.(error);
+      return;
+    }
+    while (recorders.length > MAX_RECORDERS) drop(recorders[0]);
+  };
+
+  // The first recorder is started outside rotate so a bad format throws straight to the caller
+  startRecorder();
+  const interval = setInterval(rotate, (options.seconds * 1000) / 2);
+  console.log(`🔁 Replay buffer started (${options.seconds}s, ${Math.round(options.maxBytes / (1024 * 1024))} MB cap)`);
+
+  const pickRecorder = () => {
+    const target = Date.now() - options.seconds * 1000;
+    return recorders.reduce<BufferedRecorder | undefined>((best, entry) => (
+      !best || Math.abs(entry.startedAt - target) < Math.abs(best.startedAt - target) ? entry : best
+    ), undefined);
+  };
+
+  const save = async () => {
+    const entry = pickRecorder();
+    if (!entry) return null;
+
+    // Flush the chunk in progress so the replay runs right up to now
+    if (entry.recorder.state === 'recording') {
+      await new Promise<void>(resolve => {
+        entry.recorder.addEventListener('dataavailable', () => resolve(), { once: true });
+        entry.recorder.requestData();
+      });
+    }
+    return entry.chunks.length > 0 ? new Blob(entry.chunks, { type: options.mimeType }) : null;
+  };
+
+  return {
+    save,
+    getBufferedMs: () => {
+      const entry = pickRecorder();
+      return entry ? Date.now() - entry.startedAt : 0;
+    },
+    stop,
+  };
+};
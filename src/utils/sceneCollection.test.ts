@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { SCENE_COLLECTION_FORMAT, SCENE_COLLECTION_VERSION, parseSceneCollection } from './sceneCollection';
+
+describe('parseSceneCollection', () => {
+  it('rejects JSON that is neither a collection nor a settings dump', () => {
+    expect(() => parseSceneCollection('{}')).toThrow('Unrecognised file');
+    expect(() => parseSceneCollection('{"name": "package", "version": "1.0.0"}')).toThrow('Unrecognised file');
+    expect(() => parseSceneCollection('{"format": "something-else", "kawaii-mic-volume": "75"}')).toThrow('Unrecognised file');
+    expect(() => parseSceneCollection('[1, 2]')).toThrow('not a scene collection');
+    expect(() => parseSceneCollection('nope')).toThrow('not valid JSON');
+  });
+
+  it('upgrades a bare settings dump to the current version', () => {
+    const collection = parseSceneCollection(JSON.stringify({
+      'kawaii-mic-volume': '40',
+      'kawaii-show-watermark': 'true',
+    }));
+
+    expect(collection.format).toBe(SCENE_COLLECTION_FORMAT);
+    expect(collection.version).toBe(SCENE_COLLECTION_VERSION);
+    expect(collection.audio.microphoneVolume).toBe(40);
+    expect(collection.scenes.showWatermark).toBe(true);
+    expect(collection.scenes.list.length).toBeGreaterThan(0);
+  });
+
+  it('fills in push-to-talk, mic inputs and screenshot settings for version 3 files', () => {
+    const current = parseSceneCollection(JSON.stringify({ 'kawaii-mic-volume': '40' }));
+    const { pushToTalk, microphoneConstraints, inputs, ...audio } = current.audio;
+    const { screenshots, ...rest } = current;
+    const collection = parseSceneCollection(JSON.stringify({ ...rest, version: 3, audio }));
+
+    expect(collection.version).toBe(SCENE_COLLECTION_VERSION);
+    expect(collection.audio.pushToTalk).toEqual(pushToTalk);
+    expect(collection.audio.microphoneConstraints).toEqual(microphoneConstraints);
+    expect(collection.audio.inputs).toEqual(inputs);
+    expect(collection.screenshots).toEqual(screenshots);
+    expect(collection.audio.microphoneVolume).toBe(40);
+  });
+
+  it('rejects a version 4 file with broken audio inputs', () => {
+    const collection = parseSceneCollection(JSON.stringify({ 'kawaii-mic-volume': '40' }));
+    const broken = { ...collection, audio: { ...collection.audio, inputs: [{ id: 'mic-2' }] } };
+    expect(() => parseSceneCollection(JSON.stringify(broken))).toThrow('audio.inputs');
+  });
+});
@@ -0,0 +1,403 @@
+import { Scene, SceneTransition, SOURCE_KIND_INFO, createDefaultScenes } from './scenes';
+import { LayerRect, clampRect } from './compositor';
+import { VideoFilterId, VIDEO_FILTERS } from './videoFilters';
+import { MixerChannelSettings } from './audioMixer';
+import { ChannelFilterSettings, LimiterSettings, DEFAULT_LIMITER_SETTINGS } from './audioFilters';
+import {
+  OutputSettings,
+  CONTAINER_INFO,
+  VIDEO_CODEC_INFO,
+  getDefaultOutputSettings,
+  sanitizeOutputSettings,
+} from './outputSettings';
+import { DEFAULT_HOTKEYS, HotkeyBindings, sanitizeHotkeys } from './hotkeys';
+import { DEFAULT_PUSH_TO_TALK_SETTINGS, PushToTalkSettings, sanitizePushToTalkSettings } from './pushToTalk';
+import {
+  AudioInputConfig,
+  AudioInputConstraints,
+  DEFAULT_AUDIO_INPUT_CONSTRAINTS,
+  sanitizeAudioInputConstraints,
+  sanitizeAudioInputs,
+} from './audioInputs';
+import { DEFAULT_SCREENSHOT_SETTINGS, ScreenshotSettings, sanitizeScreenshotSettings } from './screenshots';
+
+// A scene collection is the whole studio setup as one shareable JSON document.
+// Every hook already persists its settings to localStorage, so export reads those keys and import writes them back.
+// Left out on purpose, since they only make sense on one machine: which mic and camera are selected,
+// per-camera resolution/mirror settings (keyed by device id), the recordings folder and the stream key.
+// Extra audio inputs are included, but their device ids fall back to the default mic elsewhere.
+
+export const SCENE_COLLECTION_FORMAT = 'kawaii-studio-scene-collection';
+export const SCENE_COLLECTION_VERSION = 4;
+
+export interface SceneCollection {
+  format: typeof SCENE_COLLECTION_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  scenes: {
+    list: Scene[];
+    activeSceneId: string;
+    transition: SceneTransition;
+    showWatermark: boolean;
+  };
+  videoFilters: VideoFilterId[];
+  audio: {
+    microphoneVolume: number;
+    screenAudioVolume: number;
+    masterDb: number;
+    limiter: LimiterSettings;
+    channels: Record<string, Partial<MixerChannelSettings>>;
+    filters: Record<string, ChannelFilterSettings>;
+    pushToTalk: PushToTalkSettings;
+    // Processing for the main microphone
+    microphoneConstraints: AudioInputConstraints;
+    inputs: AudioInputConfig[];
+  };
+  // Stream keys are secrets, so only the endpoint is shared
+  output: {
+    whipEndpoint: string;
+    recording: OutputSettings;
+  };
+  // Keyed by action id; scene shortcuts use the scene ids above
+  hotkeys: HotkeyBindings;
+  screenshots: ScreenshotSettings;
+}
+
+type CollectionDocument = Record<string, unknown>;
+
+const STORAGE_KEYS = {
+  scenes: 'kawaii-scenes',
+  transition: 'kawaii-scene-transition',
+  showWatermark: 'kawaii-show-watermark',
+  videoFilters: 'kawaii-camera-filters',
+  microphoneVolume: 'kawaii-mic-volume',
+  screenAudioVolume: 'kawaii-screen-volume',
+  masterDb: 'kawaii-mixer-master',
+  limiter: 'kawaii-mixer-limiter',
+  channels: 'kawaii-mixer-channels',
+  filters: 'kawaii-mixer-filters',
+  whipEndpoint: 'kawaii-whip-endpoint',
+  outputSettings: 'kawaii-output-settings',
+  hotkeys: 'kawaii-hotkeys',
+  pushToTalk: 'kawaii-push-to-talk',
+  microphoneConstraints: 'kawaii-mic-constraints',
+  audioInputs: 'kawaii-audio-inputs',
+  screenshots: 'kawaii-screenshot-settings',
+} as const;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const readNumber = (key: string, fallback: number) => {
+  const value = parseFloat(localStorage.getItem(key) || '');
+  return isNaN(value) ? fallback : value;
+};
+
+export const exportSceneCollection = (name = 'Kawaii Studio Setup'): SceneCollection => {
+  const savedScenes = readJson<{ scenes: Scene[]; activeSceneId: string } | null>(STORAGE_KEYS.scenes, null);
+
+  return {
+    format: SCENE_COLLECTION_FORMAT,
+    version: SCENE_COLLECTION_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    scenes: {
+      list: savedScenes?.scenes ?? [],
+      activeSceneId: savedScenes?.activeSceneId ?? '',
+      transition: readJson(STORAGE_KEYS.transition, { kind: 'fade', durationMs: 500 }),
+      showWatermark: localStorage.getItem(STORAGE_KEYS.showWatermark) === 'true',
+    },
+    videoFilters: readJson(STORAGE_KEYS.videoFilters, []),
+    audio: {
+      microphoneVolume: readNumber(STORAGE_KEYS.microphoneVolume, 75),
+      screenAudioVolume: readNumber(STORAGE_KEYS.screenAudioVolume, 80),
+      masterDb: readNumber(STORAGE_KEYS.masterDb, 0),
+      limiter: { ...DEFAULT_LIMITER_SETTINGS, ...readJson(STORAGE_KEYS.limiter, {}) },
+      channels: readJson(STORAGE_KEYS.channels, {}),
+      filters: readJson(STORAGE_KEYS.filters, {}),
+      pushToTalk: sanitizePushToTalkSettings(readJson(STORAGE_KEYS.pushToTalk, null)),
+      microphoneConstraints: sanitizeAudioInputConstraints(readJson(STORAGE_KEYS.microphoneConstraints, null)),
+      inputs: sanitizeAudioInputs(readJson(STORAGE_KEYS.audioInputs, [])),
+    },
+    output: {
+      whipEndpoint: localStorage.getItem(STORAGE_KEYS.whipEndpoint) || '',
+      recording: sanitizeOutputSettings(readJson(STORAGE_KEYS.outputSettings, null)),
+    },
+    hotkeys: { ...DEFAULT_HOTKEYS, ...sanitizeHotkeys(readJson(STORAGE_KEYS.hotkeys, null)) },
+    screenshots: sanitizeScreenshotSettings(readJson(STORAGE_KEYS.screenshots, null)),
+  };
+};
+
+export const applySceneCollection = (collection: SceneCollection) => {
+  const { scenes, audio, output } = collection;
+  localStorage.setItem(STORAGE_KEYS.scenes, JSON.stringify({ scenes: scenes.list, activeSceneId: scenes.activeSceneId }));
+  localStorage.setItem(STORAGE_KEYS.transition, JSON.stringify(scenes.transition));
+  localStorage.setItem(STORAGE_KEYS.showWatermark, scenes.showWatermark.toString());
+  localStorage.setItem(STORAGE_KEYS.videoFilters, JSON.stringify(collection.videoFilters));
+  localStorage.setItem(STORAGE_KEYS.microphoneVolume, audio.microphoneVolume.toString());
+  localStorage.setItem(STORAGE_KEYS.screenAudioVolume, audio.screenAudioVolume.toString());
+  localStorage.setItem(STORAGE_KEYS.masterDb, audio.masterDb.toString());
+  localStorage.setItem(STORAGE_KEYS.limiter, JSON.stringify(audio.limiter));
+  localStorage.setItem(STORAGE_KEYS.channels, JSON.stringify(audio.channels));
+  localStorage.setItem(STORAGE_KEYS.filters, JSON.stringify(audio.filters));
+  localStorage.setItem(STORAGE_KEYS.pushToTalk, JSON.stringify(sanitizePushToTalkSettings(audio.pushToTalk)));
+  localStorage.setItem(STORAGE_KEYS.microphoneConstraints, JSON.stringify(sanitizeAudioInputConstraints(audio.microphoneConstraints)));
+  localStorage.setItem(STORAGE_KEYS.audioInputs, JSON.stringify(sanitizeAudioInputs(audio.inputs)));
+  localStorage.setItem(STORAGE_KEYS.whipEndpoint, output.whipEndpoint);
+  localStorage.setItem(STORAGE_KEYS.outputSettings, JSON.stringify(sanitizeOutputSettings(output.recording)));
+  localStorage.setItem(STORAGE_KEYS.hotkeys, JSON.stringify(sanitizeHotkeys(collection.hotkeys)));
+  localStorage.setItem(STORAGE_KEYS.screenshots, JSON.stringify(sanitizeScreenshotSettings(collection.screenshots)));
+  console.log(`📦 Applied scene collection "${collection.name}" (v${collection.version})`);
+};
+
+// Keys only this app writes; a bare dump needs at least one of them to count as a v0 collection
+const LEGACY_KEYS: string[] = [...Object.values(STORAGE_KEYS), 'kawaii-camera-layout'];
+
+const isLegacyDump = (document: CollectionDocument) =>
+  !('format' in document) && Object.keys(document).some(key => LEGACY_KEYS.includes(key));
+
+// Each entry upgrades a document from version N to N + 1
+const MIGRATIONS: Record<number, (document: CollectionDocument) => CollectionDocument> = {
+  // Version 0 is a bare localStorage dump ({ "kawaii-mic-volume": "75", ... }), which was
+  // the only way to copy a setup before collections existed
+  0: (legacy) => {
+    const read = (key: string) => (typeof legacy[key] === 'string' ? legacy[key] as string : null);
+    const parse = <T>(key: string, fallback: T): T => {
+      try {
+        const value = read(key);
+        return value ? JSON.parse(value) : fallback;
+      } catch {
+        return fallback;
+      }
+    };
+    const number = (key: string, fallback: number) => {
+      const value = parseFloat(read(key) || '');
+      return isNaN(value) ? fallback : value;
+    };
+    const savedScenes = parse<{ scenes?: Scene[]; activeSceneId?: string }>(STORAGE_KEYS.scenes, {});
+    const cameraLayout = parse<unknown>('kawaii-camera-layout', null);
+    const list = savedScenes.scenes?.length
+      ? savedScenes.scenes
+      : createDefaultScenes(isRect(cameraLayout) ? clampRect(cameraLayout as LayerRect) : undefined);
+
+    return {
+      format: SCENE_COLLECTION_FORMAT,
+      version: 1,
+      name: 'Imported Setup',
+      exportedAt: new Date().toISOString(),
+      scenes: {
+        list,
+        activeSceneId: savedScenes.activeSceneId ?? list[0].id,
+        transition: parse(STORAGE_KEYS.transition, { kind: 'fade', durationMs: 500 }),
+        showWatermark: read(STORAGE_KEYS.showWatermark) === 'true',
+      },
+      videoFilters: parse(STORAGE_KEYS.videoFilters, []),
+      audio: {
+        microphoneVolume: number(STORAGE_KEYS.microphoneVolume, 75),
+        screenAudioVolume: number(STORAGE_KEYS.screenAudioVolume, 80),
+        masterDb: number(STORAGE_KEYS.masterDb, 0),
+        limiter: { ...DEFAULT_LIMITER_SETTINGS, ...parse(STORAGE_KEYS.limiter, {}) },
+        channels: parse(STORAGE_KEYS.channels, {}),
+        filters: parse(STORAGE_KEYS.filters, {}),
+      },
+      output: {
+        whipEndpoint: read(STORAGE_KEYS.whipEndpoint) || '',
+      },
+    };
+  },
+
+  // Version 2 added recording format, bitrate and canvas settings
+  1: (document) => ({
+    ...document,
+    version: 2,
+    output: { ...(document.output as CollectionDocument), recording: getDefaultOutputSettings() },
+  }),
+
+  // Version 3 added keyboard shortcuts
+  2: (document) => ({
+    ...document,
+    version: 3,
+    hotkeys: { ...DEFAULT_HOTKEYS },
+  }),
+
+  // Version 4 added push-to-talk, mic processing, extra audio inputs and screenshot settings
+  3: (document) => ({
+    ...document,
+    version: 4,
+    audio: {
+      ...(document.audio as CollectionDocument),
+      pushToTalk: { ...DEFAULT_PUSH_TO_TALK_SETTINGS },
+      microphoneConstraints: { ...DEFAULT_AUDIO_INPUT_CONSTRAINTS },
+      inputs: [],
+    },
+    screenshots: { ...DEFAULT_SCREENSHOT_SETTINGS },
+  }),
+};
+
+const isObject = (value: unknown): value is CollectionDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isRect = (value: unknown) =>
+  isObject(value) && ['x', 'y', 'width', 'height'].every(key => isNumber(value[key]));
+
+const isChromaKey = (value: unknown) =>
+  isObject(value) && typeof value.enabled === 'boolean' && typeof value.color === 'string' && /^#[0-9a-f]{6}$/i.test(value.color)
+  && ['similarity', 'smoothness', 'spill'].every(key => isNumber(value[key]));
+
+// Returns a list of problems; an empty list means the document matches the current schema
+export const validateSceneCollection = (document: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(document)) return ['Collection must be a JSON object'];
+
+  if (document.format !== SCENE_COLLECTION_FORMAT) errors.push(`format must be "${SCENE_COLLECTION_FORMAT}"`);
+  if (document.version !== SCENE_COLLECTION_VERSION) errors.push(`version must be ${SCENE_COLLECTION_VERSION}`);
+  if (typeof document.name !== 'string') errors.push('name must be a string');
+
+  const scenes = document.scenes;
+  if (!isObject(scenes) || !Array.isArray(scenes.list)) {
+    errors.push('scenes.list must be an array');
+  } else {
+    if (scenes.list.length === 0) errors.push('scenes.list must contain at least one scene');
+    scenes.list.forEach((scene: unknown, index) => {
+      const path = `scenes.list[${index}]`;
+      if (!isObject(scene)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (typeof scene.id !== 'string') errors.push(`${path}.id must be a string`);
+      if (typeof scene.name !== 'string') errors.push(`${path}.name must be a string`);
+      if (!Array.isArray(scene.sources)) {
+        errors.push(`${path}.sources must be an array`);
+        return;
+      }
+      scene.sources.forEach((source: unknown, sourceIndex) => {
+        const sourcePath = `${path}.sources[${sourceIndex}]`;
+        if (!isObject(source)) {
+          errors.push(`${sourcePath} must be an object`);
+          return;
+        }
+        if (typeof source.id !== 'string') errors.push(`${sourcePath}.id must be a string`);
+        if (typeof source.kind !== 'string' || !(source.kind in SOURCE_KIND_INFO)) {
+          errors.push(`${sourcePath}.kind must be one of ${Object.keys(SOURCE_KIND_INFO).join(', ')}`);
+        }
+        if (!isRect(source.rect)) errors.push(`${sourcePath}.rect must have numeric x, y, width and height`);
+        if (!isObject(source.crop) || !['top', 'right', 'bottom', 'left'].every(key => isNumber((source.crop as CollectionDocument)[key]))) {
+          errors.push(`${sourcePath}.crop must have numeric top, right, bottom and left`);
+        }
+        if (typeof source.visible !== 'boolean') errors.push(`${sourcePath}.visible must be a boolean`);
+        if (source.deviceId !== undefined && typeof source.deviceId !== 'string') {
+          errors.push(`${sourcePath}.deviceId must be a string`);
+        }
+        if (source.mediaKey !== undefined && typeof source.mediaKey !== 'string') {
+          errors.push(`${sourcePath}.mediaKey must be a string`);
+        }
+        if (source.chromaKey !== undefined && !isChromaKey(source.chromaKey)) {
+          errors.push(`${sourcePath}.chromaKey must have enabled, a hex color, and numeric similarity, smoothness and spill`);
+        }
+      });
+    });
+    if (!scenes.list.some((scene: unknown) => isObject(scene) && scene.id === scenes.activeSceneId)) {
+      errors.push('scenes.activeSceneId must match one of the scenes');
+    }
+    if (!isObject(scenes.transition) || !['cut', 'fade', 'wipe'].includes(scenes.transition.kind as string) || !isNumber(scenes.transition.durationMs)) {
+      errors.push('scenes.transition must have a kind (cut, fade, wipe) and a numeric durationMs');
+    }
+  }
+
+  if (!Array.isArray(document.videoFilters) || !document.videoFilters.every(id => VIDEO_FILTERS.some(filter => filter.id === id))) {
+    errors.push('videoFilters must be a list of known filter ids');
+  }
+
+  const audio = document.audio;
+  if (!isObject(audio)) {
+    errors.push('audio must be an object');
+  } else {
+    ['microphoneVolume', 'screenAudioVolume', 'masterDb'].forEach(key => {
+      if (!isNumber(audio[key])) errors.push(`audio.${key} must be a number`);
+    });
+    if (!isObject(audio.limiter)) errors.push('audio.limiter must be an object');
+    if (!isObject(audio.channels)) errors.push('audio.channels must be an object');
+    if (!isObject(audio.filters)) errors.push('audio.filters must be an object');
+    if (!isObject(audio.pushToTalk)) errors.push('audio.pushToTalk must be an object');
+    if (!isObject(audio.microphoneConstraints)) errors.push('audio.microphoneConstraints must be an object');
+    if (!Array.isArray(audio.inputs) || !audio.inputs.every(input => isObject(input) && typeof input.id === 'string' && typeof input.deviceId === 'string')) {
+      errors.push('audio.inputs must be a list of inputs with an id and a deviceId');
+    }
+  }
+
+  const output = document.output;
+  if (!isObject(output)) {
+    errors.push('output must be an object');
+  } else {
+    if (typeof output.whipEndpoint !== 'string') errors.push('output.whipEndpoint must be a string');
+    const recording = output.recording;
+    if (!isObject(recording)) {
+      errors.push('output.recording must be an object');
+    } else {
+      if (typeof recording.container !== 'string' || !(recording.container in CONTAINER_INFO)) {
+        errors.push(`output.recording.container must be one of ${Object.keys(CONTAINER_INFO).join(', ')}`);
+      }
+      if (typeof recording.videoCodec !== 'string' || !(recording.videoCodec in VIDEO_CODEC_INFO)) {
+        errors.push(`output.recording.videoCodec must be one of ${Object.keys(VIDEO_CODEC_INFO).join(', ')}`);
+      }
+      ['videoBitrateKbps', 'audioBitrateKbps', 'width', 'height', 'fps'].forEach(key => {
+        if (!isNumber(recording[key])) errors.push(`output.recording.${key} must be a number`);
+      });
+    }
+  }
+
+  const hotkeys = document.hotkeys;
+  if (!isObject(hotkeys) || !Object.values(hotkeys).every(combo => combo === null || typeof combo === 'string')) {
+    errors.push('hotkeys must map action ids to a key combo or null');
+  }
+
+  if (!isObject(document.screenshots)) errors.push('screenshots must be an object');
+
+  return errors;
+};
+
+// Parses, upgrades and validates an exported file; throws with a readable message when it can't be used
+export const parseSceneCollection = (text: string): SceneCollection => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!isObject(document)) {
+    throw new Error('This file is not a scene collection');
+  }
+
+  if (document.format !== SCENE_COLLECTION_FORMAT && !isLegacyDump(document)) {
+    throw new Error('Unrecognised file: this is not a Kawaii Studio scene collection');
+  }
+
+  let version = document.format === SCENE_COLLECTION_FORMAT ? document.version : 0;
+  if (!isNumber(version) || !Number.isInteger(version) || version < 0) {
+    throw new Error('This scene collection has an invalid version');
+  }
+  if (version > SCENE_COLLECTION_VERSION) {
+    throw new Error(`This scene collection was made by a newer version of the studio (v${version})`);
+  }
+
+  while (version < SCENE_COLLECTION_VERSION) {
+    document = MIGRATIONS[version](document as CollectionDocument);
+    console.log(`📦 Migrated scene collection v${version} -> v${version + 1}`);
+    version++;
+  }
+
+  const errors = validateSceneCollection(document);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scene collection: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+  }
+  return document as SceneCollection;
+};
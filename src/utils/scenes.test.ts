@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { createScene, createSource, duplicateScene, mediaKeyOf } from './scenes';
+
+describe('duplicateScene', () => {
+  it('gives every source a new id but keeps media sources on the original file', () => {
+    const media = createSource('media', { mediaName: 'intro.mp4' });
+    const copiedMedia = createSource('media', { mediaKey: 'shared-file' });
+    const text = createSource('text');
+    const copy = duplicateScene(createScene('Main', [media, copiedMedia, text]));
+
+    expect(copy.sources.map(source => source.id)).not.toContain(media.id);
+    expect(mediaKeyOf(copy.sources[0])).toBe(media.id);
+    expect(mediaKeyOf(copy.sources[1])).toBe('shared-file');
+    expect(copy.sources[2].mediaKey).toBeUndefined();
+  });
+});
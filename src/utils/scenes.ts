@@ -0,0 +1,134 @@
+import {
+  LayerCrop,
+  LayerRect,
+  LayerTransition,
+  DEFAULT_CAMERA_RECT,
+  FULL_FRAME_RECT,
+  NO_CROP,
+} from './compositor';
+import { ChromaKeySettings } from './chromaKey';
+
+export type SceneSourceKind = 'screen' | 'camera' | 'image' | 'text' | 'color' | 'media';
+
+export interface SceneSource {
+  id: string;
+  name: string;
+  kind: SceneSourceKind;
+  rect: LayerRect;
+  crop: LayerCrop;
+  visible: boolean;
+  fit: 'contain' | 'cover' | 'stretch';
+  frame: 'none' | 'kawaii';
+  // Kind-specific settings
+  imageUrl?: string;
+  text?: string;
+  textColor?: string;
+  textSize?: number;
+  color?: string;
+  // Media files can't be persisted, so only the name survives a reload
+  mediaName?: string;
+  // Which loaded file a media source plays; copies of a source share it. Unset means the source's own id
+  mediaKey?: string;
+  // Cameras other than the main one; unset means the main camera
+  deviceId?: string;
+  // Green screen keying, camera sources only
+  chromaKey?: ChromaKeySettings;
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  // Drawn in order, so the last source is on top
+  sources: SceneSource[];
+}
+
+export type SceneTransition = LayerTransition;
+
+export const SOURCE_KIND_INFO: Record<SceneSourceKind, { name: string; emoji: string }> = {
+  screen: { name: 'Screen', emoji: '🖥️' },
+  camera: { name: 'Camera', emoji: '📹' },
+  image: { name: 'Image', emoji: '🖼️' },
+  text: { name: 'Text', emoji: '💬' },
+  color: { name: 'Color', emoji: '🎨' },
+  media: { name: 'Media', emoji: '🎞️' },
+};
+
+export const DEFAULT_TRANSITION: SceneTransition = { kind: 'fade', durationMs: 500 };
+
+const createId = () => crypto.randomUUID();
+
+export const createSource = (kind: SceneSourceKind, overrides: Partial<SceneSource> = {}): SceneSource => {
+  const base: SceneSource = {
+    id: createId(),
+    name: SOURCE_KIND_INFO[kind].name,
+    kind,
+    rect: FULL_FRAME_RECT,
+    crop: NO_CROP,
+    visible: true,
+    fit: 'contain',
+    frame: 'none',
+  };
+
+  switch (kind) {
+    case 'camera':
+      return { ...base, rect: DEFAULT_CAMERA_RECT, fit: 'cover', frame: 'kawaii', ...overrides };
+    case 'text':
+      return {
+        ...base,
+        rect: { x: 0.1, y: 0.4, width: 0.8, height: 0.2 },
+        text: 'Hello cuties! 💖',
+        textColor: '#ffffff',
+        textSize: 0.08,
+        ...overrides,
+      };
+    case 'color':
+      return { ...base, color: '#fbd0fc', ...overrides };
+    default:
+      return { ...base, ...overrides };
+  }
+};
+
+export const createScene = (name: string, sources: SceneSource[] = []): Scene => ({
+  id: createId(),
+  name,
+  sources,
+});
+
+// The starter collection mirrors the old fixed layout, using the saved camera position when there is one
+export const createDefaultScenes = (cameraRect: LayerRect = DEFAULT_CAMERA_RECT): Scene[] => [
+  createScene('Main', [
+    createSource('screen'),
+    createSource('camera', { rect: cameraRect }),
+  ]),
+  createScene('Just Chatting', [
+    createSource('color', { name: 'Background', color: '#2d1640' }),
+    createSource('camera', { rect: { x: 0.1, y: 0.08, width: 0.8, height: 0.76 }, fit: 'cover' }),
+    createSource('text', { rect: { x: 0.1, y: 0.86, width: 0.8, height: 0.1 }, text: 'Just chatting 🍵', textSize: 0.05 }),
+  ]),
+  createScene('Starting Soon', [
+    createSource('color', { name: 'Background', color: '#f9a8d4' }),
+    createSource('text', { text: 'Starting soon! 🌸\nGrab a snack ✨', textSize: 0.1 }),
+  ]),
+  createScene('BRB', [
+    createSource('color', { name: 'Background', color: '#c4b5fd' }),
+    createSource('text', { text: 'Be right back! 💤', textSize: 0.1 }),
+  ]),
+];
+
+export const mediaKeyOf = (source: SceneSource) => source.mediaKey ?? source.id;
+
+// Media sources in the copy keep playing the original's file
+export const duplicateScene = (scene: Scene): Scene => ({
+  id: createId(),
+  name: `${scene.name} copy`,
+  sources: scene.sources.map(source => ({
+    ...source,
+    id: createId(),
+    ...(source.kind === 'media' ? { mediaKey: mediaKeyOf(source) } : {}),
+  })),
+});
+
+export const clampCrop = (crop: LayerCrop): LayerCrop => {
+  const clamp = (value: number) => Math.min(0.45, Math.max(0, value));
+  return { top: clamp(crop.top), right: clamp(crop.right), bottom: clamp(crop.bottom), left: clamp(crop.left) };
+};
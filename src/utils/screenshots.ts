@@ -0,0 +1,122 @@
+import { STORES, withStore } from './database';
+import { fileTimestamp } from './download';
+
+// Still images of the program output or a single source, kept in a gallery in IndexedDB
+
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ScreenshotSettings {
+  format: ScreenshotFormat;
+  // 1 - 100, ignored for PNG
+  quality: number;
+  copyToClipboard: boolean;
+  // Also save each shot to the recordings folder (or download it) instead of only the gallery
+  autoSave: boolean;
+}
+
+export interface Screenshot {
+  id: string;
+  fileName: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  sourceName: string;
+  createdAt: number;
+}
+
+export const SCREENSHOT_FORMAT_INFO: Record<ScreenshotFormat, { name: string; mimeType: string; extension: string; hasQuality: boolean }> = {
+  png: { name: 'PNG', mimeType: 'image/png', extension: 'png', hasQuality: false },
+  jpeg: { name: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', hasQuality: true },
+  webp: { name: 'WebP', mimeType: 'image/webp', extension: 'webp', hasQuality: true },
+};
+
+export const DEFAULT_SCREENSHOT_SETTINGS: ScreenshotSettings = {
+  format: 'png',
+  quality: 92,
+  copyToClipboard: false,
+  autoSave: true,
+};
+
+export const sanitizeScreenshotSettings = (saved: Partial<ScreenshotSettings> | null | undefined): ScreenshotSettings => {
+  const settings = { ...DEFAULT_SCREENSHOT_SETTINGS, ...saved };
+  return {
+    format: settings.format in SCREENSHOT_FORMAT_INFO ? settings.format : DEFAULT_SCREENSHOT_SETTINGS.format,
+    quality: typeof settings.quality === 'number' && isFinite(settings.quality)
+      ? Math.min(100, Math.max(1, Math.round(settings.quality)))
+      : DEFAULT_SCREENSHOT_SETTINGS.quality,
+    copyToClipboard: !!settings.copyToClipboard,
+    autoSave: settings.autoSave !== false,
+  };
+};
+
+// The size a source really has, rather than how big it's drawn on the page
+const getSourceSize = (source: CanvasImageSource) => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  if (source instanceof VideoFrame) return { width: source.displayWidth, height: source.displayHeight };
+  if (source instanceof SVGImageElement) return { width: source.width.baseVal.value, height: source.height.baseVal.value };
+  return { width: source.width, height: source.height };
+};
+
+// Copies one frame at full resolution, so later frames can't change what gets encoded
+export const captureFrame = (source: CanvasImageSource) => {
+  const { width, height } = getSourceSize(source);
+  if (!width || !height) throw new Error('This source has no picture yet');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a canvas');
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${mimeType}`))), mimeType, quality);
+  });
+
+// Browsers that can't encode WebP hand back a PNG, so the file name follows what we actually got
+export const encodeScreenshot = async (canvas: HTMLCanvasElement, settings: ScreenshotSettings) => {
+  const info = SCREENSHOT_FORMAT_INFO[settings.format];
+  const blob = await canvasToBlob(canvas, info.mimeType, info.hasQuality ? settings.quality / 100 : undefined);
+  const actual = Object.values(SCREENSHOT_FORMAT_INFO).find(format => format.mimeType === blob.type) ?? info;
+  return { blob, extension: actual.extension };
+};
+
+export const isClipboardSupported = () => typeof ClipboardItem !== 'undefined' && !!navigator.clipboard?.write;
+
+// The clipboard only reliably takes PNG, whatever format the file is saved in
+export const copyImageToClipboard = async (image: HTMLCanvasElement | Blob) => {
+  const png = image instanceof Blob && image.type === 'image/png'
+    ? Promise.resolve(image)
+    : image instanceof Blob
+      ? createImageBitmap(image).then(bitmap => canvasToBlob(captureFrame(bitmap), 'image/png'))
+      : canvasToBlob(image, 'image/png');
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+};
+
+export const createScreenshot = (blob: Blob, extension: string, canvas: HTMLCanvasElement, sourceName: string): Screenshot => ({
+  id: crypto.randomUUID(),
+  fileName: `kawaii-screenshot-${fileTimestamp()}.${extension}`,
+  blob,
+  width: canvas.width,
+  height: canvas.height,
+  sourceName,
+  createdAt: Date.now(),
+});
+
+export const listScreenshots = async () => {
+  const screenshots = await withStore<Screenshot[]>(STORES.screenshots, 'readonly', store => store.getAll());
+  return screenshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const addScreenshot = (screenshot: Screenshot) =>
+  withStore(STORES.screenshots, 'readwrite', store => store.put(screenshot));
+
+export const deleteScreenshot = (id: string) =>
+  withStore(STORES.screenshots, 'readwrite', store => store.delete(id));
+
+export const clearScreenshots = () =>
+  withStore(STORES.screenshots, 'readwrite', store => store.clear());
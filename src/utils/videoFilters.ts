@@ -0,0 +1,286 @@
+export type VideoFilterId = 'cat-ears' | 'sakura' | 'bow-tie' | 'sparkles' | 'hearts' | 'unicorn';
+
+interface ColorGrade {
+  // CSS filter chain applied while drawing the frame
+  filter: string;
+  tint?: string;
+  tintBlend?: GlobalCompositeOperation;
+}
+
+interface ParticleConfig {
+  glyphs: string[];
+  count: number;
+  motion: 'fall' | 'rise' | 'twinkle';
+  size: [number, number];
+}
+
+type StickerImage =
+  | { kind: 'emoji'; glyph: string }
+  | { kind: 'svg'; markup: string };
+
+interface StickerPlacement {
+  image: StickerImage;
+  // Centre point and width as fractions of the frame
+  x: number;
+  y: number;
+  size: number;
+  rotation?: number;
+}
+
+export interface VideoFilterDefinition {
+  id: VideoFilterId;
+  name: string;
+  emoji: string;
+  variant: 'primary' | 'secondary' | 'success';
+  colorGrade?: ColorGrade;
+  particles?: ParticleConfig;
+  stickers?: StickerPlacement[];
+}
+
+const CAT_EARS_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 80">
+  <path d="M10 78 L35 5 L80 60 Z" fill="#3b2a3f"/>
+  <path d="M26 70 L38 25 L64 58 Z" fill="#f8a3fc"/>
+  <path d="M190 78 L165 5 L120 60 Z" fill="#3b2a3f"/>
+  <path d="M174 70 L162 25 L136 58 Z" fill="#f8a3fc"/>
+</svg>`;
+
+export const VIDEO_FILTERS: VideoFilterDefinition[] = [
+  {
+    id: 'cat-ears',
+    name: 'Cat Ears',
+    emoji: '🐱',
+    variant: 'primary',
+    stickers: [{ image: { kind: 'svg', markup: CAT_EARS_SVG }, x: 0.5, y: 0.12, size: 0.45 }],
+  },
+  {
+    id: 'sakura',
+    name: 'Sakura',
+    emoji: '🌸',
+    variant: 'secondary',
+    colorGrade: {
+      filter: 'saturate(1.15) sepia(0.12) hue-rotate(-12deg) brightness(1.05)',
+      tint: 'rgba(255, 182, 213, 0.25)',
+      tintBlend: 'soft-light',
+    },
+    particles: { glyphs: ['🌸'], count: 18, motion: 'fall', size: [0.035, 0.06] },
+  },
+  {
+    id: 'bow-tie',
+    name: 'Bow Tie',
+    emoji: '🎀',
+    variant: 'success',
+    stickers: [{ image: { kind: 'emoji', glyph: '🎀' }, x: 0.5, y: 0.88, size: 0.2 }],
+  },
+  {
+    id: 'sparkles',
+    name: 'Sparkles',
+    emoji: '✨',
+    variant: 'primary',
+    particles: { glyphs: ['✨', '⭐'], count: 22, motion: 'twinkle', size: [0.025, 0.05] },
+  },
+  {
+    id: 'hearts',
+    name: 'Hearts',
+    emoji: '💖',
+    variant: 'secondary',
+    particles: { glyphs: ['💖', '💕', '💗'], count: 16, motion: 'rise', size: [0.03, 0.055] },
+  },
+  {
+    id: 'unicorn',
+    name: 'Unicorn',
+    emoji: '🦄',
+    variant: 'success',
+    colorGrade: {
+      filter: 'saturate(1.3) hue-rotate(18deg) brightness(1.08) contrast(1.05)',
+      tint: 'rgba(192, 132, 252, 0.2)',
+      tintBlend: 'screen',
+    },
+    stickers: [{ image: { kind: 'emoji', glyph: '🦄' }, x: 0.9, y: 0.12, size: 0.14, rotation: -0.2 }],
+  },
+];
+
+export const getVideoFilter = (id: VideoFilterId) => VIDEO_FILTERS.find(filter => filter.id === id);
+
+interface Particle {
+  glyph: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  rotation: number;
+  spin: number;
+  phase: number;
+}
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+
+const spawnParticle = (config: ParticleConfig, scatter: boolean): Particle => {
+  const glyph = config.glyphs[Math.floor(Math.random() * config.glyphs.length)];
+  const size = randomBetween(config.size[0], config.size[1]);
+  const base = {
+    glyph,
+    size,
+    x: Math.random(),
+    rotation: randomBetween(-0.5, 0.5),
+    spin: randomBetween(-0.8, 0.8),
+    phase: Math.random() * Math.PI * 2,
+  };
+
+  switch (config.motion) {
+    case 'fall':
+      return { ...base, y: scatter ? Math.random() : -size, vx: randomBetween(-0.03, 0.03), vy: randomBetween(0.05, 0.12) };
+    case 'rise':
+      return { ...base, y: scatter ? Math.random() : 1 + size, vx: randomBetween(-0.02, 0.02), vy: -randomBetween(0.06, 0.14), spin: 0 };
+    default:
+      return { ...base, y: Math.random(), vx: 0, vy: 0 };
+  }
+};
+
+const stepParticle = (particle: Particle, config: ParticleConfig, dt: number): Particle => {
+  const next = {
+    ...particle,
+    x: particle.x + (particle.vx + Math.sin(particle.phase) * 0.02) * dt,
+    y: particle.y + particle.vy * dt,
+    rotation: particle.rotation + particle.spin * dt,
+    phase: particle.phase + dt * 2,
+  };
+
+  const offscreen = next.y > 1 + next.size || next.y < -next.size * 2 || next.x < -0.1 || next.x > 1.1;
+  // Twinkles fade out and respawn somewhere else once their pulse finishes
+  const faded = config.motion === 'twinkle' && next.phase > Math.PI * 6;
+  return offscreen || faded ? spawnParticle(config, false) : next;
+};
+
+const stickerCache = new Map<string, CanvasImageSource>();
+
+const loadStickerImage = (image: StickerImage): CanvasImageSource | null => {
+  const key = image.kind === 'emoji' ? image.glyph : image.markup;
+  const cached = stickerCache.get(key);
+  if (cached) return cached;
+
+  if (image.kind === 'emoji') {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 256;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.font = '200px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(image.glyph, 128, 140);
+    stickerCache.set(key, canvas);
+    return canvas;
+  }
+
+  const element = new Image();
+  element.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.markup)}`;
+  stickerCache.set(key, element);
+  return element;
+};
+
+const getImageSize = (image: CanvasImageSource) => {
+  if (image instanceof HTMLImageElement) {
+    return image.complete ? { width: image.naturalWidth, height: image.naturalHeight } : null;
+  }
+  if (image instanceof HTMLCanvasElement) {
+    return { width: image.width, height: image.height };
+  }
+  return null;
+};
+
+export interface FilterPipeline {
+  canvas: HTMLCanvasElement;
+  render: (source: HTMLVideoElement, filters: VideoFilterId[]) => void;
+}
+
+export const createFilterPipeline = (): FilterPipeline => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const particles = new Map<VideoFilterId, Particle[]>();
+  let lastTime = performance.now();
+
+  const render = (source: HTMLVideoElement, filters: VideoFilterId[]) => {
+    if (!ctx || source.videoWidth === 0) return;
+
+    if (canvas.width !== source.videoWidth || canvas.height !== source.videoHeight) {
+      canvas.width = source.videoWidth;
+      canvas.height = source.videoHeight;
+    }
+
+    const { width, height } = canvas;
+    const now = performance.now();
+    const dt = Math.min(0.1, (now - lastTime) / 1000);
+    lastTime = now;
+
+    const definitions = filters
+      .map(getVideoFilter)
+      .filter((definition): definition is VideoFilterDefinition => !!definition);
+
+    // 1. Colour grading: CSS filter functions stack by simple concatenation
+    const grades = definitions.map(definition => definition.colorGrade).filter((grade): grade is ColorGrade => !!grade);
+    ctx.save();
+    ctx.filter = grades.length > 0 ? grades.map(grade => grade.filter).join(' ') : 'none';
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.restore();
+
+    grades.forEach(grade => {
+      if (!grade.tint) return;
+      ctx.save();
+      ctx.globalCompositeOperation = grade.tintBlend || 'source-over';
+      ctx.fillStyle = grade.tint;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+    });
+
+    // 2. Stickers
+    definitions.forEach(definition => {
+      definition.stickers?.forEach(sticker => {
+        const image = loadStickerImage(sticker.image);
+        const size = image && getImageSize(image);
+        if (!image || !size) return;
+
+        const drawWidth = sticker.size * width;
+        const drawHeight = drawWidth * (size.height / size.width);
+        ctx.save();
+        ctx.translate(sticker.x * width, sticker.y * height);
+        ctx.rotate(sticker.rotation || 0);
+        ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+        ctx.restore();
+      });
+    });
+
+    // 3. Particle overlays
+    definitions.forEach(definition => {
+      const config = definition.particles;
+      if (!config) return;
+
+      const current = particles.get(definition.id)
+        || Array.from({ length: config.count }, () => spawnParticle(config, true));
+      const next = current.map(particle => stepParticle(particle, config, dt));
+      particles.set(definition.id, next);
+
+      ctx.save();
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      next.forEach(particle => {
+        const fontSize = particle.size * width;
+        ctx.globalAlpha = config.motion === 'twinkle' ? Math.max(0, Math.sin(particle.phase / 3)) : 0.9;
+        ctx.font = `${fontSize}px sans-serif`;
+        ctx.save();
+        ctx.translate(particle.x * width, particle.y * height);
+        ctx.rotate(particle.rotation);
+        ctx.fillText(particle.glyph, 0, 0);
+        ctx.restore();
+      });
+      ctx.restore();
+    });
+
+    // Drop particle state for filters that were switched off so they restart fresh
+    particles.forEach((_, id) => {
+      if (!filters.includes(id)) particles.delete(id);
+    });
+  };
+
+  return { canvas, render };
+};
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { fixWebmMetadata, makeSeekable } from './webmMetadata';
+
+// Three seconds laid out the way MediaRecorder writes it: unknown-sized segment and clusters,
+// no Duration, no Cues. Track 1 is Opus, track 2 is VP8 with a keyframe at the start of each cluster.
+// Built by scripts/webm-fixture.js (`npm run fixtures:webm`).
+const RECORDER_FIXTURE = new URL('./__fixtures__/recorder.webm', import.meta.url);
+
+const ID = {
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  Chapters: 0x1043a770,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  Cues: 0x1c53bb6b,
+  CueTime: 0xb3,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+};
+
+interface Element {
+  id: number;
+  // Null for unknown-sized elements
+  size: number | null;
+  start: number;
+  bodyStart: number;
+  end: number;
+}
+
+const readVint = (bytes: Uint8Array, offset: number) => {
+  let length = 1;
+  while (length <= 8 && !(bytes[offset] & (0x80 >> (length - 1)))) length++;
+  let value = bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length, isUnknown: value === 2 ** (7 * length) - 1 };
+};
+
+const readUint = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+const readElement = (bytes: Uint8Array, start: number): Element => {
+  const idLength = readVint(bytes, start).length;
+  const id = readUint(bytes.subarray(start, start + idLength));
+  const size = readVint(bytes, start + idLength);
+  const bodyStart = start + idLength + size.length;
+  return { id, size: size.isUnknown ? null : size.value, start, bodyStart, end: size.isUnknown ? bytes.length : bodyStart + size.value };
+};
+
+const children = (bytes: Uint8Array, parent: Element) => {
+  const found: Element[] = [];
+  for (let offset = parent.bodyStart; offset < parent.end;) {
+    const child = readElement(bytes, offset);
+    found.push(child);
+    offset = child.end;
+  }
+  return found;
+};
+
+const child = (bytes: Uint8Array, parent: Element, id: number) => children(bytes, parent).find(element => element.id === id);
+
+const body = (bytes: Uint8Array, element: Element) => bytes.subarray(element.bodyStart, element.end);
+
+const loadFixture = async () => {
+  const bytes = await readFile(RECORDER_FIXTURE);
+  return new File([bytes], 'kawaii-recording.webm', { type: 'video/webm;codecs=vp8,opus' });
+};
+
+// An unknown-sized element runs to the end of the file here, so the first cluster swallows the rest
+const firstCluster = async (file: File) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const segment = readElement(bytes, readElement(bytes, 0).end);
+  return children(bytes, segment).find(element => element.id === ID.Cluster)!;
+};
+
+// Splits a fixed file into its segment and the segment's children, checking sizes add up on the way
+const parseFixed = async (file: File) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const ebml = readElement(bytes, 0);
+  const segment = readElement(bytes, ebml.end);
+  expect(segment.id).toBe(ID.Segment);
+  expect(segment.size).toBe(bytes.length - segment.bodyStart);
+  return { bytes, segment, elements: children(bytes, segment) };
+};
+
+const readDuration = (bytes: Uint8Array, info: Element) => {
+  const duration = child(bytes, info, ID.Duration)!;
+  return new DataView(bytes.buffer, bytes.byteOffset + duration.bodyStart, 8).getFloat64(0);
+};
+
+describe('fixWebmMetadata', () => {
+  it('writes the duration into Info', async () => {
+    const { bytes, elements } = await parseFixed(await fixWebmMetadata(await loadFixture()));
+
+    const info = elements.find(element => element.id === ID.Info)!;
+    // The last frames are at 2.9s and last as long as the gap before them
+    expect(readDuration(bytes, info)).toBe(3000);
+  });
+
+  it('gives every cluster a known size', async () => {
+    expect((await firstCluster(await loadFixture())).size).toBeNull();
+
+    const { bytes, elements } = await parseFixed(await fixWebmMetadata(await loadFixture()));
+    const clusters = elements.filter(element => element.id === ID.Cluster);
+
+    expect(clusters).toHaveLength(3);
+    for (const [index, cluster] of clusters.entries()) {
+      expect(cluster.size).not.toBeNull();
+      const blocks = children(bytes, cluster);
+      expect(readUint(body(bytes, blocks[0]))).toBe(index * 1000);
+      expect(blocks).toHaveLength(21);
+    }
+    expect(clusters[clusters.length - 1].end).toBe(bytes.length);
+  });
+
+  it('points the SeekHead and Cues at the right elements', async () => {
+    const { bytes, segment, elements } = await parseFixed(await fixWebmMetadata(await loadFixture()));
+    const at = (position: number) => readElement(bytes, segment.bodyStart + position);
+
+    const seekHead = elements.find(element => element.id === ID.SeekHead)!;
+    const seeks = children(bytes, seekHead).map(seek => ({
+      id: readUint(body(bytes, child(bytes, seek, ID.SeekID)!)),
+      position: readUint(body(bytes, child(bytes, seek, ID.SeekPosition)!)),
+    }));
+    expect(seeks.map(seek => seek.id)).toEqual([ID.Info, ID.Tracks, ID.Cues]);
+    for (const seek of seeks) expect(at(seek.position).id).toBe(seek.id);
+
+    const cues = elements.find(element => element.id === ID.Cues)!;
+    const cuePoints = children(bytes, cues);
+    expect(cuePoints).toHaveLength(3);
+    for (const cuePoint of cuePoints) {
+      const time = readUint(body(bytes, child(bytes, cuePoint, ID.CueTime)!));
+      const positions = children(bytes, cuePoint)[1];
+      expect(readUint(body(bytes, child(bytes, positions, ID.CueTrack)!))).toBe(2);
+
+      const cluster = at(readUint(body(bytes, child(bytes, positions, ID.CueClusterPosition)!)));
+      expect(cluster.id).toBe(ID.Cluster);
+      expect(readUint(body(bytes, child(bytes, cluster, ID.Timecode)!))).toBe(time);
+    }
+  });
+
+  it('adds chapters from markers to the SeekHead', async () => {
+    const { bytes, segment, elements } = await parseFixed(await makeSeekable(await loadFixture(), [{ name: 'Boss fight', timeMs: 1500 }]));
+
+    const seekHead = elements.find(element => element.id === ID.SeekHead)!;
+    const chapters = children(bytes, seekHead)
+      .map(seek => readUint(body(bytes, child(bytes, seek, ID.SeekPosition)!)))
+      .map(position => readElement(bytes, segment.bodyStart + position))
+      .find(element => element.id === ID.Chapters);
+    expect(chapters).toBeDefined();
+    expect(new TextDecoder().decode(body(bytes, chapters!))).toContain('Boss fight');
+  });
+
+  it('ends a recording cut off mid-cluster after its last complete block', async () => {
+    const file = await loadFixture();
+    // Drops the last video frame and half of the audio frame before it
+    const truncated = new File([file.slice(0, file.size - 20)], file.name, { type: file.type });
+
+    const { bytes, elements } = await parseFixed(await fixWebmMetadata(truncated));
+    const clusters = elements.filter(element => element.id === ID.Cluster);
+
+    expect(clusters).toHaveLength(3);
+    expect(children(bytes, clusters[2])).toHaveLength(19);
+    expect(readDuration(bytes, elements.find(element => element.id === ID.Info)!)).toBe(2900);
+  });
+
+  it('passes other files through untouched', async () => {
+    const image = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'kawaii-screenshot.png', { type: 'image/png' });
+    expect(await fixWebmMetadata(image)).toBe(image);
+    expect(await makeSeekable(image)).toBe(image);
+  });
+
+  it('returns WebM it cannot parse unchanged', async () => {
+    const garbage = new File(['not really a webm'], 'kawaii-recording.webm', { type: 'video/webm' });
+    await expect(fixWebmMetadata(garbage)).rejects.toThrow('Not an EBML file');
+    expect(await makeSeekable(garbage)).toBe(garbage);
+
+    const file = await loadFixture();
+    const headerOnly = new File([file.slice(0, (await firstCluster(file)).start)], file.name, { type: file.type });
+    expect(await makeSeekable(headerOnly)).toBe(headerOnly);
+  });
+});
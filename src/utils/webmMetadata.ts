@@ -0,0 +1,458 @@
+// MediaRecorder writes WebM as a live stream: the segment and clusters have unknown sizes,
+// Info has no Duration and there are no Cues, so players can't show a length or seek.
+// fixWebmMetadata scans the clusters and rebuilds the segment around them with all of that
+// filled in. Cluster bodies are reused as slices of the original file, so nothing large is
+// copied into memory.
+
+import { RecordingMarker, sortMarkers } from './chapterMarkers';
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  EditionUID: 0x45bc,
+  ChapterAtom: 0xb6,
+  ChapterUID: 0x73c4,
+  ChapterTimeStart: 0x91,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+  ChapLanguage: 0x437c,
+} as const;
+
+// Elements that can follow a cluster at the segment level, which is how an unknown-sized cluster ends
+const SEGMENT_CHILDREN: number[] = [
+  ID.SeekHead, ID.Info, ID.Tracks, ID.Cluster, ID.Cues, ID.Chapters,
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+];
+
+// Rebuilt from scratch, so the originals are dropped
+const REBUILT: number[] = [ID.SeekHead, ID.Cues, ID.Void];
+
+const TRACK_TYPE_VIDEO = 1;
+const DEFAULT_TIMECODE_SCALE = 1000000;
+const READ_WINDOW = 256 * 1024;
+
+interface ElementHeader {
+  id: number;
+  // Null for unknown-sized elements
+  size: number | null;
+  headerLength: number;
+}
+
+interface ClusterInfo {
+  start: number;
+  bodyStart: number;
+  end: number;
+  timecode: number;
+  // Time of the first keyframe on the cue track, in timecode units
+  cueTime: number | null;
+}
+
+// Extra segment-level elements to write ahead of the clusters, replacing any with the same id
+export interface WebmExtras {
+  elements?: { id: number; body: Uint8Array }[];
+}
+
+// Buffered random access over a Blob, since most reads are a few bytes just after the last one
+const createReader = (blob: Blob) => {
+  let windowStart = 0;
+  let window = new Uint8Array(0);
+
+  return {
+    size: blob.size,
+    read: async (offset: number, length: number) => {
+      if (offset < windowStart || offset + length > windowStart + window.length) {
+        const end = Math.min(blob.size, offset + Math.max(length, READ_WINDOW));
+        window = new Uint8Array(await blob.slice(offset, end).arrayBuffer());
+        windowStart = offset;
+      }
+      return window.subarray(offset - windowStart, offset - windowStart + length);
+    },
+  };
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+// EBML variable-length integers: the leading zero bits give the length
+const vintLength = (firstByte: number) => {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+};
+
+const readUint = (bytes: Uint8Array, start = 0, end = bytes.length) => {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+// Track numbers in blocks are vints with the marker bit removed
+const readVint = (bytes: Uint8Array, offset: number) => {
+  const length = vintLength(bytes[offset]);
+  if (length === 0 || offset + length > bytes.length) return null;
+  let value = bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+};
+
+const readHeader = async (reader: Reader, offset: number): Promise<ElementHeader | null> => {
+  const bytes = await reader.read(offset, 12);
+  if (bytes.length === 0) return null;
+
+  const idLength = vintLength(bytes[0]);
+  if (idLength === 0 || idLength > 4 || bytes.length < idLength + 1) return null;
+  const id = readUint(bytes, 0, idLength);
+
+  const sizeLength = vintLength(bytes[idLength]);
+  if (sizeLength === 0 || bytes.length < idLength + sizeLength) return null;
+  const size = readVint(bytes, idLength);
+  if (!size) return null;
+
+  // All data bits set means "unknown size"
+  const isUnknown = size.value === 2 ** (7 * sizeLength) - 1;
+  return { id, size: isUnknown ? null : size.value, headerLength: idLength + sizeLength };
+};
+
+// Walks the direct children of a fully-read element body, passing each child's whole element and its body
+const forEachChild = (body: Uint8Array, visit: (id: number, element: Uint8Array, childBody: Uint8Array) => void) => {
+  let offset = 0;
+  while (offset < body.length) {
+    const idLength = vintLength(body[offset]);
+    if (idLength === 0 || idLength > 4) break;
+    const size = readVint(body, offset + idLength);
+    if (!size) break;
+    const start = offset + idLength + size.length;
+    const end = start + size.value;
+    if (end > body.length) break;
+    visit(readUint(body, offset, offset + idLength), body.subarray(offset, end), body.subarray(start, end));
+    offset = end;
+  }
+};
+
+const encodeId = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return new Uint8Array(bytes);
+};
+
+const encodeSize = (size: number, length?: number) => {
+  let bytesNeeded = length ?? 1;
+  while (!length && size >= 2 ** (7 * bytesNeeded) - 1) bytesNeeded++;
+  const bytes = new Uint8Array(bytesNeeded);
+  let value = size;
+  for (let i = bytesNeeded - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (bytesNeeded - 1);
+  return bytes;
+};
+
+// Positions are written at a fixed width so element sizes don't depend on where things end up
+const encodeUint = (value: number, length = 8) => {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+};
+
+const encodeFloat = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+export const encodeElement = (id: number, ...body: Uint8Array[]) => {
+  const payload = concat(body);
+  return concat([encodeId(id), encodeSize(payload.length), payload]);
+};
+
+const readTracks = (body: Uint8Array) => {
+  const tracks: { number: number; type: number }[] = [];
+  forEachChild(body, (id, _element, entry) => {
+    if (id !== ID.TrackEntry) return;
+    const track = { number: 0, type: 0 };
+    forEachChild(entry, (childId, _child, value) => {
+      if (childId === ID.TrackNumber) track.number = readUint(value);
+      if (childId === ID.TrackType) track.type = readUint(value);
+    });
+    tracks.push(track);
+  });
+  return tracks;
+};
+
+// Reads the start of a (Simple)Block: track number, timecode relative to the cluster, flags
+const readBlockHeader = async (reader: Reader, offset: number) => {
+  const bytes = await reader.read(offset, 12);
+  const track = readVint(bytes, 0);
+  if (!track || bytes.length < track.length + 3) return null;
+  const timecode = new DataView(bytes.buffer, bytes.byteOffset + track.length, 2).getInt16(0);
+  return { track: track.value, timecode, flags: bytes[track.length + 2] };
+};
+
+interface TrackTimes {
+  last: number;
+  previous: number | null;
+}
+
+// Finds where a cluster ends, when it starts and its first keyframe on `cueTrack`.
+// Unknown-sized clusters run until the next segment-level element; a cluster cut off by a
+// crash ends after its last complete block.
+const scanCluster = async (
+  reader: Reader,
+  start: number,
+  header: ElementHeader,
+  limit: number,
+  cueTrack: number | null,
+  times: Map<number, TrackTimes>,
+): Promise<ClusterInfo> => {
+  const bodyStart = start + header.headerLength;
+  const declaredEnd = header.size === null ? limit : Math.min(limit, bodyStart + header.size);
+  const cluster: ClusterInfo = { start, bodyStart, end: bodyStart, timecode: 0, cueTime: null };
+
+  const noteBlock = (track: number, relative: number, isKeyframe: boolean) => {
+    const time = cluster.timecode + relative;
+    const seen = times.get(track);
+    if (!seen || time > seen.last) times.set(track, { last: time, previous: seen ? seen.last : null });
+    if (cluster.cueTime === null && isKeyframe && (cueTrack === null || track === cueTrack)) cluster.cueTime = time;
+  };
+
+  let offset = bodyStart;
+  while (offset < declaredEnd) {
+    const child = await readHeader(reader, offset);
+    if (!child || child.size === null) break;
+    if (header.size === null && SEGMENT_CHILDREN.includes(child.id)) break;
+    const childEnd = offset + child.headerLength + child.size;
+    if (childEnd > declaredEnd) break;
+
+    const childBody = offset + child.headerLength;
+    if (child.id === ID.Timecode) {
+      cluster.timecode = readUint(await reader.read(childBody, child.size));
+    } else if (child.id === ID.SimpleBlock) {
+      const block = await readBlockHeader(reader, childBody);
+      if (block) noteBlock(block.track, block.timecode, (block.flags & 0x80) !== 0);
+    } else if (child.id === ID.BlockGroup) {
+      // Blocks in a group are keyframes unless they reference another block
+      let block: Awaited<ReturnType<typeof readBlockHeader>> = null;
+      let hasReference = false;
+      for (let inner = childBody; inner < childEnd;) {
+        const groupChild = await readHeader(reader, inner);
+        if (!groupChild || groupChild.size === null) break;
+        if (groupChild.id === ID.Block) block = await readBlockHeader(reader, inner + groupChild.headerLength);
+        if (groupChild.id === ID.ReferenceBlock) hasReference = true;
+        inner += groupChild.headerLength + groupChild.size;
+      }
+      if (block) noteBlock(block.track, block.timecode, !hasReference);
+    }
+
+    offset = childEnd;
+    cluster.end = childEnd;
+  }
+  return cluster;
+};
+
+// UIDs only have to be unique within the file and non-zero
+const randomUid = () => encodeUint(Math.floor(Math.random() * 0xfffffffe) + 1, 4);
+
+// A single edition with one chapter per marker; chapter times are always in nanoseconds
+export const encodeChapters = (markers: RecordingMarker[]) => ({
+  id: ID.Chapters,
+  body: encodeElement(ID.EditionEntry,
+    encodeElement(ID.EditionUID, randomUid()),
+    ...sortMarkers(markers).map(marker => encodeElement(ID.ChapterAtom,
+      encodeElement(ID.ChapterUID, randomUid()),
+      encodeElement(ID.ChapterTimeStart, encodeUint(Math.round(marker.timeMs * 1000000))),
+      encodeElement(ID.ChapterDisplay,
+        encodeElement(ID.ChapString, new TextEncoder().encode(marker.name)),
+        encodeElement(ID.ChapLanguage, new TextEncoder().encode('eng')),
+      ),
+    )),
+  ),
+});
+
+// Adds Duration, Cues and a SeekHead to a MediaRecorder WebM file. Other files pass through.
+export const fixWebmMetadata = async (file: File, extras: WebmExtras = {}): Promise<File> => {
+  if (!file.type.startsWith('video/webm') && !file.type.startsWith('audio/webm')) return file;
+
+  const reader = createReader(file);
+  const ebml = await readHeader(reader, 0);
+  if (!ebml || ebml.id !== ID.EBML || ebml.size === null) throw new Error('Not an EBML file');
+  const segmentStart = ebml.headerLength + ebml.size;
+
+  const segment = await readHeader(reader, segmentStart);
+  if (!segment || segment.id !== ID.Segment) throw new Error('No Segment element');
+  const segmentDataStart = segmentStart + segment.headerLength;
+  const segmentEnd = segment.size === null ? file.size : Math.min(file.size, segmentDataStart + segment.size);
+
+  let info: Uint8Array | null = null;
+  let tracks: Uint8Array | null = null;
+  let cueTrack: number | null = null;
+  const kept: Blob[] = [];
+  const clusters: ClusterInfo[] = [];
+  const times = new Map<number, TrackTimes>();
+
+  let offset = segmentDataStart;
+  while (offset < segmentEnd) {
+    const header = await readHeader(reader, offset);
+    if (!header) break;
+
+    if (header.id === ID.Cluster) {
+      const cluster = await scanCluster(reader, offset, header, segmentEnd, cueTrack, times);
+      if (cluster.end === cluster.bodyStart) break;
+      clusters.push(cluster);
+      offset = cluster.end;
+      continue;
+    }
+
+    if (header.size === null) throw new Error(`Unknown-sized element 0x${header.id.toString(16)}`);
+    const bodyStart = offset + header.headerLength;
+    const end = bodyStart + header.size;
+    if (end > segmentEnd) break;
+
+    if (header.id === ID.Info) {
+      info = new Uint8Array(await file.slice(bodyStart, end).arrayBuffer());
+    } else if (header.id === ID.Tracks) {
+      tracks = new Uint8Array(await file.slice(bodyStart, end).arrayBuffer());
+      const entries = readTracks(tracks);
+      cueTrack = (entries.find(track => track.type === TRACK_TYPE_VIDEO) ?? entries[0])?.number ?? null;
+    } else if (!REBUILT.includes(header.id) && !extras.elements?.some(element => element.id === header.id)) {
+      // Anything we don't rebuild is kept as it was, except what the caller is replacing
+      kept.push(file.slice(offset, end));
+    }
+    offset = end;
+  }
+
+  if (!info || !tracks) throw new Error('Missing Info or Tracks');
+  if (clusters.length === 0) throw new Error('No clusters');
+
+  // The last block lasts about as long as the gap before it
+  let duration = 0;
+  for (const { last, previous } of times.values()) {
+    duration = Math.max(duration, last + (previous !== null ? last - previous : 0));
+  }
+
+  const infoChildren: Uint8Array[] = [];
+  let timecodeScale = DEFAULT_TIMECODE_SCALE;
+  forEachChild(info, (id, element, value) => {
+    if (id === ID.TimecodeScale) timecodeScale = readUint(value);
+    if (id !== ID.Duration) infoChildren.push(element);
+  });
+  const infoElement = encodeElement(ID.Info, ...infoChildren, encodeElement(ID.Duration, encodeFloat(duration)));
+  const tracksElement = encodeElement(ID.Tracks, tracks);
+  const extraElements = (extras.elements ?? []).map(element => encodeElement(element.id, element.body));
+  const keptSize = kept.reduce((sum, blob) => sum + blob.size, 0);
+
+  // Clusters are rewritten with known sizes; every position below is relative to the segment data
+  const clusterHeaderSize = encodeId(ID.Cluster).length + 8;
+  const cuePoints = (clusterOffset: number) => {
+    const points: Uint8Array[] = [];
+    let position = clusterOffset;
+    for (const cluster of clusters) {
+      if (cluster.cueTime !== null && cueTrack !== null) {
+        points.push(encodeElement(ID.CuePoint,
+          encodeElement(ID.CueTime, encodeUint(cluster.cueTime)),
+          encodeElement(ID.CueTrackPositions,
+            encodeElement(ID.CueTrack, encodeUint(cueTrack, 1)),
+            encodeElement(ID.CueClusterPosition, encodeUint(position)),
+          ),
+        ));
+      }
+      position += clusterHeaderSize + (cluster.end - cluster.bodyStart);
+    }
+    return points;
+  };
+
+  const seekEntries = [ID.Info, ID.Tracks, ...(extras.elements ?? []).map(element => element.id), ID.Cues];
+  const buildSeekHead = (positions: number[]) => encodeElement(ID.SeekHead, ...seekEntries.map((id, index) =>
+    encodeElement(ID.Seek,
+      encodeElement(ID.SeekID, encodeId(id)),
+      encodeElement(ID.SeekPosition, encodeUint(positions[index])),
+    ),
+  ));
+
+  // Fixed-width numbers mean sizes can be measured with placeholder positions first
+  const seekHeadSize = buildSeekHead(seekEntries.map(() => 0)).length;
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + infoElement.length;
+  const extraPositions: number[] = [];
+  let position = tracksPosition + tracksElement.length;
+  for (const element of extraElements) {
+    extraPositions.push(position);
+    position += element.length;
+  }
+  const cuesPosition = position + keptSize;
+  const cuesSize = encodeElement(ID.Cues, ...cuePoints(0)).length;
+  const cuesElement = encodeElement(ID.Cues, ...cuePoints(cuesPosition + cuesSize));
+  const seekHead = buildSeekHead([infoPosition, tracksPosition, ...extraPositions, cuesPosition]);
+
+  const clusterParts: BlobPart[] = clusters.flatMap(cluster => [
+    concat([encodeId(ID.Cluster), encodeSize(cluster.end - cluster.bodyStart, 8)]),
+    file.slice(cluster.bodyStart, cluster.end),
+  ]);
+  const segmentSize = cuesPosition + cuesElement.length
+    + clusters.reduce((sum, cluster) => sum + clusterHeaderSize + (cluster.end - cluster.bodyStart), 0);
+
+  console.log(`🧭 Added duration (${(duration * timecodeScale / 1e9).toFixed(1)}s) and ${clusters.filter(c => c.cueTime !== null).length} cue points to ${file.name}`);
+  return new File([
+    file.slice(0, segmentStart),
+    concat([encodeId(ID.Segment), encodeSize(segmentSize, 8)]),
+    seekHead,
+    infoElement,
+    tracksElement,
+    ...extraElements,
+    ...kept,
+    cuesElement,
+    ...clusterParts,
+  ], file.name, { type: file.type });
+};
+
+// Adds the duration and cues MediaRecorder leaves out, plus any markers as chapters.
+// A file we can't fix is still worth saving, so this never throws.
+export const makeSeekable = async (file: File, markers: RecordingMarker[] = []) => {
+  try {
+    return await fixWebmMetadata(file, markers.length > 0 ? { elements: [encodeChapters(markers)] } : {});
+  } catch (error) {
+    console.warn('⚠️ Could not add seeking info to', file.name, error);
+    return file;
+  }
+};
@@ -0,0 +1,102 @@
+export interface WhipOptions {
+  bearerToken?: string;
+  iceServers?: RTCIceServer[];
+  onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+}
+
+export interface WhipSession {
+  peerConnection: RTCPeerConnection;
+  resourceUrl: string | null;
+  stop: () => Promise<void>;
+}
+
+const ICE_GATHERING_TIMEOUT_MS = 3000;
+
+const waitForIceGathering = (pc: RTCPeerConnection) => new Promise<void>(resolve => {
+  if (pc.iceGatheringState === 'complete') {
+    resolve();
+    return;
+  }
+
+  // WHIP servers accept whatever candidates we have, so don't wait forever for slow STUN servers
+  const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+  function done() {
+    clearTimeout(timeout);
+    pc.removeEventListener('icegatheringstatechange', onChange);
+    resolve();
+  }
+  function onChange() {
+    if (pc.iceGatheringState === 'complete') done();
+  }
+  pc.addEventListener('icegatheringstatechange', onChange);
+});
+
+const buildHeaders = (contentType: string | null, bearerToken?: string) => {
+  const headers: Record<string, string> = {};
+  if (contentType) headers['Content-Type'] = contentType;
+  if (bearerToken) headers.Authorization = `Bearer ${bearerToken}`;
+  return headers;
+};
+
+// Publishes every track of `stream` to a WHIP endpoint (RFC 9725)
+export const publishWhip = async (endpoint: string, stream: MediaStream, options: WhipOptions = {}): Promise<WhipSession> => {
+  const peerConnection = new RTCPeerConnection({
+    iceServers: options.iceServers,
+    bundlePolicy: 'max-bundle',
+  });
+
+  peerConnection.addEventListener('connectionstatechange', () => {
+    console.log('📡 WHIP connection state:', peerConnection.connectionState);
+    options.onConnectionStateChange?.(peerConnection.connectionState);
+  });
+
+  try {
+    stream.getTracks().forEach(track => {
+      peerConnection.addTransceiver(track, { direction: 'sendonly', streams: [stream] });
+    });
+
+    const offer = await peerConnection.createOffer();
+    await peerConnection.setLocalDescription(offer);
+    await waitForIceGathering(peerConnection);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: buildHeaders('application/sdp', options.bearerToken),
+      body: peerConnection.localDescription?.sdp,
+    });
+
+    if (response.status !== 201 && response.status !== 200) {
+      const reason = response.status === 401 || response.status === 403
+        ? 'the stream key was rejected'
+        : `the server answered ${response.status} ${response.statusText}`.trim();
+      throw new Error(`WHIP publish failed: ${reason}`);
+    }
+
+    const location = response.headers.get('Location');
+    const resourceUrl = location ? new URL(location, endpoint).toString() : null;
+    const answer = await response.text();
+    await peerConnection.setRemoteDescription({ type: 'answer', sdp: answer });
+
+    console.log('📡 WHIP session created:', resourceUrl || '(no resource URL)');
+
+    return {
+      peerConnection,
+      resourceUrl,
+      stop: async () => {
+        peerConnection.close();
+        if (!resourceUrl) return;
+        try {
+          await fetch(resourceUrl, {
+            method: 'DELETE',
+            headers: buildHeaders(null, options.bearerToken),
+          });
+        } catch (error) {
+          console.warn('⚠️ Could not tear down WHIP session:', error);
+        }
+      },
+    };
+  } catch (error) {
+    peerConnection.close();
+    throw error;
+  }
+};
@@ -0,0 +1,46 @@
+// Appends recording chunks to an OPFS file through a sync access handle.
+// Unlike createWritable(), which stages everything in a swap file until close(),
+// sync handles write in place, so every flushed chunk survives a tab crash.
+let access = null;
+let offset = 0;
+let queue = Promise.resolve();
+
+const handlers = {
+  async open({ directory, fileName }) {
+    const root = await navigator.storage.getDirectory();
+    const folder = await root.getDirectoryHandle(directory, { create: true });
+    const file = await folder.getFileHandle(fileName, { create: true });
+    access = await file.createSyncAccessHandle();
+    offset = access.getSize();
+    return { size: offset };
+  },
+
+  write({ chunk }) {
+    const bytes = new Uint8Array(chunk);
+    access.write(bytes, { at: offset });
+    access.flush();
+    offset += bytes.byteLength;
+    return { size: offset };
+  },
+
+  close() {
+    if (access) {
+      access.flush();
+      access.close();
+      access = null;
+    }
+    return { size: offset };
+  },
+};
+
+// Messages are handled one at a time so writes land in the order they were sent
+self.onmessage = ({ data }) => {
+  queue = queue.then(async () => {
+    try {
+      const result = await handlers[data.type](data);
+      self.postMessage({ id: data.id, ok: true, ...result });
+    } catch (error) {
+      self.postMessage({ id: data.id, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
@@ -0,0 +1,64 @@
+// Noise gate that runs on the audio rendering thread. Loaded with audioWorklet.addModule,
+// so it has to stay a plain script without imports.
+
+// Level detector smoothing: fast enough for speech onsets, slow enough to ignore single spikes
+const DETECTOR_TIME = 0.01;
+
+const timeToCoefficient = (seconds) => 1 - Math.exp(-1 / (Math.max(seconds, 0.0001) * sampleRate));
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'enabled', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'threshold', defaultValue: -50, minValue: -100, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'attack', defaultValue: 0.005, minValue: 0.0001, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'hold', defaultValue: 0.1, minValue: 0, maxValue: 2, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.15, minValue: 0.001, maxValue: 3, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.envelope = 0;
+    this.gain = 0;
+    this.holdRemaining = 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const enabled = parameters.enabled[0] >= 0.5;
+    const threshold = Math.pow(10, parameters.threshold[0] / 20);
+    const attack = timeToCoefficient(parameters.attack[0]);
+    const release = timeToCoefficient(parameters.release[0]);
+    const detector = timeToCoefficient(DETECTOR_TIME);
+    const holdSamples = parameters.hold[0] * sampleRate;
+
+    for (let i = 0; i < input[0].length; i++) {
+      let level = 0;
+      for (let channel = 0; channel < input.length; channel++) {
+        level = Math.max(level, Math.abs(input[channel][i]));
+      }
+      this.envelope += (level - this.envelope) * (level > this.envelope ? 1 : detector);
+
+      let target = 0;
+      if (!enabled || this.envelope >= threshold) {
+        target = 1;
+        this.holdRemaining = holdSamples;
+      } else if (this.holdRemaining > 0) {
+        target = 1;
+        this.holdRemaining--;
+      }
+      this.gain += (target - this.gain) * (target > this.gain ? attack : release);
+
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = (input[channel] ?? input[0])[i] * this.gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('kawaii-noise-gate', NoiseGateProcessor);